@@ -1,7 +1,34 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { Dungeon, ApiEndpointConfig } from '@/lib/api';
+import { Dungeon, ApiEndpointConfig, EndpointSource, EndpointVisibility, DifficultyLevel, DungeonFilter, ApiKeyInfo, ApiKeyScope, EndpointRateLimit, RateLimitRule, EndpointUsageStats, UsageWindow } from '@/lib/api';
+import { ApiClient } from '@/lib/client';
+
+const DIFFICULTIES: DifficultyLevel[] = ['Easy', 'Medium', 'Hard', 'Expert'];
+const KEY_SCOPES: ApiKeyScope[] = ['dungeons:read', 'dungeons:write', 'endpoints:manage', 'keys:manage'];
+const USAGE_WINDOWS: { value: UsageWindow; label: string }[] = [
+  { value: '1h', label: 'Last hour' },
+  { value: '24h', label: 'Last 24 hours' },
+  { value: '7d', label: 'Last 7 days' },
+  { value: '30d', label: 'Last 30 days' }
+];
+
+// Filter form fields; levels stay text so the inputs can be empty
+const EMPTY_FILTER = {
+  difficulties: [] as DifficultyLevel[],
+  minLevel: '',
+  maxLevel: '',
+  text: '',
+  monster: ''
+};
+
+// Rate limit form fields; a bucket is only configured when both of its fields are filled in
+const EMPTY_RATE_LIMIT = {
+  endpointRequests: '',
+  endpointWindow: '',
+  perKeyRequests: '',
+  perKeyWindow: ''
+};
 
 export default function ApiEndpointsPage() {
   const [endpoints, setEndpoints] = useState<ApiEndpointConfig[]>([]);
@@ -12,17 +39,37 @@ export default function ApiEndpointsPage() {
   const [editingEndpoint, setEditingEndpoint] = useState<ApiEndpointConfig | null>(null);
   const [testResults, setTestResults] = useState<{ [key: string]: any }>({});
 
+  // API key state
+  const [apiKeys, setApiKeys] = useState<ApiKeyInfo[]>([]);
+  const [keysError, setKeysError] = useState<string | null>(null);
+  const [savedKey, setSavedKey] = useState('');
+  const [newKey, setNewKey] = useState({ name: '', scopes: ['dungeons:read'] as ApiKeyScope[] });
+  const [createdSecret, setCreatedSecret] = useState<string | null>(null);
+
+  // Usage dashboard state
+  const [usage, setUsage] = useState<EndpointUsageStats[]>([]);
+  const [usageWindow, setUsageWindow] = useState<UsageWindow>('24h');
+  const [usageError, setUsageError] = useState<string | null>(null);
+
   // Form state
   const [formData, setFormData] = useState({
     name: '',
     path: '',
+    source: 'dungeon' as EndpointSource,
     dungeonId: '',
+    dungeonIds: [] as string[],
+    filter: EMPTY_FILTER,
+    seed: '',
+    visibility: 'public' as EndpointVisibility,
+    allowedKeyIds: [] as string[],
+    rateLimit: EMPTY_RATE_LIMIT,
     description: '',
     enabled: true
   });
 
   // Load endpoints and dungeons on mount
   useEffect(() => {
+    setSavedKey(ApiClient.getKey());
     loadData();
   }, []);
 
@@ -32,7 +79,7 @@ export default function ApiEndpointsPage() {
       setError(null);
 
       // Load endpoints
-      const endpointsRes = await fetch('/api/endpoints');
+      const endpointsRes = await ApiClient.fetch('/api/endpoints');
       const endpointsData = await endpointsRes.json();
       
       if (endpointsData.success) {
@@ -42,7 +89,7 @@ export default function ApiEndpointsPage() {
       }
 
       // Load dungeons
-      const dungeonsRes = await fetch('/api/dungeon');
+      const dungeonsRes = await ApiClient.fetch('/api/dungeon');
       const dungeonsData = await dungeonsRes.json();
       
       if (dungeonsData.success) {
@@ -55,6 +102,46 @@ export default function ApiEndpointsPage() {
     } finally {
       setLoading(false);
     }
+    await loadKeys();
+    await loadUsage(usageWindow);
+  };
+
+  const loadUsage = async (window: UsageWindow) => {
+    try {
+      setUsageError(null);
+      const response = await ApiClient.fetch(`/api/endpoints/usage?window=${window}`);
+      const data = await response.json();
+      if (data.success) {
+        setUsage(data.data || []);
+      } else {
+        setUsage([]);
+        setUsageError(data.error || 'Failed to load usage');
+      }
+    } catch (err) {
+      setUsageError(err instanceof Error ? err.message : 'Failed to load usage');
+    }
+  };
+
+  const handleUsageWindowChange = async (window: UsageWindow) => {
+    setUsageWindow(window);
+    await loadUsage(window);
+  };
+
+  // Keys are listed separately; a key without keys:manage can still use the rest of the page
+  const loadKeys = async () => {
+    try {
+      setKeysError(null);
+      const response = await ApiClient.fetch('/api/keys');
+      const data = await response.json();
+      if (data.success) {
+        setApiKeys(data.data || []);
+      } else {
+        setApiKeys([]);
+        setKeysError(data.error || 'Failed to load API keys');
+      }
+    } catch (err) {
+      setKeysError(err instanceof Error ? err.message : 'Failed to load API keys');
+    }
   };
 
   const generateId = () => {
@@ -67,7 +154,14 @@ export default function ApiEndpointsPage() {
     setFormData({
       name: '',
       path: '/api/custom/',
+      source: 'dungeon',
       dungeonId: dungeons[0]?.id || '',
+      dungeonIds: [],
+      filter: EMPTY_FILTER,
+      seed: '',
+      visibility: 'public',
+      allowedKeyIds: [],
+      rateLimit: EMPTY_RATE_LIMIT,
       description: '',
       enabled: true
     });
@@ -79,7 +173,25 @@ export default function ApiEndpointsPage() {
     setFormData({
       name: endpoint.name,
       path: endpoint.path,
-      dungeonId: endpoint.dungeonId,
+      source: endpoint.source || 'dungeon',
+      dungeonId: endpoint.dungeonId || '',
+      dungeonIds: endpoint.dungeonIds || [],
+      filter: {
+        difficulties: endpoint.filter?.difficulties || [],
+        minLevel: endpoint.filter?.minLevel?.toString() ?? '',
+        maxLevel: endpoint.filter?.maxLevel?.toString() ?? '',
+        text: endpoint.filter?.text || '',
+        monster: endpoint.filter?.monster || ''
+      },
+      seed: endpoint.seed || '',
+      visibility: endpoint.visibility || 'public',
+      allowedKeyIds: endpoint.allowedKeyIds || [],
+      rateLimit: {
+        endpointRequests: endpoint.rateLimit?.endpoint?.requests.toString() ?? '',
+        endpointWindow: endpoint.rateLimit?.endpoint?.windowSeconds.toString() ?? '',
+        perKeyRequests: endpoint.rateLimit?.perKey?.requests.toString() ?? '',
+        perKeyWindow: endpoint.rateLimit?.perKey?.windowSeconds.toString() ?? ''
+      },
       description: endpoint.description || '',
       enabled: endpoint.enabled
     });
@@ -91,7 +203,14 @@ export default function ApiEndpointsPage() {
     setFormData({
       name: '',
       path: '',
+      source: 'dungeon',
       dungeonId: '',
+      dungeonIds: [],
+      filter: EMPTY_FILTER,
+      seed: '',
+      visibility: 'public',
+      allowedKeyIds: [],
+      rateLimit: EMPTY_RATE_LIMIT,
       description: '',
       enabled: true
     });
@@ -101,11 +220,22 @@ export default function ApiEndpointsPage() {
     try {
       setError(null);
 
+      const { source } = formData;
+      const filter = buildFilter();
+      const rateLimit = buildRateLimit();
       const endpoint: ApiEndpointConfig = {
         id: editingEndpoint?.id || generateId(),
         name: formData.name,
         path: formData.path,
-        dungeonId: formData.dungeonId,
+        source,
+        ...(source === 'dungeon' && { dungeonId: formData.dungeonId }),
+        ...((source === 'collection' || (source === 'daily' && formData.dungeonIds.length > 0)) && { dungeonIds: formData.dungeonIds }),
+        // An empty filter on a filter endpoint serves every dungeon
+        ...((source === 'filter' || (source === 'daily' && Object.keys(filter).length > 0)) && { filter }),
+        ...(source === 'daily' && formData.seed.trim() && { seed: formData.seed.trim() }),
+        visibility: formData.visibility,
+        ...(formData.visibility === 'keys' && { allowedKeyIds: formData.allowedKeyIds }),
+        ...(Object.keys(rateLimit).length > 0 && { rateLimit }),
         description: formData.description,
         enabled: formData.enabled
       };
@@ -113,14 +243,14 @@ export default function ApiEndpointsPage() {
       let response;
       if (editingEndpoint) {
         // Update existing endpoint
-        response = await fetch(`/api/endpoints?id=${editingEndpoint.id}`, {
+        response = await ApiClient.fetch(`/api/endpoints?id=${editingEndpoint.id}`, {
           method: 'PUT',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify(endpoint)
         });
       } else {
         // Create new endpoint
-        response = await fetch('/api/endpoints', {
+        response = await ApiClient.fetch('/api/endpoints', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify(endpoint)
@@ -140,6 +270,52 @@ export default function ApiEndpointsPage() {
     }
   };
 
+  // Converts the filter form fields, leaving out empty ones
+  const buildFilter = (): DungeonFilter => {
+    const { difficulties, minLevel, maxLevel, text, monster } = formData.filter;
+    return {
+      ...(difficulties.length > 0 && { difficulties }),
+      ...(minLevel !== '' && { minLevel: parseInt(minLevel) }),
+      ...(maxLevel !== '' && { maxLevel: parseInt(maxLevel) }),
+      ...(text.trim() && { text: text.trim() }),
+      ...(monster.trim() && { monster: monster.trim() })
+    };
+  };
+
+  // Converts the rate limit form fields, leaving out buckets that aren't filled in
+  const buildRateLimit = (): EndpointRateLimit => {
+    const { endpointRequests, endpointWindow, perKeyRequests, perKeyWindow } = formData.rateLimit;
+    return {
+      ...(endpointRequests !== '' && endpointWindow !== '' && {
+        endpoint: { requests: parseInt(endpointRequests), windowSeconds: parseInt(endpointWindow) }
+      }),
+      ...(perKeyRequests !== '' && perKeyWindow !== '' && {
+        perKey: { requests: parseInt(perKeyRequests), windowSeconds: parseInt(perKeyWindow) }
+      })
+    };
+  };
+
+  const toggleListedDungeon = (dungeonId: string) => {
+    const dungeonIds = formData.dungeonIds.includes(dungeonId)
+      ? formData.dungeonIds.filter(id => id !== dungeonId)
+      : [...formData.dungeonIds, dungeonId];
+    setFormData({ ...formData, dungeonIds });
+  };
+
+  const toggleFilterDifficulty = (difficulty: DifficultyLevel) => {
+    const difficulties = formData.filter.difficulties.includes(difficulty)
+      ? formData.filter.difficulties.filter(d => d !== difficulty)
+      : [...formData.filter.difficulties, difficulty];
+    setFormData({ ...formData, filter: { ...formData.filter, difficulties } });
+  };
+
+  const toggleAllowedKey = (keyId: string) => {
+    const allowedKeyIds = formData.allowedKeyIds.includes(keyId)
+      ? formData.allowedKeyIds.filter(id => id !== keyId)
+      : [...formData.allowedKeyIds, keyId];
+    setFormData({ ...formData, allowedKeyIds });
+  };
+
   const handleDelete = async (id: string) => {
     if (!confirm('Are you sure you want to delete this endpoint configuration?')) {
       return;
@@ -147,7 +323,7 @@ export default function ApiEndpointsPage() {
 
     try {
       setError(null);
-      const response = await fetch(`/api/endpoints?id=${id}`, {
+      const response = await ApiClient.fetch(`/api/endpoints?id=${id}`, {
         method: 'DELETE'
       });
 
@@ -167,7 +343,7 @@ export default function ApiEndpointsPage() {
     try {
       setTestResults({ ...testResults, [endpoint.id]: { loading: true } });
       
-      const response = await fetch(endpoint.path);
+      const response = await ApiClient.fetch(endpoint.path);
       const data = await response.json();
       
       setTestResults({
@@ -176,7 +352,8 @@ export default function ApiEndpointsPage() {
           loading: false,
           success: response.ok,
           data: data,
-          status: response.status
+          status: response.status,
+          error: data.error
         }
       });
     } catch (err) {
@@ -191,11 +368,139 @@ export default function ApiEndpointsPage() {
     }
   };
 
-  const getDungeonName = (dungeonId: string) => {
+  // Saves the key this browser sends, then reloads with it
+  const handleSaveKey = async (key: string) => {
+    ApiClient.setKey(key);
+    setSavedKey(ApiClient.getKey());
+    await loadData();
+  };
+
+  const toggleNewKeyScope = (scope: ApiKeyScope) => {
+    const scopes = newKey.scopes.includes(scope)
+      ? newKey.scopes.filter(s => s !== scope)
+      : [...newKey.scopes, scope];
+    setNewKey({ ...newKey, scopes });
+  };
+
+  const handleCreateKey = async () => {
+    try {
+      setKeysError(null);
+      const response = await ApiClient.fetch('/api/keys', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(newKey)
+      });
+      const data = await response.json();
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to create API key');
+      }
+      setCreatedSecret(data.data.secret);
+      setNewKey({ name: '', scopes: ['dungeons:read'] });
+      await loadKeys();
+    } catch (err) {
+      setKeysError(err instanceof Error ? err.message : 'Failed to create API key');
+    }
+  };
+
+  const handleToggleKey = async (key: ApiKeyInfo) => {
+    try {
+      setKeysError(null);
+      const response = await ApiClient.fetch(`/api/keys?id=${key.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ enabled: !key.enabled })
+      });
+      const data = await response.json();
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to update API key');
+      }
+      await loadKeys();
+    } catch (err) {
+      setKeysError(err instanceof Error ? err.message : 'Failed to update API key');
+    }
+  };
+
+  const handleDeleteKey = async (key: ApiKeyInfo) => {
+    if (!confirm(`Delete the API key "${key.name}"? Clients using it will be rejected.`)) {
+      return;
+    }
+
+    try {
+      setKeysError(null);
+      const response = await ApiClient.fetch(`/api/keys?id=${key.id}`, {
+        method: 'DELETE'
+      });
+      const data = await response.json();
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to delete API key');
+      }
+      await loadKeys();
+    } catch (err) {
+      setKeysError(err instanceof Error ? err.message : 'Failed to delete API key');
+    }
+  };
+
+  const describeVisibility = (endpoint: ApiEndpointConfig) => {
+    switch (endpoint.visibility || 'public') {
+      case 'public':
+        return 'Public';
+      case 'key':
+        return 'Any API key';
+      case 'keys':
+        return `Only ${endpoint.allowedKeyIds?.map(id => apiKeys.find(k => k.id === id)?.name || id).join(', ')}`;
+    }
+  };
+
+  const describeRateLimit = (endpoint: ApiEndpointConfig) => {
+    const describeRule = (rule: RateLimitRule) => `${rule.requests} per ${rule.windowSeconds}s`;
+    const parts = [
+      endpoint.rateLimit?.endpoint && `${describeRule(endpoint.rateLimit.endpoint)} in total`,
+      endpoint.rateLimit?.perKey && `${describeRule(endpoint.rateLimit.perKey)} per key`
+    ].filter(Boolean);
+    return parts.length > 0 ? parts.join(', ') : 'None';
+  };
+
+  const getEndpointName = (endpointId: string) => {
+    return endpoints.find(e => e.id === endpointId)?.name || `${endpointId} (deleted)`;
+  };
+
+  const getKeyName = (keyId: string) => {
+    return apiKeys.find(k => k.id === keyId)?.name || keyId;
+  };
+
+  const getDungeonName = (dungeonId?: string) => {
     const dungeon = dungeons.find(d => d.id === dungeonId);
     return dungeon ? dungeon.name : 'Unknown Dungeon';
   };
 
+  const describeFilter = (filter?: DungeonFilter) => {
+    const parts = [
+      filter?.difficulties?.join('/'),
+      filter?.minLevel !== undefined || filter?.maxLevel !== undefined
+        ? `level ${filter?.minLevel ?? 0}-${filter?.maxLevel ?? 'any'}`
+        : undefined,
+      filter?.text && `name contains "${filter.text}"`,
+      filter?.monster && `with monster "${filter.monster}"`,
+      filter?.roomTypes && `with ${filter.roomTypes.join(', ')} rooms`
+    ].filter(Boolean);
+    return parts.length > 0 ? parts.join(', ') : 'all dungeons';
+  };
+
+  // Describes what an endpoint serves, for its card
+  const describeSource = (endpoint: ApiEndpointConfig) => {
+    const listed = endpoint.dungeonIds?.map(id => getDungeonName(id)).join(', ');
+    switch (endpoint.source || 'dungeon') {
+      case 'dungeon':
+        return getDungeonName(endpoint.dungeonId);
+      case 'collection':
+        return `Collection: ${listed}`;
+      case 'filter':
+        return `Filter: ${describeFilter(endpoint.filter)}`;
+      case 'daily':
+        return `Dungeon of the day from ${listed || 'all dungeons'}${endpoint.filter ? `, matching ${describeFilter(endpoint.filter)}` : ''}`;
+    }
+  };
+
   if (loading) {
     return (
       <div className="container">
@@ -255,20 +560,179 @@ export default function ApiEndpointsPage() {
             </div>
 
             <div className="form-group">
-              <label>Select Dungeon *</label>
+              <label>Serves *</label>
               <select
-                value={formData.dungeonId}
-                onChange={(e) => setFormData({ ...formData, dungeonId: e.target.value })}
+                value={formData.source}
+                onChange={(e) => setFormData({ ...formData, source: e.target.value as EndpointSource })}
               >
-                <option value="">Select a dungeon...</option>
+                <option value="dungeon">One dungeon</option>
+                <option value="collection">A list of dungeons</option>
+                <option value="filter">Every dungeon matching a filter</option>
+                <option value="daily">A dungeon of the day</option>
+              </select>
+              {formData.source === 'daily' && (
+                <small>Picks one dungeon per day (UTC) from the dungeons chosen below, the filter, or all dungeons</small>
+              )}
+            </div>
+
+            {formData.source === 'dungeon' && (
+              <div className="form-group">
+                <label>Select Dungeon *</label>
+                <select
+                  value={formData.dungeonId}
+                  onChange={(e) => setFormData({ ...formData, dungeonId: e.target.value })}
+                >
+                  <option value="">Select a dungeon...</option>
+                  {dungeons.map(dungeon => (
+                    <option key={dungeon.id} value={dungeon.id}>
+                      {dungeon.name} (Level {dungeon.level} - {dungeon.difficulty})
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {(formData.source === 'collection' || formData.source === 'daily') && (
+              <div className="form-group checkbox-group">
+                <label>{formData.source === 'collection' ? 'Dungeons *' : 'Rotate Through'}</label>
                 {dungeons.map(dungeon => (
-                  <option key={dungeon.id} value={dungeon.id}>
-                    {dungeon.name} (Level {dungeon.level} - {dungeon.difficulty})
-                  </option>
+                  <label key={dungeon.id}>
+                    <input
+                      type="checkbox"
+                      checked={formData.dungeonIds.includes(dungeon.id)}
+                      onChange={() => toggleListedDungeon(dungeon.id)}
+                    />
+                    <span>{dungeon.name} (Level {dungeon.level} - {dungeon.difficulty})</span>
+                  </label>
                 ))}
+                {formData.source === 'collection' && <small>Served in the order they were checked</small>}
+              </div>
+            )}
+
+            {(formData.source === 'filter' || formData.source === 'daily') && (
+              <div className="form-group">
+                <label>Filter</label>
+                <div className="filter-grid">
+                  <div className="checkbox-group">
+                    {DIFFICULTIES.map(difficulty => (
+                      <label key={difficulty}>
+                        <input
+                          type="checkbox"
+                          checked={formData.filter.difficulties.includes(difficulty)}
+                          onChange={() => toggleFilterDifficulty(difficulty)}
+                        />
+                        <span>{difficulty}</span>
+                      </label>
+                    ))}
+                  </div>
+                  <input
+                    type="number"
+                    min={0}
+                    value={formData.filter.minLevel}
+                    onChange={(e) => setFormData({ ...formData, filter: { ...formData.filter, minLevel: e.target.value } })}
+                    placeholder="Min level"
+                  />
+                  <input
+                    type="number"
+                    min={0}
+                    value={formData.filter.maxLevel}
+                    onChange={(e) => setFormData({ ...formData, filter: { ...formData.filter, maxLevel: e.target.value } })}
+                    placeholder="Max level"
+                  />
+                  <input
+                    type="text"
+                    value={formData.filter.text}
+                    onChange={(e) => setFormData({ ...formData, filter: { ...formData.filter, text: e.target.value } })}
+                    placeholder="Name contains"
+                  />
+                  <input
+                    type="text"
+                    value={formData.filter.monster}
+                    onChange={(e) => setFormData({ ...formData, filter: { ...formData.filter, monster: e.target.value } })}
+                    placeholder="Has monster named"
+                  />
+                </div>
+                <small>Leave everything empty to {formData.source === 'filter' ? 'serve' : 'rotate through'} all dungeons</small>
+              </div>
+            )}
+
+            {formData.source === 'daily' && (
+              <div className="form-group">
+                <label>Seed</label>
+                <input
+                  type="text"
+                  value={formData.seed}
+                  onChange={(e) => setFormData({ ...formData, seed: e.target.value })}
+                  placeholder="Defaults to the endpoint ID"
+                />
+                <small>Endpoints with the same seed and dungeons pick the same dungeon each day</small>
+              </div>
+            )}
+
+            <div className="form-group">
+              <label>Access</label>
+              <select
+                value={formData.visibility}
+                onChange={(e) => setFormData({ ...formData, visibility: e.target.value as EndpointVisibility })}
+              >
+                <option value="public">Public</option>
+                <option value="key">Any valid API key</option>
+                <option value="keys">Only selected API keys</option>
               </select>
             </div>
 
+            {formData.visibility === 'keys' && (
+              <div className="form-group checkbox-group">
+                <label>Allowed Keys *</label>
+                {apiKeys.map(key => (
+                  <label key={key.id}>
+                    <input
+                      type="checkbox"
+                      checked={formData.allowedKeyIds.includes(key.id)}
+                      onChange={() => toggleAllowedKey(key.id)}
+                    />
+                    <span>{key.name} ({key.prefix}…)</span>
+                  </label>
+                ))}
+                {apiKeys.length === 0 && <small>No API keys to choose from; create one below</small>}
+              </div>
+            )}
+
+            <div className="form-group">
+              <label>Rate Limits</label>
+              <div className="filter-grid">
+                <input
+                  type="number"
+                  min={1}
+                  value={formData.rateLimit.endpointRequests}
+                  onChange={(e) => setFormData({ ...formData, rateLimit: { ...formData.rateLimit, endpointRequests: e.target.value } })}
+                  placeholder="Requests in total"
+                />
+                <input
+                  type="number"
+                  min={1}
+                  value={formData.rateLimit.endpointWindow}
+                  onChange={(e) => setFormData({ ...formData, rateLimit: { ...formData.rateLimit, endpointWindow: e.target.value } })}
+                  placeholder="Per seconds"
+                />
+                <input
+                  type="number"
+                  min={1}
+                  value={formData.rateLimit.perKeyRequests}
+                  onChange={(e) => setFormData({ ...formData, rateLimit: { ...formData.rateLimit, perKeyRequests: e.target.value } })}
+                  placeholder="Requests per key"
+                />
+                <input
+                  type="number"
+                  min={1}
+                  value={formData.rateLimit.perKeyWindow}
+                  onChange={(e) => setFormData({ ...formData, rateLimit: { ...formData.rateLimit, perKeyWindow: e.target.value } })}
+                  placeholder="Per seconds"
+                />
+              </div>
+              <small>Bursts up to the request count are allowed, then requests refill evenly over the window. Callers without a key are limited per IP address. Leave empty for no limit</small>
+            </div>
+
             <div className="form-group">
               <label>Description</label>
               <textarea
@@ -323,8 +787,16 @@ export default function ApiEndpointsPage() {
                       <code>{endpoint.path}</code>
                     </div>
                     <div className="info-row">
-                      <strong>Dungeon:</strong>
-                      <span>{getDungeonName(endpoint.dungeonId)}</span>
+                      <strong>Serves:</strong>
+                      <span>{describeSource(endpoint)}</span>
+                    </div>
+                    <div className="info-row">
+                      <strong>Access:</strong>
+                      <span>{describeVisibility(endpoint)}</span>
+                    </div>
+                    <div className="info-row">
+                      <strong>Rate Limits:</strong>
+                      <span>{describeRateLimit(endpoint)}</span>
                     </div>
                     {endpoint.description && (
                       <div className="info-row">
@@ -370,6 +842,186 @@ export default function ApiEndpointsPage() {
             </div>
           )}
         </div>
+
+        <div className="usage-section">
+          <div className="usage-header">
+            <h2>Usage</h2>
+            <div className="usage-controls">
+              <select
+                value={usageWindow}
+                onChange={(e) => handleUsageWindowChange(e.target.value as UsageWindow)}
+              >
+                {USAGE_WINDOWS.map(w => (
+                  <option key={w.value} value={w.value}>{w.label}</option>
+                ))}
+              </select>
+              <button onClick={() => loadUsage(usageWindow)} className="btn-secondary">
+                Refresh
+              </button>
+            </div>
+          </div>
+
+          {usageError && (
+            <div className="error-banner">
+              {usageError}
+            </div>
+          )}
+
+          {usage.length === 0 ? (
+            <p className="empty-state">No requests to custom endpoints in this period.</p>
+          ) : (
+            <table className="usage-table">
+              <thead>
+                <tr>
+                  <th>Endpoint</th>
+                  <th>Requests</th>
+                  <th>Errors</th>
+                  <th>Error Rate</th>
+                  <th>p50</th>
+                  <th>p95</th>
+                  <th>p99</th>
+                  <th>Last Request</th>
+                </tr>
+              </thead>
+              <tbody>
+                {[...usage].sort((a, b) => b.requests - a.requests).map(stats => (
+                  <tr key={stats.endpointId}>
+                    <td>
+                      <details>
+                        <summary>{getEndpointName(stats.endpointId)}</summary>
+                        <div className="usage-details">
+                          <p><strong>Statuses:</strong> {Object.entries(stats.statuses).map(([status, count]) => `${status}: ${count}`).join(', ')}</p>
+                          <p><strong>Top resources:</strong> {stats.resources.map(r => `${r.resource} (${r.requests})`).join(', ')}</p>
+                          {stats.keys.length > 0 && (
+                            <p><strong>Top keys:</strong> {stats.keys.map(k => `${getKeyName(k.keyId)} (${k.requests})`).join(', ')}</p>
+                          )}
+                        </div>
+                      </details>
+                    </td>
+                    <td>{stats.requests}</td>
+                    <td>{stats.errors}</td>
+                    <td className={stats.errorRate > 0.05 ? 'usage-bad' : ''}>{(stats.errorRate * 100).toFixed(1)}%</td>
+                    <td>{stats.latencyMs.p50} ms</td>
+                    <td>{stats.latencyMs.p95} ms</td>
+                    <td>{stats.latencyMs.p99} ms</td>
+                    <td>{stats.lastHitAt ? new Date(stats.lastHitAt).toLocaleString() : '-'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="keys-section">
+          <h2>API Keys</h2>
+          <p className="empty-state">
+            Every API request needs a key. Create the first one with DUNGEON_ADMIN_KEY saved below; it must have the keys:manage scope.
+          </p>
+
+          <div className="form-container">
+            <div className="form-group">
+              <label>Key Used by This Browser</label>
+              <input
+                type="password"
+                value={savedKey}
+                onChange={(e) => setSavedKey(e.target.value)}
+                placeholder="dk_..."
+              />
+              <small>Saved in this browser and sent with every request from the app</small>
+            </div>
+            <div className="form-actions">
+              <button onClick={() => handleSaveKey(savedKey)} className="btn-primary">
+                Save Key
+              </button>
+              <button onClick={() => handleSaveKey('')} className="btn-secondary">
+                Forget Key
+              </button>
+            </div>
+          </div>
+
+          {keysError && (
+            <div className="error-banner">
+              {keysError}
+            </div>
+          )}
+
+          {createdSecret && (
+            <div className="secret-banner">
+              <p><strong>Copy this key now; it won&apos;t be shown again:</strong></p>
+              <code>{createdSecret}</code>
+              <div className="form-actions">
+                <button onClick={() => handleSaveKey(createdSecret)} className="btn-primary">
+                  Use in This Browser
+                </button>
+                <button onClick={() => setCreatedSecret(null)} className="btn-secondary">
+                  Done
+                </button>
+              </div>
+            </div>
+          )}
+
+          <div className="form-container">
+            <h3>Create Key</h3>
+            <div className="form-group">
+              <label>Name *</label>
+              <input
+                type="text"
+                value={newKey.name}
+                onChange={(e) => setNewKey({ ...newKey, name: e.target.value })}
+                placeholder="Game client"
+              />
+            </div>
+            <div className="form-group checkbox-group">
+              <label>Scopes *</label>
+              {KEY_SCOPES.map(scope => (
+                <label key={scope}>
+                  <input
+                    type="checkbox"
+                    checked={newKey.scopes.includes(scope)}
+                    onChange={() => toggleNewKeyScope(scope)}
+                  />
+                  <span>{scope}</span>
+                </label>
+              ))}
+            </div>
+            <button onClick={handleCreateKey} className="btn-primary">
+              Create Key
+            </button>
+          </div>
+
+          {apiKeys.length > 0 && (
+            <div className="cards">
+              {apiKeys.map(key => (
+                <div key={key.id} className="endpoint-card">
+                  <div className="card-header">
+                    <h3>{key.name}</h3>
+                    <span className={`status ${key.enabled ? 'enabled' : 'disabled'}`}>
+                      {key.enabled ? 'Enabled' : 'Disabled'}
+                    </span>
+                  </div>
+                  <div className="card-body">
+                    <div className="info-row">
+                      <strong>Key:</strong>
+                      <code>{key.prefix}…</code>
+                    </div>
+                    <div className="info-row">
+                      <strong>Scopes:</strong>
+                      <span>{key.scopes.join(', ')}</span>
+                    </div>
+                  </div>
+                  <div className="card-actions">
+                    <button onClick={() => handleToggleKey(key)} className="btn-edit">
+                      {key.enabled ? 'Disable' : 'Enable'}
+                    </button>
+                    <button onClick={() => handleDeleteKey(key)} className="btn-delete">
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
       </main>
 
       <style jsx>{`
@@ -493,6 +1145,7 @@ export default function ApiEndpointsPage() {
         }
 
         .form-group input[type="text"],
+        .form-group input[type="password"],
         .form-group select,
         .form-group textarea {
           width: 100%;
@@ -521,6 +1174,32 @@ export default function ApiEndpointsPage() {
           width: auto;
         }
 
+        .checkbox-group label span {
+          font-weight: normal;
+        }
+
+        .filter-grid {
+          display: grid;
+          grid-template-columns: repeat(auto-fill, minmax(180px, 1fr));
+          gap: 0.75rem;
+        }
+
+        .filter-grid input {
+          width: 100%;
+          padding: 0.75rem;
+          border: 1px solid #4a5568;
+          border-radius: 8px;
+          background: rgba(255, 255, 255, 0.05);
+          color: white;
+          font-size: 1rem;
+        }
+
+        .filter-grid .checkbox-group {
+          grid-column: 1 / -1;
+          display: flex;
+          gap: 1rem;
+        }
+
         .form-actions {
           display: flex;
           gap: 1rem;
@@ -534,6 +1213,90 @@ export default function ApiEndpointsPage() {
           margin-bottom: 1rem;
         }
 
+        .usage-section {
+          margin-top: 3rem;
+        }
+
+        .usage-header {
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+          margin-bottom: 1rem;
+        }
+
+        .usage-controls {
+          display: flex;
+          gap: 0.5rem;
+        }
+
+        .usage-controls select {
+          padding: 0.75rem;
+          border: 1px solid #4a5568;
+          border-radius: 8px;
+          background: #2d3748;
+          color: white;
+          font-size: 1rem;
+        }
+
+        .usage-table {
+          width: 100%;
+          border-collapse: collapse;
+          background: rgba(255, 255, 255, 0.1);
+          border-radius: 12px;
+          overflow: hidden;
+        }
+
+        .usage-table th,
+        .usage-table td {
+          padding: 0.75rem;
+          text-align: left;
+          border-bottom: 1px solid #4a5568;
+          vertical-align: top;
+        }
+
+        .usage-table summary {
+          cursor: pointer;
+          font-weight: bold;
+        }
+
+        .usage-details {
+          margin-top: 0.5rem;
+          font-size: 0.875rem;
+          color: #cccccc;
+        }
+
+        .usage-details p {
+          margin: 0.25rem 0;
+        }
+
+        .usage-bad {
+          color: #dc3545;
+          font-weight: bold;
+        }
+
+        .keys-section {
+          margin-top: 3rem;
+        }
+
+        .keys-section h2 {
+          margin-bottom: 1rem;
+        }
+
+        .secret-banner {
+          background: rgba(40, 167, 69, 0.2);
+          border: 1px solid #28a745;
+          padding: 1rem;
+          border-radius: 8px;
+          margin-bottom: 1rem;
+        }
+
+        .secret-banner code {
+          display: block;
+          margin: 0.5rem 0 1rem;
+          font-family: monospace;
+          word-break: break-all;
+        }
+
         .empty-state {
           text-align: center;
           color: #cccccc;
@@ -1,48 +1,169 @@
 import { NextResponse } from 'next/server';
-import { readFile } from 'fs/promises';
-import { join } from 'path';
-import { Dungeon, ApiEndpointConfig, ApiResponse } from '@/lib/api';
+import { Dungeon, DungeonHelpers, ApiResponse, ApiEndpointConfig } from '@/lib/api';
+import { getDungeonRepository, getEndpointRepository } from '@/lib/storage';
+import { DungeonProjection, DungeonSelection, SelectionNotFoundError } from '@/lib/projection';
+import { DungeonQuery } from '@/lib/query';
+import { EndpointSources } from '@/lib/endpoints';
+import { ApiAuth } from '@/lib/auth';
+import { RateLimiter } from '@/lib/ratelimit';
+import { EndpointUsage } from '@/lib/usage';
+import { ConditionalRequest } from '@/lib/conditional';
 
-// Path to data files
-const DUNGEON_DATA_PATH = join(process.cwd(), 'public', 'data', 'dungeon-data.json');
-const CONFIG_FILE_PATH = join(process.cwd(), 'public', 'data', 'endpoint-config.json');
+// Helper to serve the dungeon list of a collection or filter endpoint
+// Takes the GET /api/dungeon list params (filters, sort, limit, cursor, view=summary) plus format and fields
+function serveList(request: Request, pool: Dungeon[], searchParams: URLSearchParams, clientFormat: boolean): NextResponse {
+  const view = searchParams.get('view');
+  if ((view && view !== 'summary') || searchParams.has('floor') || searchParams.has('room')) {
+    return NextResponse.json<ApiResponse<null>>({ 
+      success: false,
+      error: 'This endpoint serves several dungeons; add a dungeon ID to the path to select floors, rooms or monsters'
+    }, { status: 400 });
+  }
+  if (view && clientFormat) {
+    return NextResponse.json<ApiResponse<null>>({ 
+      success: false,
+      error: 'view=summary cannot be combined with format'
+    }, { status: 400 });
+  }
 
-// Helper to load dungeons
-async function loadDungeons(): Promise<Dungeon[]> {
   try {
-    const fileContents = await readFile(DUNGEON_DATA_PATH, 'utf-8');
-    const data = JSON.parse(fileContents);
-    return data.dungeons || [];
+    const { items, page } = DungeonQuery.run(pool, DungeonQuery.parse(searchParams));
+    const fields = DungeonProjection.parseFields(searchParams);
+    const data = view === 'summary'
+      ? items.map(d => DungeonHelpers.toSummary(d))
+      : clientFormat ? DungeonHelpers.convertToApiFormat(items).dungeons : items;
+    return ConditionalRequest.json<unknown>(request, { 
+      success: true,
+      data: fields ? DungeonProjection.pickFields(data, fields) : data,
+      page
+    });
   } catch (error) {
-    console.error('Error loading dungeons:', error);
-    return [];
+    return NextResponse.json<ApiResponse<null>>({ 
+      success: false,
+      error: error instanceof Error ? error.message : 'Invalid list query'
+    }, { status: 400 });
   }
 }
 
-// Helper to load endpoint configurations
-async function loadEndpoints(): Promise<ApiEndpointConfig[]> {
+// Helper to serve the dungeon, list or part of a dungeon a request to an endpoint asks for
+// Successful responses carry an ETag, and 304 is returned when the client's copy is current
+async function serveEndpoint(
+  request: Request,
+  endpointConfig: ApiEndpointConfig,
+  fullPath: string,
+  searchParams: URLSearchParams
+): Promise<NextResponse> {
+  const format = searchParams.get('format');
+  const source = endpointConfig.source ?? 'dungeon';
+  let subPath = fullPath.slice(endpointConfig.path.length).split('/').filter(Boolean);
+  
+  // Find the dungeon associated with this endpoint
+  let dungeon: Dungeon | undefined;
+  if (source === 'dungeon') {
+    dungeon = endpointConfig.dungeonId ? await getDungeonRepository().get(endpointConfig.dungeonId) : undefined;
+  } else {
+    const pool = EndpointSources.resolvePool(endpointConfig, await getDungeonRepository().list());
+    if (source === 'daily') {
+      const date = searchParams.get('date') ?? EndpointSources.today();
+      if (!EndpointSources.isValidDate(date)) {
+        return NextResponse.json<ApiResponse<null>>({ 
+          success: false,
+          error: 'date must be a date as YYYY-MM-DD'
+        }, { status: 400 });
+      }
+      dungeon = EndpointSources.pickDaily(endpointConfig, pool, date);
+    } else if (subPath.length === 0) {
+      return serveList(request, pool, searchParams, format === 'client');
+    } else {
+      // The first segment below a collection picks one of its dungeons
+      dungeon = pool.find(d => d.id === subPath[0]);
+      if (!dungeon) {
+        return NextResponse.json<ApiResponse<null>>({ 
+          success: false,
+          error: `Dungeon ${subPath[0]} is not served by this endpoint`
+        }, { status: 404 });
+      }
+      subPath = subPath.slice(1);
+    }
+  }
+  
+  if (!dungeon) {
+    return NextResponse.json<ApiResponse<null>>({ 
+      success: false,
+      error: 'Dungeon not found for this endpoint'
+    }, { status: 404 });
+  }
+  
+  let selection: DungeonSelection;
   try {
-    const fileContents = await readFile(CONFIG_FILE_PATH, 'utf-8');
-    const data = JSON.parse(fileContents);
-    return data.endpoints || [];
+    selection = DungeonProjection.parse(searchParams, subPath);
   } catch (error) {
-    console.error('Error loading endpoints:', error);
-    return [];
+    return NextResponse.json<ApiResponse<null>>({ 
+      success: false,
+      error: error instanceof Error ? error.message : 'Invalid selection'
+    }, { status: error instanceof SelectionNotFoundError ? 404 : 400 });
+  }
+  
+  // Return the selected part of the dungeon data
+  try {
+    // The daily pick changes to another dungeon without a newer updatedAt, so it only gets an ETag
+    return ConditionalRequest.json<unknown>(request, { 
+      success: true,
+      data: DungeonProjection.select(dungeon, selection, format === 'client')
+    }, source === 'daily' ? undefined : dungeon.updatedAt);
+  } catch (error) {
+    if (error instanceof SelectionNotFoundError) {
+      return NextResponse.json<ApiResponse<null>>({ 
+        success: false,
+        error: error.message
+      }, { status: 404 });
+    }
+    throw error;
   }
 }
 
-/**
- * GET /api/custom/[...path]
- * Serves dungeon data based on configured custom endpoints
- */
-export async function GET(
+// Helper to find the enabled endpoint configuration for a path; the longest matching path wins,
+// and whatever follows it is a sub-resource of that endpoint's dungeon
+// Looks each parent path up in the cached path index, so no endpoint list is read or scanned
+async function findEndpoint(fullPath: string): Promise<ApiEndpointConfig | undefined> {
+  const repository = getEndpointRepository();
+  const segments = fullPath.split('/');
+  // Endpoint paths have at least one segment after /api/custom
+  for (let length = segments.length; length > 3; length--) {
+    const match = (await repository.findBy('path', segments.slice(0, length).join('/'))).find(e => e.enabled);
+    if (match) {
+      return match;
+    }
+  }
+  return undefined;
+}
+
+// Usage details of a request, filled in once it has matched an endpoint
+interface HitContext {
+  endpoint?: ApiEndpointConfig;
+  resource?: string;
+  keyId?: string;
+}
+
+// Helper to answer a request; `hit` says which endpoint it matched, for usage analytics
+async function handleRequest(
   request: Request,
-  { params }: { params: Promise<{ path?: string[] }> }
-) {
+  params: Promise<{ path?: string[] }>,
+  hit: HitContext
+): Promise<NextResponse> {
   try {
     // Await params as required by Next.js 15+
     const resolvedParams = await params;
     const pathSegments = resolvedParams.path || [];
+    const { searchParams } = new URL(request.url);
+    const format = searchParams.get('format');
+    
+    if (format && format !== 'client') {
+      return NextResponse.json<ApiResponse<null>>({ 
+        success: false,
+        error: `Unsupported format: ${format}`
+      }, { status: 400 });
+    }
     
     // Handle empty path segments
     if (pathSegments.length === 0) {
@@ -54,11 +175,7 @@ export async function GET(
     
     const fullPath = `/api/custom/${pathSegments.join('/')}`;
     
-    // Load endpoint configurations
-    const endpoints = await loadEndpoints();
-    
-    // Find matching endpoint configuration
-    const endpointConfig = endpoints.find(e => e.path === fullPath && e.enabled);
+    const endpointConfig = await findEndpoint(fullPath);
     
     if (!endpointConfig) {
       return NextResponse.json<ApiResponse<null>>({ 
@@ -67,24 +184,33 @@ export async function GET(
       }, { status: 404 });
     }
     
-    // Load dungeons
-    const dungeons = await loadDungeons();
+    hit.endpoint = endpointConfig;
+    hit.resource = fullPath.slice(endpointConfig.path.length) || '/';
     
-    // Find the dungeon associated with this endpoint
-    const dungeon = dungeons.find(d => d.id === endpointConfig.dungeonId);
+    // Endpoints that aren't public need an API key (any key, or one of the allowed keys)
+    // The key it finds is also the one rate limits and usage count the request against
+    const { denied, key } = await ApiAuth.checkEndpointAccess(request, endpointConfig);
+    hit.keyId = key?.id;
+    if (denied) {
+      return denied;
+    }
     
-    if (!dungeon) {
+    // Limited endpoints refuse extra requests before any dungeon data is read
+    const rateLimit = RateLimiter.take(request, endpointConfig, key);
+    if (rateLimit && !rateLimit.allowed) {
       return NextResponse.json<ApiResponse<null>>({ 
         success: false,
-        error: 'Dungeon not found for this endpoint'
-      }, { status: 404 });
+        error: `Rate limit exceeded; try again in ${rateLimit.retryAfterSeconds} seconds`
+      }, { status: 429, headers: RateLimiter.headers(rateLimit) });
     }
     
-    // Return the dungeon data
-    return NextResponse.json<ApiResponse<Dungeon>>({ 
-      success: true,
-      data: dungeon
-    });
+    const response = await serveEndpoint(request, endpointConfig, fullPath, searchParams);
+    if (rateLimit) {
+      for (const [name, value] of Object.entries(RateLimiter.headers(rateLimit))) {
+        response.headers.set(name, value);
+      }
+    }
+    return response;
   } catch (error) {
     console.error('Error serving custom endpoint:', error);
     return NextResponse.json<ApiResponse<null>>({ 
@@ -93,3 +219,44 @@ export async function GET(
     }, { status: 500 });
   }
 }
+
+/**
+ * GET /api/custom/[...path]
+ * Serves dungeon data based on configured custom endpoints
+ * Every endpoint also answers at these sub-resources (see DungeonProjection.parse):
+ *   /floors, /floors/{n}, /rooms, /rooms/{roomId}, /monsters, /map
+ * Collection and filter endpoints list their dungeons; /{dungeonId} below them serves one
+ * (with the same sub-resources). Daily endpoints serve one dungeon picked for the date,
+ * ?date=YYYY-MM-DD shows another day's pick.
+ * Endpoints with key or keys visibility need an API key (see ApiAuth.checkEndpointAccess).
+ * Endpoints with a rateLimit answer 429 when a bucket is empty, and send RateLimit-* headers.
+ * Every request that matches an endpoint is recorded for usage analytics (see EndpointUsage).
+ * Responses carry an ETag (and Last-Modified for one dungeon); If-None-Match or If-Modified-Since
+ * returns 304 when the client's copy is current.
+ * Query params:
+ *   ?format=client to return the dungeon in the game-client (APIRoomData) format
+ *   ?floor=<floorNumber> for one floor, ?room=<roomId> for one room
+ *   ?view=floors|rooms|monsters|map for a list of the selected floors, rooms or monsters, or their map
+ *   ?fields=rooms.id,rooms.type to keep only these dot paths of the response
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ path?: string[] }> }
+) {
+  const started = performance.now();
+  const hit: HitContext = {};
+  const response = await handleRequest(request, params, hit);
+  const latencyMs = Math.round((performance.now() - started) * 10) / 10;
+  
+  if (hit.endpoint) {
+    EndpointUsage.record({
+      endpointId: hit.endpoint.id,
+      timestamp: new Date().toISOString(),
+      status: response.status,
+      latencyMs,
+      keyId: hit.keyId,
+      resource: hit.resource || '/'
+    });
+  }
+  return response;
+}
@@ -0,0 +1,169 @@
+import { NextResponse } from 'next/server';
+import {
+  Dungeon,
+  Room,
+  DungeonHelpers,
+  ApiResponse
+} from '@/lib/api';
+import { getDungeonRepository } from '@/lib/storage';
+import { DungeonRooms } from '@/lib/rooms';
+import { ApiAuth } from '@/lib/auth';
+
+type RoomParams = { params: Promise<{ id: string; floor: string; roomId: string }> };
+
+// Helper to load a dungeon and find a room on a floor, or build the 404 response
+async function findRoom(
+  id: string,
+  floor: string,
+  roomId: string
+): Promise<{ current: Dungeon; dungeon: Dungeon; room: Room } | NextResponse> {
+  const current = await getDungeonRepository().get(id);
+  if (!current) {
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: 'Dungeon not found'
+    }, { status: 404 });
+  }
+
+  // Work on a copy so the stored dungeon can still be compared when saving
+  const dungeon: Dungeon = structuredClone(current);
+  const rooms = DungeonRooms.getFloorRoomList(dungeon, parseInt(floor));
+  if (!rooms) {
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: `Floor ${floor} not found`
+    }, { status: 404 });
+  }
+
+  const room = rooms.find(r => r.id === roomId);
+  if (!room) {
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: `Room ${roomId} not found on floor ${floor}`
+    }, { status: 404 });
+  }
+  return { current, dungeon, room };
+}
+
+/**
+ * GET /api/dungeon/{id}/floors/{floor}/rooms/{roomId}
+ * Returns one room
+ */
+export async function GET(request: Request, { params }: RoomParams) {
+  try {
+    const denied = await ApiAuth.requireScope(request, 'dungeons:read');
+    if (denied) {
+      return denied;
+    }
+
+    const { id, floor, roomId } = await params;
+    const found = await findRoom(id, floor, roomId);
+    if (found instanceof NextResponse) {
+      return found;
+    }
+
+    return NextResponse.json<ApiResponse<Room>>({
+      success: true,
+      data: found.room
+    });
+  } catch (error) {
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: 'Failed to load room'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/dungeon/{id}/floors/{floor}/rooms/{roomId}
+ * Updates the fields sent in the body; the room ID can't be changed
+ * Connections are replaced as a whole, and the rooms they lead to are updated to match:
+ * new connections get a connection back, removed ones lose theirs
+ */
+export async function PATCH(request: Request, { params }: RoomParams) {
+  try {
+    const denied = await ApiAuth.requireScope(request, 'dungeons:write');
+    if (denied) {
+      return denied;
+    }
+
+    const { id, floor, roomId } = await params;
+    const body = await request.json();
+    const found = await findRoom(id, floor, roomId);
+    if (found instanceof NextResponse) {
+      return found;
+    }
+
+    const { current, dungeon, room } = found;
+    const previousConnections = room.connections;
+    const { id: _id, ...changes } = body;
+    Object.assign(room, changes);
+    if (changes.coordinates) {
+      room.coordinates = { ...changes.coordinates, z: parseInt(floor) };
+    }
+    room.connections = room.connections || [];
+
+    const validation = await DungeonRooms.validateChangedRoom(dungeon, room);
+    if (!validation.valid) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: 'Validation failed',
+        errors: validation.errors,
+        warnings: validation.warnings
+      }, { status: 400 });
+    }
+
+    DungeonHelpers.syncReciprocalConnections(dungeon, room, previousConnections);
+    const conflict = await DungeonRooms.saveDungeon(current, dungeon, request, `Updated room ${roomId}`);
+    if (conflict) {
+      return conflict;
+    }
+
+    return NextResponse.json<ApiResponse<Room>>({
+      success: true,
+      data: room,
+      warnings: validation.warnings
+    });
+  } catch (error) {
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: 'Failed to update room'
+    }, { status: 400 });
+  }
+}
+
+/**
+ * DELETE /api/dungeon/{id}/floors/{floor}/rooms/{roomId}
+ * Removes a room and every connection leading to it from other rooms
+ */
+export async function DELETE(request: Request, { params }: RoomParams) {
+  try {
+    const denied = await ApiAuth.requireScope(request, 'dungeons:write');
+    if (denied) {
+      return denied;
+    }
+
+    const { id, floor, roomId } = await params;
+    const found = await findRoom(id, floor, roomId);
+    if (found instanceof NextResponse) {
+      return found;
+    }
+
+    const { current, dungeon } = found;
+    DungeonHelpers.removeRoom(dungeon, roomId);
+    const conflict = await DungeonRooms.saveDungeon(current, dungeon, request, `Removed room ${roomId} from floor ${floor}`);
+    if (conflict) {
+      return conflict;
+    }
+
+    return NextResponse.json<ApiResponse<{ id: string }>>({
+      success: true,
+      data: { id: roomId }
+    });
+  } catch (error) {
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: 'Failed to delete room'
+    }, { status: 400 });
+  }
+}
@@ -0,0 +1,128 @@
+import { NextResponse } from 'next/server';
+import {
+  Dungeon,
+  Room,
+  DungeonHelpers,
+  ApiResponse
+} from '@/lib/api';
+import { getDungeonRepository } from '@/lib/storage';
+import { DungeonRooms } from '@/lib/rooms';
+import { ApiAuth } from '@/lib/auth';
+
+type RoomsParams = { params: Promise<{ id: string; floor: string }> };
+
+/**
+ * GET /api/dungeon/{id}/floors/{floor}/rooms
+ * Lists the rooms on one floor of a dungeon (legacy single-floor dungeons only have floor 1)
+ */
+export async function GET(request: Request, { params }: RoomsParams) {
+  try {
+    const denied = await ApiAuth.requireScope(request, 'dungeons:read');
+    if (denied) {
+      return denied;
+    }
+
+    const { id, floor } = await params;
+    const dungeon = await getDungeonRepository().get(id);
+    if (!dungeon) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: 'Dungeon not found'
+      }, { status: 404 });
+    }
+
+    const rooms = DungeonRooms.getFloorRoomList(dungeon, parseInt(floor));
+    if (!rooms) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: `Floor ${floor} not found`
+      }, { status: 404 });
+    }
+
+    return NextResponse.json<ApiResponse<Room[]>>({
+      success: true,
+      data: rooms
+    });
+  } catch (error) {
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: 'Failed to load rooms'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/dungeon/{id}/floors/{floor}/rooms
+ * Adds a room to a floor; a new ID is generated when the body has none
+ * Every room the new room connects to gets a connection back (except for pits)
+ */
+export async function POST(request: Request, { params }: RoomsParams) {
+  try {
+    const denied = await ApiAuth.requireScope(request, 'dungeons:write');
+    if (denied) {
+      return denied;
+    }
+
+    const { id, floor } = await params;
+    const floorNumber = parseInt(floor);
+    const body = await request.json();
+
+    const current = await getDungeonRepository().get(id);
+    if (!current) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: 'Dungeon not found'
+      }, { status: 404 });
+    }
+
+    const dungeon: Dungeon = structuredClone(current);
+    const rooms = DungeonRooms.getFloorRoomList(dungeon, floorNumber);
+    if (!rooms) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: `Floor ${floor} not found`
+      }, { status: 404 });
+    }
+
+    const room: Room = {
+      ...body,
+      id: body.id || DungeonHelpers.generateId(),
+      connections: body.connections || [],
+      ...(body.coordinates && { coordinates: { ...body.coordinates, z: floorNumber } })
+    };
+    if (DungeonHelpers.getAllRooms(dungeon).some(r => r.id === room.id)) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: `A room with ID ${room.id} already exists`
+      }, { status: 409 });
+    }
+    rooms.push(room);
+
+    const validation = await DungeonRooms.validateChangedRoom(dungeon, room);
+    if (!validation.valid) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: 'Validation failed',
+        errors: validation.errors,
+        warnings: validation.warnings
+      }, { status: 400 });
+    }
+
+    DungeonHelpers.syncReciprocalConnections(dungeon, room);
+    const conflict = await DungeonRooms.saveDungeon(current, dungeon, request, `Added room ${room.id} on floor ${floorNumber}`);
+    if (conflict) {
+      return conflict;
+    }
+
+    return NextResponse.json<ApiResponse<Room>>({
+      success: true,
+      data: room,
+      warnings: validation.warnings
+    }, { status: 201 });
+  } catch (error) {
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: 'Failed to create room'
+    }, { status: 400 });
+  }
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { DungeonValidator, ApiResponse, ConnectivityReport } from '@/lib/api';
+import { getDungeonRepository } from '@/lib/storage';
+import { ApiAuth } from '@/lib/auth';
+
+/**
+ * GET /api/dungeon/analyze
+ * Returns a connectivity report for a dungeon: unreachable rooms, rooms behind
+ * locked or hidden connections, dead ends and the shortest entrance-to-boss path
+ * Query params: ?id=<dungeonId>
+ */
+export async function GET(request: Request) {
+  try {
+    const denied = await ApiAuth.requireScope(request, 'dungeons:read');
+    if (denied) {
+      return denied;
+    }
+
+    const { searchParams } = new URL(request.url);
+    const dungeonId = searchParams.get('id');
+    
+    if (!dungeonId) {
+      return NextResponse.json<ApiResponse<null>>({ 
+        success: false,
+        error: 'Dungeon ID is required'
+      }, { status: 400 });
+    }
+    
+    const dungeon = await getDungeonRepository().get(dungeonId);
+    
+    if (!dungeon) {
+      return NextResponse.json<ApiResponse<null>>({ 
+        success: false,
+        error: 'Dungeon not found'
+      }, { status: 404 });
+    }
+    
+    return NextResponse.json<ApiResponse<ConnectivityReport>>({ 
+      success: true,
+      data: DungeonValidator.analyzeConnectivity(dungeon)
+    });
+  } catch (error) {
+    return NextResponse.json<ApiResponse<null>>({ 
+      success: false,
+      error: 'Failed to analyze dungeon'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,62 @@
+import { NextResponse } from 'next/server';
+import { Dungeon, ApiResponse } from '@/lib/api';
+import { getDungeonRepository } from '@/lib/storage';
+import { DungeonHistory } from '@/lib/history';
+import { DungeonDiffer, DungeonDiff } from '@/lib/diff';
+import { ApiAuth } from '@/lib/auth';
+
+// Helper to load a dungeon by reference: "<dungeonId>" for the saved dungeon,
+// "<dungeonId>@<version>" for a revision from its history
+async function loadDungeon(reference: string): Promise<Dungeon | undefined> {
+  const match = reference.match(/^(.+)@(\d+)$/);
+  if (match) {
+    const revision = await DungeonHistory.get(match[1], parseInt(match[2]));
+    return revision?.snapshot;
+  }
+  return getDungeonRepository().get(reference);
+}
+
+/**
+ * GET /api/dungeon/diff
+ * Compares two dungeons: added, removed and moved rooms, connection, monster and floor changes
+ * Query params:
+ *   ?a=<dungeonId>&b=<dungeonId> - a is the "before" side, b the "after" side
+ *   Either side can be a revision, e.g. ?a=dungeon-001@3&b=dungeon-001
+ */
+export async function GET(request: Request) {
+  try {
+    const denied = await ApiAuth.requireScope(request, 'dungeons:read');
+    if (denied) {
+      return denied;
+    }
+
+    const { searchParams } = new URL(request.url);
+    const a = searchParams.get('a');
+    const b = searchParams.get('b');
+
+    if (!a || !b) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: 'Both dungeons to compare are required (?a=<dungeonId>&b=<dungeonId>)'
+      }, { status: 400 });
+    }
+
+    const [before, after] = await Promise.all([loadDungeon(a), loadDungeon(b)]);
+    if (!before || !after) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: `Dungeon ${!before ? a : b} not found`
+      }, { status: 404 });
+    }
+
+    return NextResponse.json<ApiResponse<DungeonDiff>>({
+      success: true,
+      data: DungeonDiffer.diff(before, after)
+    });
+  } catch (error) {
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: 'Failed to compare dungeons'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,90 @@
+import { NextResponse } from 'next/server';
+import { Dungeon, DungeonValidator, DifficultyLevel, ApiResponse } from '@/lib/api';
+import { loadValidationRules } from '@/lib/storage';
+import { DungeonGenerator, DungeonGenerationOptions } from '@/lib/generator';
+import { ApiAuth } from '@/lib/auth';
+
+const DIFFICULTIES: DifficultyLevel[] = ['Easy', 'Medium', 'Hard', 'Expert'];
+
+// Helper to read a number sent as a number or numeric string; anything else becomes NaN and fails validation
+function toNumber(value: unknown): number {
+  return typeof value === 'number' || (typeof value === 'string' && value.trim() !== '') ? Number(value) : NaN;
+}
+
+/**
+ * POST /api/dungeon/generate
+ * Generates a dungeon procedurally. The dungeon is returned but not saved;
+ * POST it to /api/dungeon to keep it.
+ * Body: { name, difficulty, level, size: { width, height }, floors?, seed? }
+ * width and height are 1-50 and floors 1-10 (GENERATOR_LIMITS); other values return 400
+ * The same body (including seed) always produces the same dungeon
+ */
+export async function POST(request: Request) {
+  try {
+    const denied = await ApiAuth.requireScope(request, 'dungeons:write');
+    if (denied) {
+      return denied;
+    }
+
+    const body = await request.json();
+    
+    if (!body.name || !DIFFICULTIES.includes(body.difficulty) || body.level === undefined || !body.size) {
+      return NextResponse.json<ApiResponse<null>>({ 
+        success: false,
+        error: 'Missing required fields: name, difficulty, level and size (width, height) are required'
+      }, { status: 400 });
+    }
+    
+    const options: DungeonGenerationOptions = {
+      name: body.name,
+      difficulty: body.difficulty,
+      level: toNumber(body.level),
+      size: { width: toNumber(body.size.width), height: toNumber(body.size.height) },
+      floors: body.floors === undefined ? 1 : toNumber(body.floors),
+      seed: body.seed ?? Date.now()
+    };
+    
+    // Sizes are bounded, so a single request can't ask for millions of rooms
+    const invalid = DungeonGenerator.validateOptions(options);
+    if (invalid) {
+      return NextResponse.json<ApiResponse<null>>({ 
+        success: false,
+        error: invalid
+      }, { status: 400 });
+    }
+    
+    const rules = await loadValidationRules();
+    
+    let dungeon: Dungeon;
+    try {
+      dungeon = DungeonGenerator.generate(options, rules);
+    } catch (error) {
+      return NextResponse.json<ApiResponse<null>>({ 
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to generate dungeon'
+      }, { status: 400 });
+    }
+    
+    // The generator aims to satisfy every rule; report it if it didn't
+    const validation = DungeonValidator.validateDungeon(dungeon, rules);
+    if (!validation.valid) {
+      return NextResponse.json<ApiResponse<null>>({ 
+        success: false,
+        error: 'Generated dungeon failed validation; try a different seed or a larger grid',
+        errors: validation.errors,
+        warnings: validation.warnings
+      }, { status: 500 });
+    }
+    
+    return NextResponse.json<ApiResponse<Dungeon>>({ 
+      success: true,
+      data: dungeon,
+      warnings: validation.warnings
+    });
+  } catch (error) {
+    return NextResponse.json<ApiResponse<null>>({ 
+      success: false,
+      error: 'Failed to generate dungeon'
+    }, { status: 400 });
+  }
+}
@@ -0,0 +1,184 @@
+import { NextResponse } from 'next/server';
+import {
+  Dungeon,
+  DungeonValidator,
+  ApiResponse,
+  DungeonRevision,
+  DungeonRevisionSummary,
+  JsonChange
+} from '@/lib/api';
+import { getDungeonRepository, loadValidationRules } from '@/lib/storage';
+import { DungeonHistory } from '@/lib/history';
+import { ApiAuth } from '@/lib/auth';
+
+// Helper to read a version number query param; undefined when absent, NaN when malformed
+function parseVersion(value: string | null): number | undefined {
+  if (value === null) {
+    return undefined;
+  }
+  return /^\d+$/.test(value) ? parseInt(value) : NaN;
+}
+
+/**
+ * GET /api/dungeon/history
+ * Lists a dungeon's revisions (newest first), returns one revision, or diffs two
+ * Query params:
+ *   ?id=<dungeonId> to list revisions without their snapshots
+ *   ?id=<dungeonId>&version=<n> for one revision including its snapshot
+ *   ?id=<dungeonId>&from=<n>&to=<m> for the changes between two revisions
+ */
+export async function GET(request: Request) {
+  try {
+    const denied = await ApiAuth.requireScope(request, 'dungeons:read');
+    if (denied) {
+      return denied;
+    }
+
+    const { searchParams } = new URL(request.url);
+    const dungeonId = searchParams.get('id');
+    const version = parseVersion(searchParams.get('version'));
+    const from = parseVersion(searchParams.get('from'));
+    const to = parseVersion(searchParams.get('to'));
+
+    if (!dungeonId) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: 'Dungeon ID is required'
+      }, { status: 400 });
+    }
+    if ([version, from, to].some(v => Number.isNaN(v)) || (from === undefined) !== (to === undefined)) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: 'version, from and to must be version numbers, and from and to must be given together'
+      }, { status: 400 });
+    }
+
+    if (from !== undefined && to !== undefined) {
+      const [before, after] = await Promise.all([
+        DungeonHistory.get(dungeonId, from),
+        DungeonHistory.get(dungeonId, to)
+      ]);
+      if (!before || !after) {
+        return NextResponse.json<ApiResponse<null>>({
+          success: false,
+          error: `Revision ${!before ? from : to} not found`
+        }, { status: 404 });
+      }
+      return NextResponse.json<ApiResponse<{ from: number; to: number; changes: JsonChange[] }>>({
+        success: true,
+        data: { from, to, changes: DungeonHistory.diffSnapshots(before.snapshot, after.snapshot) }
+      });
+    }
+
+    if (version !== undefined) {
+      const revision = await DungeonHistory.get(dungeonId, version);
+      if (!revision) {
+        return NextResponse.json<ApiResponse<null>>({
+          success: false,
+          error: `Revision ${version} not found`
+        }, { status: 404 });
+      }
+      return NextResponse.json<ApiResponse<DungeonRevision>>({
+        success: true,
+        data: revision
+      });
+    }
+
+    return NextResponse.json<ApiResponse<DungeonRevisionSummary[]>>({
+      success: true,
+      data: await DungeonHistory.list(dungeonId)
+    });
+  } catch (error) {
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: 'Failed to load dungeon history'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/dungeon/history
+ * Restores an old revision as a new version of the dungeon (also recreates a deleted dungeon)
+ * Query params: ?id=<dungeonId>&version=<n>
+ * Body (optional): { version } - the dungeon version you were looking at; if it has been saved
+ * since, nothing is written and 409 is returned with the current server copy in `data`
+ */
+export async function POST(request: Request) {
+  try {
+    const denied = await ApiAuth.requireScope(request, 'dungeons:write');
+    if (denied) {
+      return denied;
+    }
+
+    const { searchParams } = new URL(request.url);
+    const dungeonId = searchParams.get('id');
+    const version = parseVersion(searchParams.get('version'));
+
+    if (!dungeonId || version === undefined || Number.isNaN(version)) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: 'Dungeon ID and revision version are required'
+      }, { status: 400 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const revision = await DungeonHistory.get(dungeonId, version);
+    if (!revision) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: `Revision ${version} not found`
+      }, { status: 404 });
+    }
+
+    // Rules may have changed since the revision was saved
+    const validation = DungeonValidator.validateDungeon(revision.snapshot, await loadValidationRules());
+    if (!validation.valid) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: 'Validation failed',
+        errors: validation.errors,
+        warnings: validation.warnings
+      }, { status: 400 });
+    }
+
+    const repository = getDungeonRepository();
+    const current = await repository.get(dungeonId);
+    const baseVersion = typeof body?.version === 'number' ? body.version : (current?.version ?? 0);
+    // A deleted dungeon continues from its last recorded version so revision numbers stay unique
+    const latestVersion = current ? baseVersion : (await DungeonHistory.list(dungeonId))[0].version;
+    const restored: Dungeon = {
+      ...revision.snapshot,
+      id: dungeonId,
+      createdAt: current?.createdAt ?? revision.snapshot.createdAt,
+      updatedAt: new Date().toISOString(),
+      version: latestVersion + 1
+    };
+    const result = await repository.saveIf(restored, stored =>
+      current ? !!stored && (stored.version ?? 0) === baseVersion : !stored
+    );
+    if (!result.saved) {
+      return NextResponse.json<ApiResponse<Dungeon>>({
+        success: false,
+        error: `Dungeon was changed by someone else (you were looking at version ${baseVersion}, the server has version ${result.current?.version ?? 0})`,
+        data: result.current
+      }, { status: 409 });
+    }
+    await DungeonHistory.record(
+      [{ dungeon: restored, previous: current }],
+      DungeonHistory.getAuthor(request),
+      'restore',
+      `Restored version ${version}`
+    );
+
+    return NextResponse.json<ApiResponse<Dungeon>>({
+      success: true,
+      data: restored,
+      warnings: validation.warnings
+    });
+  } catch (error) {
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: 'Failed to restore dungeon revision'
+    }, { status: 400 });
+  }
+}
@@ -0,0 +1,203 @@
+import { NextResponse } from 'next/server';
+import {
+  Dungeon,
+  DungeonValidator,
+  DungeonHelpers,
+  ApiResponse,
+  ValidationResult,
+  ValidationRuleSet,
+  ImportConflictMode,
+  DungeonImportResult,
+  DungeonImportReport
+} from '@/lib/api';
+import { getDungeonRepository, loadValidationRules } from '@/lib/storage';
+import { DungeonHistory } from '@/lib/history';
+import { ApiAuth } from '@/lib/auth';
+
+const CONFLICT_MODES: ImportConflictMode[] = ['skip', 'overwrite', 'rename'];
+
+// Helper to validate one dungeon from the file; a malformed entry is reported as invalid
+// instead of failing the whole import
+function validateImported(dungeon: Dungeon, id: string, rules: ValidationRuleSet): ValidationResult {
+  const malformed = (message: string): ValidationResult => ({
+    valid: false,
+    errors: [{ severity: 'error', code: 'required_field', field: 'dungeon', message }],
+    warnings: []
+  });
+  if (!dungeon || typeof dungeon !== 'object' || Array.isArray(dungeon)) {
+    return malformed('Dungeon must be an object');
+  }
+  try {
+    return DungeonValidator.validateDungeon({ ...dungeon, id }, rules);
+  } catch (error) {
+    return malformed(`Malformed dungeon: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+// Helper to pick the ID a renamed dungeon is saved under; it is derived from the dungeon's own ID
+// rather than random, so a preview and the import that follows report the same one
+function renamedId(id: string, usedIds: Set<string>): string {
+  let copy = 2;
+  while (usedIds.has(`${id}-${copy}`)) {
+    copy++;
+  }
+  return `${id}-${copy}`;
+}
+
+// Helper to count the rooms of a dungeon from the file, which may be malformed
+function countImportedRooms(dungeon: Dungeon): number {
+  try {
+    const rooms = DungeonHelpers.getAllRooms(dungeon);
+    return Array.isArray(rooms) ? rooms.length : 0;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * POST /api/dungeon/import
+ * Validates and imports every dungeon in a file (current or legacy client format)
+ * Body: { data, conflictMode?: 'skip' | 'overwrite' | 'rename', mergeLevels?, preview? }
+ *   data: the parsed contents of the import file
+ *   conflictMode: what to do when a dungeon's ID already exists (default 'skip')
+ *   mergeLevels: combine the levels of a legacy file into one multi-floor dungeon
+ *   preview: report what would be imported without saving anything
+ * Invalid dungeons are reported and left out; the rest are saved, each recording a revision
+ */
+export async function POST(request: Request) {
+  try {
+    const denied = await ApiAuth.requireScope(request, 'dungeons:write');
+    if (denied) {
+      return denied;
+    }
+
+    const body = await request.json();
+    const conflictMode: ImportConflictMode = body.conflictMode ?? 'skip';
+    const preview = body.preview === true;
+
+    if (!CONFLICT_MODES.includes(conflictMode)) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: `Invalid conflictMode '${conflictMode}'. Use one of: ${CONFLICT_MODES.join(', ')}`
+      }, { status: 400 });
+    }
+
+    const { format, dungeons: incoming } = DungeonHelpers.parseImportFile(body.data, { mergeLevels: body.mergeLevels === true });
+    if (incoming.length === 0) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: 'No dungeons found in import data'
+      }, { status: 400 });
+    }
+
+    const rules = await loadValidationRules();
+    const repository = getDungeonRepository();
+    const dungeons = await repository.list();
+    // Tracks IDs from earlier dungeons in the file too, so duplicates within the file also conflict
+    const usedIds = new Set(dungeons.map(d => d.id));
+    const now = new Date().toISOString();
+    // Dungeons deleted earlier continue their old version numbers when imported again
+    const nextVersions = await DungeonHistory.getNextVersions();
+    const results: DungeonImportResult[] = [];
+    // Each dungeon with the version it expects to replace (undefined: the ID must still be free)
+    const toSave: { dungeon: Dungeon; previous?: Dungeon; result: DungeonImportResult }[] = [];
+
+    incoming.forEach((dungeon, index) => {
+      const fileId = typeof dungeon?.id === 'string' && dungeon.id ? dungeon.id : undefined;
+      let id = fileId ?? DungeonHelpers.contentId('import', [index, dungeon]);
+      const validation = validateImported(dungeon, id, rules);
+      const result: DungeonImportResult = {
+        index,
+        id,
+        name: typeof dungeon?.name === 'string' ? dungeon.name : '',
+        floors: Array.isArray(dungeon?.floors) && dungeon.floors.length > 0 ? dungeon.floors.length : 1,
+        rooms: countImportedRooms(dungeon),
+        status: 'created',
+        errors: validation.errors,
+        warnings: validation.warnings
+      };
+      results.push(result);
+
+      if (!validation.valid) {
+        result.status = 'invalid';
+        return;
+      }
+
+      if (usedIds.has(id)) {
+        if (conflictMode === 'skip') {
+          result.status = 'skipped';
+          return;
+        }
+        if (conflictMode === 'rename') {
+          id = renamedId(id, usedIds);
+          result.id = id;
+          result.status = 'renamed';
+        } else {
+          result.status = 'overwritten';
+        }
+      }
+      if (fileId && id !== fileId) {
+        result.originalId = fileId;
+      }
+      usedIds.add(id);
+
+      const existingIndex = dungeons.findIndex(d => d.id === id);
+      const previous = existingIndex >= 0 ? dungeons[existingIndex] : undefined;
+      const imported: Dungeon = {
+        ...dungeon,
+        id,
+        createdAt: previous ? previous.createdAt : (dungeon.createdAt || now),
+        updatedAt: now,
+        version: previous ? (previous.version ?? 0) + 1 : (nextVersions.get(id) ?? 1)
+      };
+      if (existingIndex >= 0) {
+        dungeons[existingIndex] = imported;
+      } else {
+        dungeons.push(imported);
+      }
+      toSave.push({ dungeon: imported, previous, result });
+    });
+
+    // Each dungeon is only saved if it is still as it was read: a dungeon changed in the meantime
+    // isn't overwritten, and an ID taken in the meantime isn't reused
+    const saved: { dungeon: Dungeon; previous?: Dungeon }[] = [];
+    const conflicts: string[] = [];
+    if (!preview) {
+      for (const { dungeon, previous, result } of toSave) {
+        const { saved: wasSaved } = await repository.saveIf(dungeon, current => previous
+          ? !!current && (current.version ?? 0) === (previous.version ?? 0)
+          : !current
+        );
+        if (wasSaved) {
+          saved.push({ dungeon, previous });
+        } else {
+          result.status = 'conflict';
+          conflicts.push(dungeon.id);
+        }
+      }
+      if (saved.length > 0) {
+        await DungeonHistory.record(saved, DungeonHistory.getAuthor(request), 'import');
+      }
+    }
+
+    const importedCount = preview ? toSave.length : saved.length;
+    const report: DungeonImportReport = { format, preview, imported: importedCount, conflicts, results };
+    if (conflicts.length > 0) {
+      return NextResponse.json<ApiResponse<DungeonImportReport>>({
+        success: false,
+        error: `Dungeons changed by someone else during the import were not saved: ${conflicts.join(', ')}`,
+        data: report
+      }, { status: 409 });
+    }
+
+    return NextResponse.json<ApiResponse<DungeonImportReport>>({
+      success: true,
+      data: report
+    }, { status: !preview && importedCount > 0 ? 201 : 200 });
+  } catch (error) {
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: 'Failed to import dungeons'
+    }, { status: 400 });
+  }
+}
@@ -1,33 +1,11 @@
 import { NextResponse } from 'next/server';
-import { readFile, writeFile } from 'fs/promises';
-import { join } from 'path';
-import { Dungeon, DungeonValidator, ApiResponse } from '@/lib/api';
-
-// Path to dungeon data file
-const DATA_FILE_PATH = join(process.cwd(), 'public', 'data', 'dungeon-data.json');
-
-// Helper to load dungeons from file
-async function loadDungeons(): Promise<Dungeon[]> {
-  try {
-    const fileContents = await readFile(DATA_FILE_PATH, 'utf-8');
-    const data = JSON.parse(fileContents);
-    return data.dungeons || [];
-  } catch (error) {
-    console.error('Error loading dungeons:', error);
-    return [];
-  }
-}
-
-// Helper to save dungeons to file
-async function saveDungeons(dungeons: Dungeon[]): Promise<void> {
-  try {
-    const data = { dungeons };
-    await writeFile(DATA_FILE_PATH, JSON.stringify(data, null, 2), 'utf-8');
-  } catch (error) {
-    console.error('Error saving dungeons:', error);
-    throw new Error('Failed to save dungeons');
-  }
-}
+import { Dungeon, DungeonValidator, DungeonHelpers, ApiResponse, APIDungeonData, DungeonSummary } from '@/lib/api';
+import { getDungeonRepository, loadValidationRules } from '@/lib/storage';
+import { DungeonHistory } from '@/lib/history';
+import { JsonPatch, JsonPatchTestError } from '@/lib/patch';
+import { DungeonQuery } from '@/lib/query';
+import { ApiAuth } from '@/lib/auth';
+import { ConditionalRequest } from '@/lib/conditional';
 
 /**
  * GET /api/dungeon
@@ -35,18 +13,53 @@ async function saveDungeons(dungeons: Dungeon[]): Promise<void> {
  * Query params: 
  *   ?id=<dungeonId> for specific dungeon
  *   ?floor=<floorNumber> to get rooms for a specific floor (requires id)
+ *   ?format=client to return data in the game-client (APIRoomData) format
+ * List query params (without id), see DungeonQuery.parse:
+ *   ?difficulty=Easy,Medium&minLevel=1&maxLevel=5&q=<name text>&monster=<name>&roomType=boss,puzzle
+ *   ?sort=name|level|updatedAt&order=asc|desc
+ *   ?limit=<1-100>&cursor=<page.nextCursor from the previous page>
+ *   ?view=summary for DungeonSummary items instead of full dungeons
+ * Responses carry an ETag (and Last-Modified for one dungeon); If-None-Match or
+ * If-Modified-Since returns 304 when the client's copy is current
  */
 export async function GET(request: Request) {
   try {
+    const denied = await ApiAuth.requireScope(request, 'dungeons:read');
+    if (denied) {
+      return denied;
+    }
+
     const { searchParams } = new URL(request.url);
     const dungeonId = searchParams.get('id');
     const floorNumber = searchParams.get('floor');
+    const format = searchParams.get('format');
+    const view = searchParams.get('view');
     
-    const dungeons = await loadDungeons();
+    if (format && format !== 'client') {
+      return NextResponse.json<ApiResponse<null>>({ 
+        success: false,
+        error: `Unsupported format: ${format}`
+      }, { status: 400 });
+    }
+    if (view && view !== 'summary') {
+      return NextResponse.json<ApiResponse<null>>({ 
+        success: false,
+        error: `Unsupported view: ${view}`
+      }, { status: 400 });
+    }
+    if (view && format) {
+      return NextResponse.json<ApiResponse<null>>({ 
+        success: false,
+        error: 'view=summary cannot be combined with format'
+      }, { status: 400 });
+    }
+    const clientFormat = format === 'client';
+    
+    const repository = getDungeonRepository();
     
     if (dungeonId) {
       // Return specific dungeon
-      const dungeon = dungeons.find(d => d.id === dungeonId);
+      const dungeon = await repository.get(dungeonId);
       if (!dungeon) {
         return NextResponse.json<ApiResponse<null>>({ 
           success: false,
@@ -65,22 +78,24 @@ export async function GET(request: Request) {
               error: `Floor ${floor} not found`
             }, { status: 404 });
           }
-          return NextResponse.json<ApiResponse<any>>({ 
+          return ConditionalRequest.json<any>(request, { 
             success: true,
-            data: dungeonFloor
-          });
+            data: clientFormat 
+              ? { ...dungeonFloor, rooms: DungeonHelpers.toApiRooms(dungeonFloor.rooms, z => DungeonHelpers.toClientFloorNumber(dungeon, z)) } 
+              : dungeonFloor
+          }, dungeon.updatedAt);
         } else {
           // Legacy format: return all rooms if floor is 1
           if (floor === 1) {
-            return NextResponse.json<ApiResponse<any>>({ 
+            return ConditionalRequest.json<any>(request, { 
               success: true,
               data: {
                 floorNumber: 1,
                 name: 'Ground Floor',
                 description: '',
-                rooms: dungeon.rooms || []
+                rooms: clientFormat ? DungeonHelpers.toApiRooms(dungeon.rooms || []) : (dungeon.rooms || [])
               }
-            });
+            }, dungeon.updatedAt);
           } else {
             return NextResponse.json<ApiResponse<null>>({ 
               success: false,
@@ -90,16 +105,52 @@ export async function GET(request: Request) {
         }
       }
       
-      return NextResponse.json<ApiResponse<Dungeon>>({ 
+      if (clientFormat) {
+        return ConditionalRequest.json<APIDungeonData>(request, { 
+          success: true,
+          data: DungeonHelpers.toApiDungeon(dungeon)
+        }, dungeon.updatedAt);
+      }
+      
+      return ConditionalRequest.json<Dungeon>(request, { 
         success: true,
         data: dungeon
+      }, dungeon.updatedAt);
+    }
+    
+    // Return the dungeons matching the list query
+    const dungeons = await repository.list();
+    let result: ReturnType<typeof DungeonQuery.run>;
+    try {
+      result = DungeonQuery.run(dungeons, DungeonQuery.parse(searchParams));
+    } catch (error) {
+      return NextResponse.json<ApiResponse<null>>({ 
+        success: false,
+        error: error instanceof Error ? error.message : 'Invalid list query'
+      }, { status: 400 });
+    }
+    const { items, page } = result;
+    
+    if (view === 'summary') {
+      return ConditionalRequest.json<DungeonSummary[]>(request, { 
+        success: true,
+        data: items.map(d => DungeonHelpers.toSummary(d)),
+        page
+      });
+    }
+    if (clientFormat) {
+      return ConditionalRequest.json<APIDungeonData[]>(request, { 
+        success: true,
+        data: DungeonHelpers.convertToApiFormat(items).dungeons,
+        page
       });
     }
     
-    // Return all dungeons
-    return NextResponse.json<ApiResponse<Dungeon[]>>({ 
+    // Lists have no Last-Modified: deleting a dungeon changes the list without a newer updatedAt
+    return ConditionalRequest.json<Dungeon[]>(request, { 
       success: true,
-      data: dungeons
+      data: items,
+      page
     });
   } catch (error) {
     return NextResponse.json<ApiResponse<null>>({ 
@@ -112,9 +163,16 @@ export async function GET(request: Request) {
 /**
  * POST /api/dungeon
  * Creates a new dungeon with validation
+ * Only error-severity findings reject the dungeon; warnings are returned with the saved data
+ * Records a revision authored by the X-Author header
  */
 export async function POST(request: Request) {
   try {
+    const denied = await ApiAuth.requireScope(request, 'dungeons:write');
+    if (denied) {
+      return denied;
+    }
+
     const body = await request.json();
     const dungeon: Dungeon = {
       ...body,
@@ -123,24 +181,35 @@ export async function POST(request: Request) {
     };
     
     // Validate dungeon
-    const validation = DungeonValidator.validateDungeon(dungeon);
+    const validation = DungeonValidator.validateDungeon(dungeon, await loadValidationRules());
     if (!validation.valid) {
       return NextResponse.json<ApiResponse<null>>({ 
         success: false,
         error: 'Validation failed',
-        errors: validation.errors
+        errors: validation.errors,
+        warnings: validation.warnings
       }, { status: 400 });
     }
     
-    // Load existing dungeons and add new one
-    const dungeons = await loadDungeons();
-    dungeons.push(dungeon);
-    await saveDungeons(dungeons);
+    // A dungeon created again after a delete continues its old version numbers
+    dungeon.version = (await DungeonHistory.getNextVersions()).get(dungeon.id) ?? 1;
+
+    // Refuse to replace an existing dungeon; that's what PUT is for
+    const result = await getDungeonRepository().saveIf(dungeon, current => !current);
+    if (!result.saved) {
+      return NextResponse.json<ApiResponse<Dungeon>>({ 
+        success: false,
+        error: 'A dungeon with this ID already exists',
+        data: result.current
+      }, { status: 409 });
+    }
+    await DungeonHistory.record([{ dungeon }], DungeonHistory.getAuthor(request), 'create');
     
     return NextResponse.json<ApiResponse<Dungeon>>({ 
       success: true,
-      data: dungeon
-    }, { status: 201 });
+      data: dungeon,
+      warnings: validation.warnings
+    }, { status: 201, headers: ConditionalRequest.dungeonHeaders(dungeon) });
   } catch (error) {
     return NextResponse.json<ApiResponse<null>>({ 
       success: false,
@@ -153,9 +222,18 @@ export async function POST(request: Request) {
  * PUT /api/dungeon
  * Updates an existing dungeon
  * Query params: ?id=<dungeonId>
+ * Send the `version` you loaded; if the dungeon has been saved since, nothing is written and
+ * 409 is returned with the current server copy in `data`
+ * An If-Match header with the dungeon's ETag is checked the same way, returning 412
+ * Records a revision authored by the X-Author header
  */
 export async function PUT(request: Request) {
   try {
+    const denied = await ApiAuth.requireScope(request, 'dungeons:write');
+    if (denied) {
+      return denied;
+    }
+
     const { searchParams } = new URL(request.url);
     const dungeonId = searchParams.get('id');
     
@@ -166,6 +244,21 @@ export async function PUT(request: Request) {
       }, { status: 400 });
     }
     
+    const repository = getDungeonRepository();
+    const current = await repository.get(dungeonId);
+    if (!current) {
+      return NextResponse.json<ApiResponse<null>>({ 
+        success: false,
+        error: 'Dungeon not found'
+      }, { status: 404 });
+    }
+    
+    // Preconditions are checked before the body is looked at
+    const preconditionFailed = ConditionalRequest.checkIfMatch(request, current);
+    if (preconditionFailed) {
+      return preconditionFailed;
+    }
+    
     const body = await request.json();
     const updatedDungeon: Dungeon = {
       ...body,
@@ -174,48 +267,194 @@ export async function PUT(request: Request) {
     };
     
     // Validate dungeon
-    const validation = DungeonValidator.validateDungeon(updatedDungeon);
+    const validation = DungeonValidator.validateDungeon(updatedDungeon, await loadValidationRules());
     if (!validation.valid) {
       return NextResponse.json<ApiResponse<null>>({ 
         success: false,
         error: 'Validation failed',
-        errors: validation.errors
+        errors: validation.errors,
+        warnings: validation.warnings
       }, { status: 400 });
     }
     
-    // Load dungeons and update
-    const dungeons = await loadDungeons();
-    const index = dungeons.findIndex(d => d.id === dungeonId);
+    // Optimistic concurrency: the save only goes through if the stored version is still the one
+    // the client edited (body.version), or the one just read when the client didn't send a version,
+    // and the stored dungeon still matches If-Match
+    const baseVersion = typeof body.version === 'number' ? body.version : (current.version ?? 0);
+    updatedDungeon.version = baseVersion + 1;
+    let previous: Dungeon | undefined;
+    const result = await repository.saveIf(updatedDungeon, stored => {
+      previous = stored;
+      return !!stored && (stored.version ?? 0) === baseVersion && ConditionalRequest.matchesIfMatch(request, stored);
+    });
+    if (!result.saved) {
+      if (!result.current) {
+        return NextResponse.json<ApiResponse<null>>({ 
+          success: false,
+          error: 'Dungeon not found'
+        }, { status: 404 });
+      }
+      if (!ConditionalRequest.matchesIfMatch(request, result.current)) {
+        return ConditionalRequest.preconditionFailed(result.current);
+      }
+      return NextResponse.json<ApiResponse<Dungeon>>({ 
+        success: false,
+        error: `Dungeon was changed by someone else (you edited version ${baseVersion}, the server has version ${result.current.version ?? 0})`,
+        data: result.current
+      }, { status: 409 });
+    }
+    await DungeonHistory.record([{ dungeon: updatedDungeon, previous }], DungeonHistory.getAuthor(request), 'update');
     
-    if (index === -1) {
+    return NextResponse.json<ApiResponse<Dungeon>>({ 
+      success: true,
+      data: updatedDungeon,
+      warnings: validation.warnings
+    }, { headers: ConditionalRequest.dungeonHeaders(updatedDungeon) });
+  } catch (error) {
+    return NextResponse.json<ApiResponse<null>>({ 
+      success: false,
+      error: 'Failed to update dungeon'
+    }, { status: 400 });
+  }
+}
+
+/**
+ * PATCH /api/dungeon
+ * Applies a partial update to an existing dungeon, validates the result and saves it
+ * Query params: ?id=<dungeonId>
+ * Content-Type selects the patch format:
+ *   application/json-patch+json - JSON Patch (RFC 6902), an array of operations
+ *   application/merge-patch+json - JSON merge patch (RFC 7396)
+ *   application/json - JSON Patch for an array body, merge patch for an object
+ * A failed `test` operation returns 409. As with PUT, a patched `version` (e.g. a merge patch with
+ * the version you loaded) must match the stored version or 409 is returned with the server copy.
+ * An If-Match header with the dungeon's ETag returns 412 when the dungeon has changed.
+ */
+export async function PATCH(request: Request) {
+  try {
+    const denied = await ApiAuth.requireScope(request, 'dungeons:write');
+    if (denied) {
+      return denied;
+    }
+
+    const { searchParams } = new URL(request.url);
+    const dungeonId = searchParams.get('id');
+    
+    if (!dungeonId) {
+      return NextResponse.json<ApiResponse<null>>({ 
+        success: false,
+        error: 'Dungeon ID is required'
+      }, { status: 400 });
+    }
+    
+    const contentType = (request.headers.get('content-type') || 'application/json').split(';')[0].trim();
+    if (!['application/json-patch+json', 'application/merge-patch+json', 'application/json'].includes(contentType)) {
+      return NextResponse.json<ApiResponse<null>>({ 
+        success: false,
+        error: `Unsupported Content-Type ${contentType}; use application/json-patch+json or application/merge-patch+json`
+      }, { status: 415 });
+    }
+    const repository = getDungeonRepository();
+    const current = await repository.get(dungeonId);
+    if (!current) {
       return NextResponse.json<ApiResponse<null>>({ 
         success: false,
         error: 'Dungeon not found'
       }, { status: 404 });
     }
     
-    dungeons[index] = updatedDungeon;
-    await saveDungeons(dungeons);
+    const preconditionFailed = ConditionalRequest.checkIfMatch(request, current);
+    if (preconditionFailed) {
+      return preconditionFailed;
+    }
+    
+    const body = await request.json();
+    const isJsonPatch = contentType === 'application/json-patch+json' || 
+      (contentType === 'application/json' && Array.isArray(body));
+    
+    let patched: Dungeon;
+    try {
+      patched = isJsonPatch ? JsonPatch.apply(current, body) : JsonPatch.applyMerge(current, body);
+    } catch (error) {
+      return NextResponse.json<ApiResponse<Dungeon>>({ 
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to apply patch',
+        ...(error instanceof JsonPatchTestError && { data: current })
+      }, { status: error instanceof JsonPatchTestError ? 409 : 400 });
+    }
+    
+    // The ID and creation time can't be patched
+    const updatedDungeon: Dungeon = {
+      ...patched,
+      id: dungeonId,
+      createdAt: current.createdAt,
+      updatedAt: new Date().toISOString()
+    };
+    
+    // Validate the patched dungeon
+    const validation = DungeonValidator.validateDungeon(updatedDungeon, await loadValidationRules());
+    if (!validation.valid) {
+      return NextResponse.json<ApiResponse<null>>({ 
+        success: false,
+        error: 'Validation failed',
+        errors: validation.errors,
+        warnings: validation.warnings
+      }, { status: 400 });
+    }
+    
+    const baseVersion = typeof patched.version === 'number' ? patched.version : (current.version ?? 0);
+    updatedDungeon.version = baseVersion + 1;
+    const result = await repository.saveIf(updatedDungeon, stored =>
+      !!stored && (stored.version ?? 0) === baseVersion && ConditionalRequest.matchesIfMatch(request, stored));
+    if (!result.saved) {
+      if (!result.current) {
+        return NextResponse.json<ApiResponse<null>>({ 
+          success: false,
+          error: 'Dungeon not found'
+        }, { status: 404 });
+      }
+      if (!ConditionalRequest.matchesIfMatch(request, result.current)) {
+        return ConditionalRequest.preconditionFailed(result.current);
+      }
+      return NextResponse.json<ApiResponse<Dungeon>>({ 
+        success: false,
+        error: `Dungeon was changed by someone else (you edited version ${baseVersion}, the server has version ${result.current.version ?? 0})`,
+        data: result.current
+      }, { status: 409 });
+    }
+    await DungeonHistory.record(
+      [{ dungeon: updatedDungeon, previous: current }],
+      DungeonHistory.getAuthor(request),
+      'update',
+      isJsonPatch ? `JSON Patch (${body.length} operations)` : 'Merge patch'
+    );
     
     return NextResponse.json<ApiResponse<Dungeon>>({ 
       success: true,
-      data: updatedDungeon
-    });
+      data: updatedDungeon,
+      warnings: validation.warnings
+    }, { headers: ConditionalRequest.dungeonHeaders(updatedDungeon) });
   } catch (error) {
     return NextResponse.json<ApiResponse<null>>({ 
       success: false,
-      error: 'Failed to update dungeon'
+      error: 'Failed to patch dungeon'
     }, { status: 400 });
   }
 }
 
 /**
  * DELETE /api/dungeon
- * Deletes a dungeon
+ * Deletes a dungeon and records a delete revision, so it can be restored from its history
  * Query params: ?id=<dungeonId>
+ * With If-Match, the dungeon is only deleted if its ETag still matches (412 otherwise)
  */
 export async function DELETE(request: Request) {
   try {
+    const denied = await ApiAuth.requireScope(request, 'dungeons:write');
+    if (denied) {
+      return denied;
+    }
+
     const { searchParams } = new URL(request.url);
     const dungeonId = searchParams.get('id');
     
@@ -226,18 +465,17 @@ export async function DELETE(request: Request) {
       }, { status: 400 });
     }
     
-    // Load dungeons and filter out the one to delete
-    const dungeons = await loadDungeons();
-    const filtered = dungeons.filter(d => d.id !== dungeonId);
-    
-    if (filtered.length === dungeons.length) {
+    const result = await getDungeonRepository().deleteIf(dungeonId, stored => ConditionalRequest.matchesIfMatch(request, stored!));
+    if (!result.deleted) {
+      if (result.current) {
+        return ConditionalRequest.preconditionFailed(result.current);
+      }
       return NextResponse.json<ApiResponse<null>>({ 
         success: false,
         error: 'Dungeon not found'
       }, { status: 404 });
     }
-    
-    await saveDungeons(filtered);
+    await DungeonHistory.recordDeletion(result.current!, DungeonHistory.getAuthor(request));
     
     return NextResponse.json<ApiResponse<{ id: string }>>({ 
       success: true,
@@ -1,33 +1,8 @@
 import { NextResponse } from 'next/server';
-import { readFile, writeFile } from 'fs/promises';
-import { join } from 'path';
 import { ApiEndpointConfig, ApiResponse } from '@/lib/api';
-
-// Path to endpoint config file
-const CONFIG_FILE_PATH = join(process.cwd(), 'public', 'data', 'endpoint-config.json');
-
-// Helper to load endpoint configurations
-async function loadEndpoints(): Promise<ApiEndpointConfig[]> {
-  try {
-    const fileContents = await readFile(CONFIG_FILE_PATH, 'utf-8');
-    const data = JSON.parse(fileContents);
-    return data.endpoints || [];
-  } catch (error) {
-    console.error('Error loading endpoints:', error);
-    return [];
-  }
-}
-
-// Helper to save endpoint configurations
-async function saveEndpoints(endpoints: ApiEndpointConfig[]): Promise<void> {
-  try {
-    const data = { endpoints };
-    await writeFile(CONFIG_FILE_PATH, JSON.stringify(data, null, 2), 'utf-8');
-  } catch (error) {
-    console.error('Error saving endpoints:', error);
-    throw new Error('Failed to save endpoints');
-  }
-}
+import { getEndpointRepository } from '@/lib/storage';
+import { EndpointSources } from '@/lib/endpoints';
+import { ApiAuth } from '@/lib/auth';
 
 /**
  * GET /api/endpoints
@@ -36,14 +11,19 @@ async function saveEndpoints(endpoints: ApiEndpointConfig[]): Promise<void> {
  */
 export async function GET(request: Request) {
   try {
+    const denied = await ApiAuth.requireScope(request, 'endpoints:manage');
+    if (denied) {
+      return denied;
+    }
+
     const { searchParams } = new URL(request.url);
     const endpointId = searchParams.get('id');
     
-    const endpoints = await loadEndpoints();
+    const repository = getEndpointRepository();
     
     if (endpointId) {
       // Return specific endpoint
-      const endpoint = endpoints.find(e => e.id === endpointId);
+      const endpoint = await repository.get(endpointId);
       if (!endpoint) {
         return NextResponse.json<ApiResponse<null>>({ 
           success: false,
@@ -57,6 +37,7 @@ export async function GET(request: Request) {
     }
     
     // Return all endpoints
+    const endpoints = await repository.list();
     return NextResponse.json<ApiResponse<ApiEndpointConfig[]>>({ 
       success: true,
       data: endpoints
@@ -75,6 +56,11 @@ export async function GET(request: Request) {
  */
 export async function POST(request: Request) {
   try {
+    const denied = await ApiAuth.requireScope(request, 'endpoints:manage');
+    if (denied) {
+      return denied;
+    }
+
     const body = await request.json();
     const endpoint: ApiEndpointConfig = {
       ...body,
@@ -83,10 +69,19 @@ export async function POST(request: Request) {
     };
     
     // Basic validation
-    if (!endpoint.id || !endpoint.name || !endpoint.path || !endpoint.dungeonId) {
+    if (!endpoint.id || !endpoint.name || !endpoint.path) {
       return NextResponse.json<ApiResponse<null>>({ 
         success: false,
-        error: 'Missing required fields: id, name, path, and dungeonId are required'
+        error: 'Missing required fields: id, name and path are required'
+      }, { status: 400 });
+    }
+    
+    // Validate what the endpoint serves
+    const sourceError = EndpointSources.validate(endpoint);
+    if (sourceError) {
+      return NextResponse.json<ApiResponse<null>>({ 
+        success: false,
+        error: sourceError
       }, { status: 400 });
     }
     
@@ -99,7 +94,8 @@ export async function POST(request: Request) {
     }
     
     // Load existing endpoints and check for duplicates
-    const endpoints = await loadEndpoints();
+    const repository = getEndpointRepository();
+    const endpoints = await repository.list();
     if (endpoints.find(e => e.id === endpoint.id)) {
       return NextResponse.json<ApiResponse<null>>({ 
         success: false,
@@ -114,8 +110,7 @@ export async function POST(request: Request) {
       }, { status: 400 });
     }
     
-    endpoints.push(endpoint);
-    await saveEndpoints(endpoints);
+    await repository.save(endpoint);
     
     return NextResponse.json<ApiResponse<ApiEndpointConfig>>({ 
       success: true,
@@ -136,6 +131,11 @@ export async function POST(request: Request) {
  */
 export async function PUT(request: Request) {
   try {
+    const denied = await ApiAuth.requireScope(request, 'endpoints:manage');
+    if (denied) {
+      return denied;
+    }
+
     const { searchParams } = new URL(request.url);
     const endpointId = searchParams.get('id');
     
@@ -154,10 +154,19 @@ export async function PUT(request: Request) {
     };
     
     // Basic validation
-    if (!updatedEndpoint.name || !updatedEndpoint.path || !updatedEndpoint.dungeonId) {
+    if (!updatedEndpoint.name || !updatedEndpoint.path) {
       return NextResponse.json<ApiResponse<null>>({ 
         success: false,
-        error: 'Missing required fields: name, path, and dungeonId are required'
+        error: 'Missing required fields: name and path are required'
+      }, { status: 400 });
+    }
+    
+    // Validate what the endpoint serves
+    const sourceError = EndpointSources.validate(updatedEndpoint);
+    if (sourceError) {
+      return NextResponse.json<ApiResponse<null>>({ 
+        success: false,
+        error: sourceError
       }, { status: 400 });
     }
     
@@ -170,10 +179,10 @@ export async function PUT(request: Request) {
     }
     
     // Load endpoints and update
-    const endpoints = await loadEndpoints();
-    const index = endpoints.findIndex(e => e.id === endpointId);
+    const repository = getEndpointRepository();
+    const endpoints = await repository.list();
     
-    if (index === -1) {
+    if (!endpoints.find(e => e.id === endpointId)) {
       return NextResponse.json<ApiResponse<null>>({ 
         success: false,
         error: 'Endpoint configuration not found'
@@ -189,8 +198,7 @@ export async function PUT(request: Request) {
       }, { status: 400 });
     }
     
-    endpoints[index] = updatedEndpoint;
-    await saveEndpoints(endpoints);
+    await repository.save(updatedEndpoint);
     
     return NextResponse.json<ApiResponse<ApiEndpointConfig>>({ 
       success: true,
@@ -211,6 +219,11 @@ export async function PUT(request: Request) {
  */
 export async function DELETE(request: Request) {
   try {
+    const denied = await ApiAuth.requireScope(request, 'endpoints:manage');
+    if (denied) {
+      return denied;
+    }
+
     const { searchParams } = new URL(request.url);
     const endpointId = searchParams.get('id');
     
@@ -221,19 +234,13 @@ export async function DELETE(request: Request) {
       }, { status: 400 });
     }
     
-    // Load endpoints and filter out the one to delete
-    const endpoints = await loadEndpoints();
-    const filtered = endpoints.filter(e => e.id !== endpointId);
-    
-    if (filtered.length === endpoints.length) {
+    if (!(await getEndpointRepository().delete(endpointId))) {
       return NextResponse.json<ApiResponse<null>>({ 
         success: false,
         error: 'Endpoint configuration not found'
       }, { status: 404 });
     }
     
-    await saveEndpoints(filtered);
-    
     return NextResponse.json<ApiResponse<{ id: string }>>({ 
       success: true,
       data: { id: endpointId }
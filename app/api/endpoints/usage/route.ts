@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { ApiResponse, EndpointUsageStats } from '@/lib/api';
+import { ApiAuth } from '@/lib/auth';
+import { EndpointUsage, USAGE_WINDOWS } from '@/lib/usage';
+
+/**
+ * GET /api/endpoints/usage
+ * Returns request counts, error rates and latency percentiles of custom endpoints
+ * Endpoints without requests in the window are left out
+ * Query params:
+ *   ?window=1h|24h|7d|30d (default 24h)
+ *   ?id=<endpointId> for one endpoint
+ */
+export async function GET(request: Request) {
+  try {
+    const denied = await ApiAuth.requireScope(request, 'endpoints:manage');
+    if (denied) {
+      return denied;
+    }
+
+    const { searchParams } = new URL(request.url);
+    const window = searchParams.get('window') ?? '24h';
+    const endpointId = searchParams.get('id') ?? undefined;
+
+    if (!EndpointUsage.isWindow(window)) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: `Unknown window '${window}'. Use one of: ${Object.keys(USAGE_WINDOWS).join(', ')}`
+      }, { status: 400 });
+    }
+
+    return NextResponse.json<ApiResponse<EndpointUsageStats[]>>({
+      success: true,
+      data: await EndpointUsage.getStats(window, endpointId)
+    });
+  } catch (error) {
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: 'Failed to load endpoint usage'
+    }, { status: 500 });
+  }
+}
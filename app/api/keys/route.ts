@@ -0,0 +1,260 @@
+import { NextResponse } from 'next/server';
+import { ApiKey, ApiKeyInfo, ApiKeyScope, ApiResponse } from '@/lib/api';
+import { getApiKeyRepository } from '@/lib/storage';
+import { ApiAuth, API_KEY_SCOPES } from '@/lib/auth';
+
+/**
+ * Checks a list of scopes; returns an error message, or undefined if valid
+ */
+function validateScopes(scopes: unknown): string | undefined {
+  if (!Array.isArray(scopes) || scopes.length === 0 || scopes.some(s => !API_KEY_SCOPES.includes(s))) {
+    return `scopes must list at least one of: ${API_KEY_SCOPES.join(', ')}`;
+  }
+  return undefined;
+}
+
+/**
+ * Whether these keys would lock everyone out of key management
+ * DUNGEON_ADMIN_KEY can always manage keys, so it is only a problem without one
+ */
+function locksOutKeyManagement(keys: ApiKey[]): boolean {
+  return !process.env.DUNGEON_ADMIN_KEY &&
+    keys.length > 0 &&
+    !keys.some(k => k.enabled && k.scopes.includes('keys:manage'));
+}
+
+const LOCKOUT_ERROR = 'At least one enabled API key must keep the keys:manage scope';
+
+/**
+ * GET /api/keys
+ * Returns all API keys (without secrets) or a specific one by ID
+ * Query params: ?id=<keyId> for specific key
+ */
+export async function GET(request: Request) {
+  try {
+    const denied = await ApiAuth.requireScope(request, 'keys:manage');
+    if (denied) {
+      return denied;
+    }
+
+    const { searchParams } = new URL(request.url);
+    const keyId = searchParams.get('id');
+
+    const repository = getApiKeyRepository();
+
+    if (keyId) {
+      const key = await repository.get(keyId);
+      if (!key) {
+        return NextResponse.json<ApiResponse<null>>({
+          success: false,
+          error: 'API key not found'
+        }, { status: 404 });
+      }
+      return NextResponse.json<ApiResponse<ApiKeyInfo>>({
+        success: true,
+        data: ApiAuth.toInfo(key)
+      });
+    }
+
+    const keys = await repository.list();
+    return NextResponse.json<ApiResponse<ApiKeyInfo[]>>({
+      success: true,
+      data: keys.map(key => ApiAuth.toInfo(key))
+    });
+  } catch (error) {
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: 'Failed to load API keys'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/keys
+ * Creates an API key; the secret is only returned in this response
+ * Body: { name, scopes }
+ */
+export async function POST(request: Request) {
+  try {
+    const denied = await ApiAuth.requireScope(request, 'keys:manage');
+    if (denied) {
+      return denied;
+    }
+
+    const body = await request.json();
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    if (!name) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: 'Missing required field: name'
+      }, { status: 400 });
+    }
+
+    const scopesError = validateScopes(body.scopes);
+    if (scopesError) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: scopesError
+      }, { status: 400 });
+    }
+
+    // With DUNGEON_OPEN_ACCESS the first key turns authentication on, so it has to be able to manage keys
+    const repository = getApiKeyRepository();
+    const { key, secret } = ApiAuth.createKey(name, body.scopes as ApiKeyScope[]);
+    if (locksOutKeyManagement([...(await repository.list()), key])) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: 'The first API key needs the keys:manage scope'
+      }, { status: 400 });
+    }
+
+    await repository.save(key);
+
+    return NextResponse.json<ApiResponse<ApiKeyInfo & { secret: string }>>({
+      success: true,
+      data: { ...ApiAuth.toInfo(key), secret }
+    }, { status: 201 });
+  } catch (error) {
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: 'Failed to create API key'
+    }, { status: 400 });
+  }
+}
+
+/**
+ * PUT /api/keys
+ * Renames, rescopes, enables or disables an API key; the secret can't be changed
+ * Query params: ?id=<keyId>
+ * Body: { name?, scopes?, enabled? }
+ */
+export async function PUT(request: Request) {
+  try {
+    const denied = await ApiAuth.requireScope(request, 'keys:manage');
+    if (denied) {
+      return denied;
+    }
+
+    const { searchParams } = new URL(request.url);
+    const keyId = searchParams.get('id');
+
+    if (!keyId) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: 'API key ID is required'
+      }, { status: 400 });
+    }
+
+    const body = await request.json();
+    if (body.name !== undefined && (typeof body.name !== 'string' || !body.name.trim())) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: 'name cannot be empty'
+      }, { status: 400 });
+    }
+
+    const scopesError = body.scopes !== undefined ? validateScopes(body.scopes) : undefined;
+    if (scopesError) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: scopesError
+      }, { status: 400 });
+    }
+
+    if (body.enabled !== undefined && typeof body.enabled !== 'boolean') {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: 'enabled must be true or false'
+      }, { status: 400 });
+    }
+
+    const repository = getApiKeyRepository();
+    const keys = await repository.list();
+    const existing = keys.find(k => k.id === keyId);
+    if (!existing) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: 'API key not found'
+      }, { status: 404 });
+    }
+
+    const updatedKey: ApiKey = {
+      ...existing,
+      name: body.name !== undefined ? body.name.trim() : existing.name,
+      scopes: body.scopes ?? existing.scopes,
+      enabled: body.enabled ?? existing.enabled,
+      updatedAt: new Date().toISOString()
+    };
+
+    if (locksOutKeyManagement(keys.map(k => (k.id === keyId ? updatedKey : k)))) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: LOCKOUT_ERROR
+      }, { status: 400 });
+    }
+
+    await repository.save(updatedKey);
+
+    return NextResponse.json<ApiResponse<ApiKeyInfo>>({
+      success: true,
+      data: ApiAuth.toInfo(updatedKey)
+    });
+  } catch (error) {
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: 'Failed to update API key'
+    }, { status: 400 });
+  }
+}
+
+/**
+ * DELETE /api/keys
+ * Deletes an API key; requests using it are rejected from then on
+ * Query params: ?id=<keyId>
+ */
+export async function DELETE(request: Request) {
+  try {
+    const denied = await ApiAuth.requireScope(request, 'keys:manage');
+    if (denied) {
+      return denied;
+    }
+
+    const { searchParams } = new URL(request.url);
+    const keyId = searchParams.get('id');
+
+    if (!keyId) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: 'API key ID is required'
+      }, { status: 400 });
+    }
+
+    const repository = getApiKeyRepository();
+    const keys = await repository.list();
+    if (!keys.some(k => k.id === keyId)) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: 'API key not found'
+      }, { status: 404 });
+    }
+
+    if (locksOutKeyManagement(keys.filter(k => k.id !== keyId))) {
+      return NextResponse.json<ApiResponse<null>>({
+        success: false,
+        error: LOCKOUT_ERROR
+      }, { status: 400 });
+    }
+
+    await repository.delete(keyId);
+
+    return NextResponse.json<ApiResponse<{ id: string }>>({
+      success: true,
+      data: { id: keyId }
+    });
+  } catch (error) {
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: 'Failed to delete API key'
+    }, { status: 400 });
+  }
+}
@@ -0,0 +1,138 @@
+import { NextResponse } from 'next/server';
+import { 
+  DifficultyLevel, 
+  DungeonValidator, 
+  ValidationRuleProfile, 
+  ValidationRuleSet, 
+  ValidationError, 
+  ApiResponse
+} from '@/lib/api';
+import { getValidationRuleRepository, loadValidationRules } from '@/lib/storage';
+import { ApiAuth } from '@/lib/auth';
+
+const DIFFICULTIES: DifficultyLevel[] = ['Easy', 'Medium', 'Hard', 'Expert'];
+
+/**
+ * GET /api/validation-rules
+ * Returns the validation rule profiles for every difficulty, or one difficulty
+ * Query params: ?difficulty=<DifficultyLevel> for a single profile
+ */
+export async function GET(request: Request) {
+  try {
+    const denied = await ApiAuth.requireScope(request, 'dungeons:read');
+    if (denied) {
+      return denied;
+    }
+
+    const { searchParams } = new URL(request.url);
+    const difficulty = searchParams.get('difficulty');
+    
+    const rules = await loadValidationRules();
+    
+    if (difficulty) {
+      if (!DIFFICULTIES.includes(difficulty as DifficultyLevel)) {
+        return NextResponse.json<ApiResponse<null>>({ 
+          success: false,
+          error: `Unknown difficulty: ${difficulty}`
+        }, { status: 404 });
+      }
+      return NextResponse.json<ApiResponse<ValidationRuleProfile>>({ 
+        success: true,
+        data: rules[difficulty as DifficultyLevel]
+      });
+    }
+    
+    return NextResponse.json<ApiResponse<ValidationRuleSet>>({ 
+      success: true,
+      data: rules
+    });
+  } catch (error) {
+    return NextResponse.json<ApiResponse<null>>({ 
+      success: false,
+      error: 'Failed to load validation rules'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/validation-rules
+ * Replaces validation rule profiles
+ * Query params: ?difficulty=<DifficultyLevel> to replace a single profile;
+ * without it the body must contain a profile for every difficulty
+ */
+export async function PUT(request: Request) {
+  try {
+    const denied = await ApiAuth.requireScope(request, 'dungeons:write');
+    if (denied) {
+      return denied;
+    }
+
+    const { searchParams } = new URL(request.url);
+    const difficulty = searchParams.get('difficulty');
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json<ApiResponse<null>>({ 
+        success: false,
+        error: 'Request body must be valid JSON'
+      }, { status: 400 });
+    }
+    
+    if (difficulty && !DIFFICULTIES.includes(difficulty as DifficultyLevel)) {
+      return NextResponse.json<ApiResponse<null>>({ 
+        success: false,
+        error: `Unknown difficulty: ${difficulty}`
+      }, { status: 404 });
+    }
+    
+    const rules = await loadValidationRules();
+    const updates: Partial<ValidationRuleSet> = difficulty ? { [difficulty]: body } : (body && typeof body === 'object' ? body : {});
+    
+    // Validate every submitted profile before saving any of them
+    const errors: ValidationError[] = [];
+    for (const level of DIFFICULTIES) {
+      if (!difficulty && !updates[level]) {
+        errors.push({ 
+          severity: 'error', 
+          code: 'invalid_rule_profile', 
+          field: level, 
+          message: `Rule profile for ${level} is required` 
+        });
+        continue;
+      }
+      if (updates[level]) {
+        errors.push(...DungeonValidator.validateRuleProfile(updates[level], level).errors);
+      }
+    }
+    
+    if (errors.length > 0) {
+      return NextResponse.json<ApiResponse<null>>({ 
+        success: false,
+        error: 'Validation failed',
+        errors
+      }, { status: 400 });
+    }
+    
+    // The validated profiles are saved without any other fields the body had
+    const updatedRules: ValidationRuleSet = { ...rules };
+    for (const level of DIFFICULTIES) {
+      if (updates[level]) {
+        updatedRules[level] = DungeonValidator.normalizeRuleProfile(updates[level]);
+      }
+    }
+    await getValidationRuleRepository().saveMany(
+      DIFFICULTIES.filter(level => updates[level]).map(level => ({ ...updatedRules[level], id: level }))
+    );
+    
+    return NextResponse.json<ApiResponse<ValidationRuleSet>>({ 
+      success: true,
+      data: updatedRules
+    });
+  } catch (error) {
+    return NextResponse.json<ApiResponse<null>>({ 
+      success: false,
+      error: 'Failed to update validation rules'
+    }, { status: 500 });
+  }
+}
@@ -1,12 +1,16 @@
 'use client';
 
-import { Room, RoomType } from '@/lib/api';
+import { Room, RoomType, TransitionType, VerticalDirection, DungeonHelpers, DungeonValidator } from '@/lib/api';
+import { DungeonDiffer, DiffChangeType, RoomDiffStatus } from '@/lib/diff';
 
 interface DungeonMapProps {
   rooms: Room[];
   onRoomClick?: (room: Room) => void;
   selectedRoomId?: string;
   gridSize?: { width: number; height: number };
+  // Diff overlay: room status by room ID, connection change by DungeonDiffer.connectionKey
+  highlights?: Record<string, RoomDiffStatus>;
+  connectionHighlights?: Record<string, DiffChangeType>;
 }
 
 const ROOM_TYPE_COLORS: Record<RoomType, string> = {
@@ -31,7 +35,35 @@ const ROOM_TYPE_SYMBOLS: Record<RoomType, string> = {
   empty: '·'
 };
 
-export default function DungeonMap({ rooms, onRoomClick, selectedRoomId, gridSize }: DungeonMapProps) {
+const TRANSITION_SYMBOLS: Record<TransitionType, string> = {
+  stairs: '🪜',
+  ladder: '🧗',
+  pit: '🕳️',
+  teleporter: '🌀'
+};
+
+const VERTICAL_ARROWS: Record<VerticalDirection, string> = {
+  up: '▲',
+  down: '▼'
+};
+
+const MISALIGNED_CONNECTION_COLOR = '#e879f9'; // magenta
+
+const DIFF_COLORS: Record<RoomDiffStatus, string> = {
+  added: '#22c55e',       // green
+  removed: '#ef4444',     // red
+  moved: '#38bdf8',       // sky blue
+  changed: '#facc15'      // yellow
+};
+
+const DIFF_SYMBOLS: Record<RoomDiffStatus, string> = {
+  added: '+',
+  removed: '−',
+  moved: '↔',
+  changed: '✎'
+};
+
+export default function DungeonMap({ rooms, onRoomClick, selectedRoomId, gridSize, highlights, connectionHighlights }: DungeonMapProps) {
   if (!rooms || rooms.length === 0) {
     return (
       <div style={{ padding: '20px', textAlign: 'center', color: '#666' }}>
@@ -72,6 +104,9 @@ export default function DungeonMap({ rooms, onRoomClick, selectedRoomId, gridSiz
           const y = (room.coordinates.y - minY) * cellSize + cellSize / 2;
 
           return room.connections.map((conn, idx) => {
+            // Vertical connections lead off this floor and are shown as room markers instead
+            if (DungeonValidator.isVerticalDirection(conn.direction)) return null;
+
             const targetRoom = rooms.find(r => r.id === conn.targetRoomId);
             if (!targetRoom) return null;
 
@@ -84,19 +119,35 @@ export default function DungeonMap({ rooms, onRoomClick, selectedRoomId, gridSiz
             const length = Math.sqrt(dx * dx + dy * dy);
             const angle = Math.atan2(dy, dx) * 180 / Math.PI;
 
+            // Highlight connections whose direction doesn't match the room positions
+            const misaligned = !DungeonValidator.isConnectionAdjacent(
+              room.coordinates,
+              targetRoom.coordinates,
+              conn.direction
+            );
+            const diffChange = connectionHighlights?.[DungeonDiffer.connectionKey(room.id, conn)];
+
             return (
               <div
                 key={`${room.id}-${conn.targetRoomId}-${idx}`}
+                title={diffChange 
+                  ? `Connection ${conn.direction} ${diffChange}` 
+                  : (misaligned ? `Connection ${conn.direction} does not lead to an adjacent room` : undefined)}
                 style={{
                   position: 'absolute',
                   left: `${x}px`,
                   top: `${y}px`,
                   width: `${length}px`,
                   height: `${connectionWidth}px`,
-                  backgroundColor: conn.locked ? '#dc2626' : (conn.hidden ? '#4b5563' : '#6b7280'),
+                  backgroundColor: diffChange 
+                    ? DIFF_COLORS[diffChange] 
+                    : (misaligned 
+                      ? MISALIGNED_CONNECTION_COLOR 
+                      : (conn.locked ? '#dc2626' : (conn.hidden ? '#4b5563' : '#6b7280'))),
                   transformOrigin: '0 50%',
                   transform: `rotate(${angle}deg)`,
-                  opacity: 0.5,
+                  opacity: misaligned || diffChange ? 1 : 0.5,
+                  zIndex: misaligned || diffChange ? 2 : 0,
                   pointerEvents: 'none'
                 }}
               />
@@ -109,6 +160,12 @@ export default function DungeonMap({ rooms, onRoomClick, selectedRoomId, gridSiz
           const x = (room.coordinates.x - minX) * cellSize;
           const y = (room.coordinates.y - minY) * cellSize;
           const isSelected = selectedRoomId === room.id;
+          const outOfBounds = gridSize !== undefined && (
+            room.coordinates.x < 0 || room.coordinates.x >= gridSize.width ||
+            room.coordinates.y < 0 || room.coordinates.y >= gridSize.height
+          );
+          const verticalConnections = DungeonHelpers.getVerticalConnections(room);
+          const diffStatus = highlights?.[room.id];
 
           return (
             <div
@@ -121,7 +178,11 @@ export default function DungeonMap({ rooms, onRoomClick, selectedRoomId, gridSiz
                 width: `${cellSize - 20}px`,
                 height: `${cellSize - 20}px`,
                 backgroundColor: ROOM_TYPE_COLORS[room.type],
-                border: isSelected ? '3px solid white' : '2px solid #374151',
+                border: isSelected 
+                  ? '3px solid white' 
+                  : (diffStatus 
+                    ? `3px solid ${DIFF_COLORS[diffStatus]}` 
+                    : (outOfBounds ? `2px dashed ${MISALIGNED_CONNECTION_COLOR}` : '2px solid #374151')),
                 borderRadius: '8px',
                 cursor: onRoomClick ? 'pointer' : 'default',
                 display: 'flex',
@@ -129,7 +190,9 @@ export default function DungeonMap({ rooms, onRoomClick, selectedRoomId, gridSiz
                 alignItems: 'center',
                 justifyContent: 'center',
                 transition: 'all 0.2s',
-                boxShadow: isSelected ? '0 0 20px rgba(255,255,255,0.5)' : '0 2px 8px rgba(0,0,0,0.3)',
+                boxShadow: isSelected 
+                  ? '0 0 20px rgba(255,255,255,0.5)' 
+                  : (diffStatus ? `0 0 12px ${DIFF_COLORS[diffStatus]}` : '0 2px 8px rgba(0,0,0,0.3)'),
                 opacity: room.visited ? 0.7 : 1
               }}
               onMouseEnter={(e) => {
@@ -162,6 +225,53 @@ export default function DungeonMap({ rooms, onRoomClick, selectedRoomId, gridSiz
                   {room.monsters.length} 👾
                 </div>
               )}
+              {diffStatus && (
+                <div
+                  title={`Room ${diffStatus}`}
+                  style={{ 
+                    position: 'absolute',
+                    top: '-8px',
+                    left: '-8px',
+                    width: '18px',
+                    height: '18px',
+                    lineHeight: '18px',
+                    textAlign: 'center',
+                    fontSize: '12px',
+                    fontWeight: 'bold',
+                    color: '#111827',
+                    backgroundColor: DIFF_COLORS[diffStatus],
+                    borderRadius: '50%'
+                  }}
+                >
+                  {DIFF_SYMBOLS[diffStatus]}
+                </div>
+              )}
+              {verticalConnections.length > 0 && (
+                <div
+                  title={verticalConnections
+                    .map(conn => `${conn.transition || 'stairs'} ${conn.direction}`)
+                    .join(', ')}
+                  style={{ 
+                    position: 'absolute',
+                    top: '-8px',
+                    right: '-8px',
+                    padding: '1px 4px',
+                    fontSize: '10px',
+                    color: '#f9fafb',
+                    backgroundColor: '#111827',
+                    border: '1px solid #e5e7eb',
+                    borderRadius: '8px',
+                    whiteSpace: 'nowrap'
+                  }}
+                >
+                  {verticalConnections.map((conn, idx) => (
+                    <span key={idx}>
+                      {TRANSITION_SYMBOLS[conn.transition || 'stairs']}
+                      {VERTICAL_ARROWS[conn.direction as VerticalDirection]}
+                    </span>
+                  ))}
+                </div>
+              )}
             </div>
           );
         })}
@@ -237,6 +347,50 @@ export default function DungeonMap({ rooms, onRoomClick, selectedRoomId, gridSiz
               </span>
             </div>
           ))}
+          <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+            <div style={{ 
+              width: '20px',
+              height: `${connectionWidth}px`,
+              backgroundColor: MISALIGNED_CONNECTION_COLOR
+            }} />
+            <span style={{ color: '#d1d5db', fontSize: '12px' }}>
+              misaligned / out of bounds
+            </span>
+          </div>
+          {(highlights || connectionHighlights) && Object.entries(DIFF_COLORS).map(([status, color]) => (
+            <div key={status} style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+              <div style={{ 
+                width: '20px',
+                height: '20px',
+                border: `3px solid ${color}`,
+                borderRadius: '4px',
+                color,
+                fontSize: '12px',
+                fontWeight: 'bold',
+                textAlign: 'center'
+              }}>
+                {DIFF_SYMBOLS[status as RoomDiffStatus]}
+              </div>
+              <span style={{ 
+                color: '#d1d5db',
+                fontSize: '12px',
+                textTransform: 'capitalize'
+              }}>
+                {status}
+              </span>
+            </div>
+          ))}
+          {Object.entries(TRANSITION_SYMBOLS).map(([transition, symbol]) => (
+            <div key={transition} style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+              <span style={{ 
+                color: '#d1d5db',
+                fontSize: '12px',
+                textTransform: 'capitalize'
+              }}>
+                {symbol}{VERTICAL_ARROWS.up}{VERTICAL_ARROWS.down} {transition}
+              </span>
+            </div>
+          ))}
         </div>
       </div>
     </div>
@@ -1,75 +1,233 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { Dungeon, Room, Monster, DungeonHelpers, Direction, RoomType, DifficultyLevel, DungeonFloor } from '@/lib/api';
+import { useState, useEffect, useRef } from 'react';
+import { Dungeon, Room, Monster, DungeonHelpers, Direction, RoomType, DifficultyLevel, DungeonFloor, ValidationError, DungeonImportReport, ImportConflictMode, DungeonRevisionSummary, JsonChange, DungeonSummary, PageInfo } from '@/lib/api';
+import { DungeonDiff, DungeonDiffer, DiffChangeType, RoomDiffStatus } from '@/lib/diff';
+import { ApiClient } from '@/lib/client';
+import { GENERATOR_LIMITS } from '@/lib/generator';
 import DungeonMap from '@/app/components/DungeonMap';
 
+// Dungeons per page on the list view
+const LIST_PAGE_SIZE = 24;
+
 export default function DungeonsPage() {
-  const [dungeons, setDungeons] = useState<Dungeon[]>([]);
+  const [dungeons, setDungeons] = useState<DungeonSummary[]>([]);
+  const [listPage, setListPage] = useState<PageInfo | null>(null);
+  const [listQuery, setListQuery] = useState({
+    q: '',
+    difficulty: '',
+    sort: 'name',
+    order: 'asc'
+  });
   const [selectedDungeon, setSelectedDungeon] = useState<Dungeon | null>(null);
+  // Whether the selected dungeon has been saved before (PUT) or is new (POST)
+  const [selectedIsSaved, setSelectedIsSaved] = useState<boolean>(false);
   const [editingRoom, setEditingRoom] = useState<Room | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string>('');
   const [validationErrors, setValidationErrors] = useState<string[]>([]);
-  const [view, setView] = useState<'list' | 'edit' | 'room'>('list');
+  const [validationWarnings, setValidationWarnings] = useState<string[]>([]);
+  const [view, setView] = useState<'list' | 'edit' | 'room' | 'diff'>('list');
   const [currentFloor, setCurrentFloor] = useState<number>(1);
   const [showMap, setShowMap] = useState<boolean>(true);
-
-  // Load dungeons on component mount
+  const [showGenerator, setShowGenerator] = useState<boolean>(false);
+  const [generatorOptions, setGeneratorOptions] = useState({
+    name: 'Generated Dungeon',
+    difficulty: 'Medium' as DifficultyLevel,
+    level: 1,
+    width: 6,
+    height: 6,
+    floors: 1,
+    seed: ''
+  });
+  const [conflictDungeon, setConflictDungeon] = useState<Dungeon | null>(null);
+  const [importPreview, setImportPreview] = useState<{ name: string; data: any; report: DungeonImportReport } | null>(null);
+  const [importOptions, setImportOptions] = useState({
+    conflictMode: 'skip' as ImportConflictMode,
+    mergeLevels: false
+  });
+  // Revision history of the dungeon being edited; null while the panel is closed
+  const [history, setHistory] = useState<DungeonRevisionSummary[] | null>(null);
+  const [historyChanges, setHistoryChanges] = useState<{ version: number; changes: JsonChange[] } | null>(null);
+  const [showCompare, setShowCompare] = useState<boolean>(false);
+  const [compareIds, setCompareIds] = useState({ a: '', b: '' });
+  // Every dungeon for the compare dropdowns; the list only holds the pages loaded so far
+  const [compareOptions, setCompareOptions] = useState<DungeonSummary[]>([]);
+  // Two dungeons being compared, with the view to return to
+  const [comparison, setComparison] = useState<{
+    a: Dungeon;
+    b: Dungeon;
+    diff: DungeonDiff;
+    returnTo: 'list' | 'edit';
+  } | null>(null);
+  const [compareFloor, setCompareFloor] = useState<number>(1);
+  // Bumped whenever the first page is reloaded, so responses for an older query are dropped
+  const listGeneration = useRef(0);
+
+  // Load dungeons on mount and whenever the list filters change
   useEffect(() => {
     loadDungeons();
-  }, []);
+  }, [listQuery]);
+
+  // Close the history panel when switching to another dungeon
+  useEffect(() => {
+    setHistory(null);
+    setHistoryChanges(null);
+  }, [selectedDungeon?.id]);
 
-  const loadDungeons = async () => {
+  // Loads the first page of dungeon summaries, or appends the page after `cursor`
+  const loadDungeons = async (cursor?: string) => {
+    const generation = cursor ? listGeneration.current : ++listGeneration.current;
     try {
       setLoading(true);
-      const response = await fetch('/api/dungeon');
+      const params = new URLSearchParams({ view: 'summary', limit: String(LIST_PAGE_SIZE), sort: listQuery.sort, order: listQuery.order });
+      if (listQuery.q.trim()) params.set('q', listQuery.q.trim());
+      if (listQuery.difficulty) params.set('difficulty', listQuery.difficulty);
+      if (cursor) params.set('cursor', cursor);
+
+      const response = await ApiClient.fetch(`/api/dungeon?${params}`);
       const result = await response.json();
+      if (generation !== listGeneration.current) return;
       if (result.success) {
-        setDungeons(result.data || []);
+        setDungeons(prev => cursor ? [...prev, ...result.data] : result.data || []);
+        setListPage(result.page || null);
       } else {
         setError(result.error || 'Failed to load dungeons');
       }
     } catch (err) {
-      setError('Failed to load dungeons');
+      if (generation === listGeneration.current) setError('Failed to load dungeons');
     } finally {
-      setLoading(false);
+      if (generation === listGeneration.current) setLoading(false);
+    }
+  };
+
+  // Loads every dungeon summary, unpaged, for the compare dropdowns
+  const loadCompareOptions = async () => {
+    try {
+      const response = await ApiClient.fetch('/api/dungeon?view=summary&sort=name');
+      const result = await response.json();
+      if (result.success) {
+        setCompareOptions(result.data || []);
+      } else {
+        setError(result.error || 'Failed to load dungeons');
+      }
+    } catch (err) {
+      setError('Failed to load dungeons');
+    }
+  };
+
+  const toggleCompare = () => {
+    if (!showCompare) loadCompareOptions();
+    setShowCompare(!showCompare);
+  };
+
+  // Loads a full dungeon; the list only holds summaries
+  const fetchDungeon = async (dungeonId: string): Promise<Dungeon | null> => {
+    try {
+      const response = await ApiClient.fetch(`/api/dungeon?id=${encodeURIComponent(dungeonId)}`);
+      const result = await response.json();
+      if (result.success) {
+        return result.data;
+      }
+      setError(result.error || 'Failed to load dungeon');
+    } catch (err) {
+      setError('Failed to load dungeon');
     }
+    return null;
+  };
+
+  const editDungeon = async (dungeonId: string) => {
+    const dungeon = await fetchDungeon(dungeonId);
+    if (!dungeon) return;
+    setSelectedDungeon(dungeon);
+    setSelectedIsSaved(true);
+    setValidationWarnings([]);
+    setView('edit');
   };
 
+  const formatWarnings = (warnings?: ValidationError[]): string[] =>
+    (warnings || []).map(w => `[${w.severity}] ${w.field}: ${w.message}`);
+
   const createNewDungeon = () => {
     const newDungeon = DungeonHelpers.createEmptyDungeon('New Dungeon');
     setSelectedDungeon(newDungeon);
+    setSelectedIsSaved(false);
+    setValidationWarnings([]);
     setView('edit');
   };
 
-  const saveDungeon = async () => {
-    if (!selectedDungeon) return;
+  const generateDungeon = async () => {
+    try {
+      setLoading(true);
+      const { width, height, seed, ...options } = generatorOptions;
+      const response = await ApiClient.fetch('/api/dungeon/generate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...options,
+          size: { width, height },
+          // Leave the seed out to let the server pick one
+          ...(seed.trim() && { seed: seed.trim() })
+        })
+      });
+      
+      const result = await response.json();
+      
+      if (result.success) {
+        // Generated dungeons aren't saved until the user clicks "Save Dungeon"
+        setSelectedDungeon(result.data);
+        setSelectedIsSaved(false);
+        setValidationWarnings(formatWarnings(result.warnings));
+        setCurrentFloor(1);
+        setShowGenerator(false);
+        setView('edit');
+        setError('');
+      } else {
+        setError(result.error || 'Failed to generate dungeon');
+      }
+    } catch (err) {
+      setError('Failed to generate dungeon');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const saveDungeon = async (dungeon: Dungeon | null = selectedDungeon) => {
+    if (!dungeon) return;
 
     try {
       setLoading(true);
       setValidationErrors([]);
+      setValidationWarnings([]);
+      setConflictDungeon(null);
       
-      const isNew = !dungeons.find(d => d.id === selectedDungeon.id);
+      const isNew = !selectedIsSaved;
       const method = isNew ? 'POST' : 'PUT';
-      const url = isNew ? '/api/dungeon' : `/api/dungeon?id=${selectedDungeon.id}`;
+      const url = isNew ? '/api/dungeon' : `/api/dungeon?id=${dungeon.id}`;
       
-      const response = await fetch(url, {
+      const response = await ApiClient.fetch(url, {
         method,
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(selectedDungeon)
+        // The version we loaded lets the server detect that someone else saved in the meantime
+        body: JSON.stringify(isNew ? dungeon : { ...dungeon, version: dungeon.version ?? 0 })
       });
       
       const result = await response.json();
       
-      if (result.success) {
+      if (response.status === 409 && result.data) {
+        setConflictDungeon(result.data);
+        setError('');
+      } else if (result.success) {
         await loadDungeons();
+        // Warnings don't block the save; they're shown on the list view
+        setValidationWarnings(formatWarnings(result.warnings));
         setSelectedDungeon(null);
         setView('list');
         setError('');
       } else {
+        setValidationWarnings(formatWarnings(result.warnings));
         if (result.errors) {
-          setValidationErrors(result.errors.map((e: any) => `${e.field}: ${e.message}`));
+          setValidationErrors(result.errors.map((e: ValidationError) => `${e.field}: ${e.message}`));
         } else {
           setError(result.error || 'Failed to save dungeon');
         }
@@ -81,12 +239,156 @@ export default function DungeonsPage() {
     }
   };
 
+  // Resolves a save conflict by saving the local copy over the server's newer version
+  const overwriteConflict = () => {
+    if (!selectedDungeon || !conflictDungeon) return;
+    const dungeon = { ...selectedDungeon, version: conflictDungeon.version };
+    setSelectedDungeon(dungeon);
+    saveDungeon(dungeon);
+  };
+
+  // Resolves a save conflict by dropping the local edits in favour of the server copy
+  const reloadConflict = () => {
+    if (!conflictDungeon) return;
+    setSelectedDungeon(conflictDungeon);
+    setConflictDungeon(null);
+    setValidationErrors([]);
+    setValidationWarnings([]);
+  };
+
+  const loadHistory = async (dungeonId: string) => {
+    try {
+      const response = await ApiClient.fetch(`/api/dungeon/history?id=${dungeonId}`);
+      const result = await response.json();
+      if (result.success) {
+        setHistory(result.data || []);
+      } else {
+        setError(result.error || 'Failed to load history');
+      }
+    } catch (err) {
+      setError('Failed to load history');
+    }
+  };
+
+  const toggleHistory = () => {
+    if (!selectedDungeon) return;
+    if (history) {
+      setHistory(null);
+      setHistoryChanges(null);
+    } else {
+      loadHistory(selectedDungeon.id);
+    }
+  };
+
+  // Shows what a revision changed compared to the revision before it
+  const showRevisionChanges = async (version: number, previousVersion: number) => {
+    if (!selectedDungeon) return;
+    try {
+      const response = await ApiClient.fetch(`/api/dungeon/history?id=${selectedDungeon.id}&from=${previousVersion}&to=${version}`);
+      const result = await response.json();
+      if (result.success) {
+        setHistoryChanges({ version, changes: result.data.changes });
+      } else {
+        setError(result.error || 'Failed to load changes');
+      }
+    } catch (err) {
+      setError('Failed to load changes');
+    }
+  };
+
+  const restoreRevision = async (version: number) => {
+    if (!selectedDungeon) return;
+    if (!confirm(`Restore version ${version}? Unsaved changes will be lost.`)) return;
+
+    try {
+      setLoading(true);
+      setConflictDungeon(null);
+      const response = await ApiClient.fetch(`/api/dungeon/history?id=${selectedDungeon.id}&version=${version}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ version: selectedDungeon.version ?? 0 })
+      });
+      const result = await response.json();
+
+      if (response.status === 409 && result.data) {
+        setConflictDungeon(result.data);
+        setError('');
+      } else if (result.success) {
+        setSelectedDungeon(result.data);
+        setValidationErrors([]);
+        setValidationWarnings(formatWarnings(result.warnings));
+        setHistoryChanges(null);
+        setError('');
+        await Promise.all([loadDungeons(), loadHistory(result.data.id)]);
+      } else if (result.errors) {
+        setValidationErrors(result.errors.map((e: ValidationError) => `Version ${version} ${e.field}: ${e.message}`));
+      } else {
+        setError(result.error || 'Failed to restore revision');
+      }
+    } catch (err) {
+      setError('Failed to restore revision');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Compares two dungeons; references are dungeon IDs or "<id>@<version>" for a revision
+  const compareDungeons = async (a: Dungeon, b: Dungeon, refs: { a: string; b: string }, returnTo: 'list' | 'edit') => {
+    try {
+      setLoading(true);
+      const response = await ApiClient.fetch(`/api/dungeon/diff?a=${encodeURIComponent(refs.a)}&b=${encodeURIComponent(refs.b)}`);
+      const result = await response.json();
+      if (result.success) {
+        setComparison({ a, b, diff: result.data, returnTo });
+        const changedFloor = result.data.rooms[0]?.to?.z ?? result.data.rooms[0]?.from?.z;
+        setCompareFloor(changedFloor ?? 1);
+        setView('diff');
+        setError('');
+      } else {
+        setError(result.error || 'Failed to compare dungeons');
+      }
+    } catch (err) {
+      setError('Failed to compare dungeons');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const compareSelected = async () => {
+    const [a, b] = await Promise.all([fetchDungeon(compareIds.a), fetchDungeon(compareIds.b)]);
+    if (!a || !b) return;
+    compareDungeons(a, b, compareIds, 'list');
+  };
+
+  // Compares a revision with the saved dungeon
+  const compareRevision = async (version: number) => {
+    if (!selectedDungeon || !selectedIsSaved) return;
+    const saved = await fetchDungeon(selectedDungeon.id);
+    if (!saved) return;
+    try {
+      const response = await ApiClient.fetch(`/api/dungeon/history?id=${saved.id}&version=${version}`);
+      const result = await response.json();
+      if (!result.success) {
+        setError(result.error || 'Failed to load revision');
+        return;
+      }
+      await compareDungeons(result.data.snapshot, saved, { a: `${saved.id}@${version}`, b: saved.id }, 'edit');
+    } catch (err) {
+      setError('Failed to load revision');
+    }
+  };
+
+  const closeComparison = () => {
+    setView(comparison?.returnTo ?? 'list');
+    setComparison(null);
+  };
+
   const deleteDungeon = async (dungeonId: string) => {
     if (!confirm('Are you sure you want to delete this dungeon?')) return;
 
     try {
       setLoading(true);
-      const response = await fetch(`/api/dungeon?id=${dungeonId}`, {
+      const response = await ApiClient.fetch(`/api/dungeon?id=${dungeonId}`, {
         method: 'DELETE'
       });
       
@@ -105,7 +407,9 @@ export default function DungeonsPage() {
     }
   };
 
-  const exportDungeon = (dungeon: Dungeon) => {
+  const exportDungeon = async (dungeonId: string) => {
+    const dungeon = await fetchDungeon(dungeonId);
+    if (!dungeon) return;
     const dataStr = JSON.stringify({ dungeons: [dungeon] }, null, 2);
     const dataBlob = new Blob([dataStr], { type: 'application/json' });
     const url = URL.createObjectURL(dataBlob);
@@ -116,6 +420,41 @@ export default function DungeonsPage() {
     URL.revokeObjectURL(url);
   };
 
+  // Sends the import file to the server; with preview nothing is saved
+  const requestImport = async (data: any, options: typeof importOptions, preview: boolean) => {
+    const response = await ApiClient.fetch('/api/dungeon/import', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ data, ...options, preview })
+    });
+    return response.json();
+  };
+
+  const previewImport = async (file: { name: string; data: any }, options: typeof importOptions) => {
+    try {
+      setLoading(true);
+      const result = await requestImport(file.data, options, true);
+      if (result.success) {
+        setImportPreview({ ...file, report: result.data });
+        setError('');
+      } else {
+        setImportPreview(null);
+        setError(result.error || 'Failed to read import file');
+      }
+    } catch (err) {
+      setError('Failed to read import file');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateImportOptions = (options: typeof importOptions) => {
+    setImportOptions(options);
+    if (importPreview) {
+      previewImport(importPreview, options);
+    }
+  };
+
   const importDungeon = async () => {
     const input = document.createElement('input');
     input.type = 'file';
@@ -124,63 +463,45 @@ export default function DungeonsPage() {
       const file = (e.target as HTMLInputElement).files?.[0];
       if (!file) return;
 
+      let data: any;
       try {
-        const text = await file.text();
-        const data = JSON.parse(text);
-        
-        // Try to detect and convert legacy format
-        let importedDungeons: Dungeon[] = [];
-        
-        // Check if it's legacy format (has numeric room IDs and different structure)
-        if (data.dungeons && Array.isArray(data.dungeons)) {
-          const firstDungeon = data.dungeons[0];
-          const firstRoom = firstDungeon?.rooms?.[0];
-          
-          // Detect legacy format by checking for numeric room ID and x/y coordinates
-          if (firstRoom && typeof firstRoom.id === 'number' && 
-              'x' in firstRoom && 'y' in firstRoom) {
-            // Convert legacy format
-            importedDungeons = DungeonHelpers.convertLegacyFormat(data);
-            if (importedDungeons.length > 0) {
-              setError('');
-              setSelectedDungeon(importedDungeons[0]);
-              setView('edit');
-              return;
-            }
-          } else {
-            // Current format
-            importedDungeons = data.dungeons;
-          }
-        } else if (data.id || data.name) {
-          // Single dungeon
-          importedDungeons = [data];
-        }
-        
-        if (importedDungeons.length > 0) {
-          // Process first dungeon only - open it for editing
-          // Note: If file contains multiple dungeons, only the first one is loaded
-          const dungeon = importedDungeons[0];
-          if (!dungeon.id || typeof dungeon.id === 'number') {
-            dungeon.id = DungeonHelpers.generateId();
-          }
-          setSelectedDungeon(dungeon);
-          setView('edit');
-          setError('');
-          
-          // Notify user if multiple dungeons were in the file
-          if (importedDungeons.length > 1) {
-            console.warn(`File contained ${importedDungeons.length} dungeons. Only the first one was imported.`);
-          }
-        } else {
-          setError('No valid dungeons found in file.');
-        }
+        data = JSON.parse(await file.text());
       } catch (err) {
         setError('Failed to import dungeon. Invalid JSON format.');
+        return;
       }
+      await previewImport({ name: file.name, data }, importOptions);
     };
     input.click();
   };
 
+  const confirmImport = async () => {
+    if (!importPreview) return;
+
+    try {
+      setLoading(true);
+      const result = await requestImport(importPreview.data, importOptions, false);
+      if (result.success) {
+        const report: DungeonImportReport = result.data;
+        await loadDungeons();
+        setValidationWarnings(report.results.flatMap(r => formatWarnings(r.warnings).map(w => `${r.name}: ${w}`)));
+        setImportPreview(null);
+        setError(report.imported === 0 ? 'No dungeons were imported.' : '');
+      } else {
+        // On a conflict the other dungeons were saved, so the list changed anyway
+        if (result.data?.conflicts?.length) {
+          await loadDungeons();
+          setImportPreview(null);
+        }
+        setError(result.error || 'Failed to import dungeons');
+      }
+    } catch (err) {
+      setError('Failed to import dungeons');
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const addRoom = () => {
     if (!selectedDungeon) return;
     
@@ -322,15 +643,228 @@ export default function DungeonsPage() {
           <button onClick={createNewDungeon} className="btn-primary">
             Create New Dungeon
           </button>
+          <button onClick={() => setShowGenerator(!showGenerator)} className="btn-secondary">
+            Generate
+          </button>
           <button onClick={importDungeon} className="btn-secondary">
             Import Dungeon
           </button>
+          <button onClick={toggleCompare} className="btn-secondary">
+            Compare
+          </button>
         </div>
       </div>
 
+      {showCompare && (
+        <div className="form-section">
+          <h2>Compare Dungeons</h2>
+          <div className="form-grid">
+            <div className="form-field">
+              <label>Before</label>
+              <select value={compareIds.a} onChange={e => setCompareIds({ ...compareIds, a: e.target.value })}>
+                <option value="">Choose a dungeon</option>
+                {compareOptions.map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+              </select>
+            </div>
+            <div className="form-field">
+              <label>After</label>
+              <select value={compareIds.b} onChange={e => setCompareIds({ ...compareIds, b: e.target.value })}>
+                <option value="">Choose a dungeon</option>
+                {compareOptions.map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+              </select>
+            </div>
+          </div>
+          <button onClick={compareSelected} className="btn-primary" disabled={!compareIds.a || !compareIds.b}>
+            Compare
+          </button>
+        </div>
+      )}
+
+      {showGenerator && (
+        <div className="form-section">
+          <h2>Generate Dungeon</h2>
+          <div className="form-grid">
+            <div className="form-field">
+              <label>Name</label>
+              <input
+                type="text"
+                value={generatorOptions.name}
+                onChange={e => setGeneratorOptions({ ...generatorOptions, name: e.target.value })}
+              />
+            </div>
+            <div className="form-field">
+              <label>Difficulty</label>
+              <select
+                value={generatorOptions.difficulty}
+                onChange={e => setGeneratorOptions({ ...generatorOptions, difficulty: e.target.value as DifficultyLevel })}
+              >
+                <option value="Easy">Easy</option>
+                <option value="Medium">Medium</option>
+                <option value="Hard">Hard</option>
+                <option value="Expert">Expert</option>
+              </select>
+            </div>
+            <div className="form-field">
+              <label>Level</label>
+              <input
+                type="number"
+                value={generatorOptions.level}
+                onChange={e => setGeneratorOptions({ ...generatorOptions, level: parseInt(e.target.value) || 1 })}
+                min="1"
+              />
+            </div>
+            <div className="form-field">
+              <label>Width</label>
+              <input
+                type="number"
+                value={generatorOptions.width}
+                onChange={e => setGeneratorOptions({ ...generatorOptions, width: parseInt(e.target.value) || 1 })}
+                min="1"
+                max={GENERATOR_LIMITS.maxWidth}
+              />
+            </div>
+            <div className="form-field">
+              <label>Height</label>
+              <input
+                type="number"
+                value={generatorOptions.height}
+                onChange={e => setGeneratorOptions({ ...generatorOptions, height: parseInt(e.target.value) || 1 })}
+                min="1"
+                max={GENERATOR_LIMITS.maxHeight}
+              />
+            </div>
+            <div className="form-field">
+              <label>Floors</label>
+              <input
+                type="number"
+                value={generatorOptions.floors}
+                onChange={e => setGeneratorOptions({ ...generatorOptions, floors: parseInt(e.target.value) || 1 })}
+                min="1"
+                max={GENERATOR_LIMITS.maxFloors}
+              />
+            </div>
+            <div className="form-field">
+              <label>Seed (optional)</label>
+              <input
+                type="text"
+                value={generatorOptions.seed}
+                onChange={e => setGeneratorOptions({ ...generatorOptions, seed: e.target.value })}
+                placeholder="Random"
+              />
+            </div>
+          </div>
+          <button onClick={generateDungeon} className="btn-primary">
+            Generate
+          </button>
+        </div>
+      )}
+
+      {importPreview && (
+        <div className="form-section">
+          <h2>Import Preview: {importPreview.name}</h2>
+          <div className="form-grid">
+            <div className="form-field">
+              <label>When an ID already exists</label>
+              <select
+                value={importOptions.conflictMode}
+                onChange={e => updateImportOptions({ ...importOptions, conflictMode: e.target.value as ImportConflictMode })}
+              >
+                <option value="skip">Skip the imported dungeon</option>
+                <option value="overwrite">Overwrite the existing dungeon</option>
+                <option value="rename">Import with a new ID</option>
+              </select>
+            </div>
+            {importPreview.report.format === 'legacy' && (
+              <div className="form-field">
+                <label>
+                  <input
+                    type="checkbox"
+                    checked={importOptions.mergeLevels}
+                    onChange={e => updateImportOptions({ ...importOptions, mergeLevels: e.target.checked })}
+                  />
+                  {' '}Merge levels into one multi-floor dungeon
+                </label>
+              </div>
+            )}
+          </div>
+          <table className="import-table">
+            <thead>
+              <tr>
+                <th>Dungeon</th>
+                <th>Floors</th>
+                <th>Rooms</th>
+                <th>Result</th>
+              </tr>
+            </thead>
+            <tbody>
+              {importPreview.report.results.map(result => (
+                <tr key={result.index}>
+                  <td>{result.name || `Dungeon ${result.index + 1}`}</td>
+                  <td>{result.floors}</td>
+                  <td>{result.rooms}</td>
+                  <td>
+                    <span className={`import-status ${result.status}`}>{result.status}</span>
+                    {result.errors.length > 0 && (
+                      <ul>
+                        {result.errors.map((e, idx) => <li key={idx}>{e.field}: {e.message}</li>)}
+                      </ul>
+                    )}
+                    {result.warnings.length > 0 && <div>{result.warnings.length} warning(s)</div>}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="card-actions">
+            <button onClick={confirmImport} className="btn-primary" disabled={importPreview.report.imported === 0}>
+              Import {importPreview.report.imported} of {importPreview.report.results.length}
+            </button>
+            <button onClick={() => setImportPreview(null)} className="btn-secondary">
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
       {error && <div className="error">{error}</div>}
+      {validationWarnings.length > 0 && (
+        <div className="warning">
+          <strong>Saved with warnings:</strong>
+          <ul>
+            {validationWarnings.map((warning, idx) => (
+              <li key={idx}>{warning}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="list-filters">
+        <input
+          type="search"
+          placeholder="Search by name"
+          value={listQuery.q}
+          onChange={e => setListQuery({ ...listQuery, q: e.target.value })}
+        />
+        <select value={listQuery.difficulty} onChange={e => setListQuery({ ...listQuery, difficulty: e.target.value })}>
+          <option value="">All difficulties</option>
+          <option value="Easy">Easy</option>
+          <option value="Medium">Medium</option>
+          <option value="Hard">Hard</option>
+          <option value="Expert">Expert</option>
+        </select>
+        <select value={listQuery.sort} onChange={e => setListQuery({ ...listQuery, sort: e.target.value })}>
+          <option value="name">Sort by name</option>
+          <option value="level">Sort by level</option>
+          <option value="updatedAt">Sort by last update</option>
+        </select>
+        <select value={listQuery.order} onChange={e => setListQuery({ ...listQuery, order: e.target.value })}>
+          <option value="asc">Ascending</option>
+          <option value="desc">Descending</option>
+        </select>
+        {listPage && <span className="list-count">{listPage.total} dungeons</span>}
+      </div>
 
-      {loading ? (
+      {loading && dungeons.length === 0 ? (
         <div className="loading">Loading dungeons...</div>
       ) : (
         <div className="dungeon-grid">
@@ -343,20 +877,20 @@ export default function DungeonsPage() {
                   {dungeon.difficulty}
                 </span>
                 <span>Level {dungeon.level}</span>
-                <span>{DungeonHelpers.getAllRooms(dungeon).length} rooms</span>
-                {dungeon.floors && dungeon.floors.length > 0 && (
-                  <span>{dungeon.floors.length} floors</span>
+                <span>{dungeon.roomCount} rooms</span>
+                {dungeon.floorCount > 1 && (
+                  <span>{dungeon.floorCount} floors</span>
                 )}
               </div>
               <div className="card-actions">
                 <button 
-                  onClick={() => { setSelectedDungeon(dungeon); setView('edit'); }}
+                  onClick={() => editDungeon(dungeon.id)}
                   className="btn-small"
                 >
                   Edit
                 </button>
                 <button 
-                  onClick={() => exportDungeon(dungeon)}
+                  onClick={() => exportDungeon(dungeon.id)}
                   className="btn-small"
                 >
                   Export
@@ -377,6 +911,14 @@ export default function DungeonsPage() {
           )}
         </div>
       )}
+
+      {listPage?.nextCursor && (
+        <div className="load-more">
+          <button onClick={() => loadDungeons(listPage.nextCursor)} className="btn-secondary" disabled={loading}>
+            {loading ? 'Loading...' : 'Load More'}
+          </button>
+        </div>
+      )}
     </div>
   );
 
@@ -389,15 +931,38 @@ export default function DungeonsPage() {
         <div className="header">
           <h1>Edit Dungeon</h1>
           <div className="actions">
-            <button onClick={() => setView('list')} className="btn-secondary">
+            <button onClick={() => { setConflictDungeon(null); setView('list'); }} className="btn-secondary">
               Cancel
             </button>
-            <button onClick={saveDungeon} className="btn-primary">
+            <button onClick={() => saveDungeon()} className="btn-primary">
               Save Dungeon
             </button>
           </div>
         </div>
 
+        {conflictDungeon && (
+          <div className="warning">
+            <strong>This dungeon was changed by someone else while you were editing it.</strong>
+            <p>
+              The server has version {conflictDungeon.version ?? 0}
+              {conflictDungeon.updatedAt && <> (saved {new Date(conflictDungeon.updatedAt).toLocaleString()})</>}
+              : &quot;{conflictDungeon.name}&quot; with {DungeonHelpers.getAllRooms(conflictDungeon).length} rooms.
+              Your copy has {DungeonHelpers.getAllRooms(selectedDungeon).length} rooms.
+            </p>
+            <div className="card-actions">
+              <button onClick={overwriteConflict} className="btn-small btn-danger">
+                Overwrite with my changes
+              </button>
+              <button onClick={reloadConflict} className="btn-small">
+                Discard my changes and load theirs
+              </button>
+              <button onClick={() => setConflictDungeon(null)} className="btn-small">
+                Keep editing
+              </button>
+            </div>
+          </div>
+        )}
+
         {error && <div className="error">{error}</div>}
         {validationErrors.length > 0 && (
           <div className="error">
@@ -409,6 +974,16 @@ export default function DungeonsPage() {
             </ul>
           </div>
         )}
+        {validationWarnings.length > 0 && (
+          <div className="warning">
+            <strong>Warnings:</strong>
+            <ul>
+              {validationWarnings.map((warning, idx) => (
+                <li key={idx}>{warning}</li>
+              ))}
+            </ul>
+          </div>
+        )}
 
         <div className="form-section">
           <h2>Basic Information</h2>
@@ -477,6 +1052,81 @@ export default function DungeonsPage() {
           </div>
         </div>
 
+        {selectedIsSaved && (
+          <div className="form-section">
+            <div className="section-header">
+              <h2>History</h2>
+              <button onClick={toggleHistory} className="btn-small btn-secondary">
+                {history ? 'Hide History' : 'Show History'}
+              </button>
+            </div>
+
+            {history && (history.length === 0 ? (
+              <p>No revisions recorded yet. One is added every time the dungeon is saved.</p>
+            ) : (
+              <table className="history-table">
+                <thead>
+                  <tr>
+                    <th>Version</th>
+                    <th>Change</th>
+                    <th>Author</th>
+                    <th>Saved</th>
+                    <th></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {history.map((revision, idx) => (
+                    <tr key={revision.id}>
+                      <td>{revision.version}{revision.version === selectedDungeon.version && ' (current)'}</td>
+                      <td>
+                        <span className="revision-action">{revision.action}</span>
+                        {revision.message && <div>{revision.message}</div>}
+                        {historyChanges?.version === revision.version && (
+                          historyChanges.changes.length === 0 ? (
+                            <div className="history-changes">No content changes</div>
+                          ) : (
+                            <ul className="history-changes">
+                              {historyChanges.changes.map((change, changeIdx) => (
+                                <li key={changeIdx}>
+                                  <code>{change.path}</code> {change.type}
+                                  {change.type === 'changed' && typeof change.after !== 'object' && (
+                                    <>: {JSON.stringify(change.before)} → {JSON.stringify(change.after)}</>
+                                  )}
+                                </li>
+                              ))}
+                            </ul>
+                          )
+                        )}
+                      </td>
+                      <td>{revision.author}</td>
+                      <td>{new Date(revision.createdAt).toLocaleString()}</td>
+                      <td>
+                        <div className="card-actions">
+                          {history[idx + 1] && (
+                            <button onClick={() => showRevisionChanges(revision.version, history[idx + 1].version)} className="btn-small">
+                              Changes
+                            </button>
+                          )}
+                          {revision.version !== selectedDungeon.version && (
+                            <>
+                              <button onClick={() => compareRevision(revision.version)} className="btn-small">
+                                Compare
+                              </button>
+                              <button onClick={() => restoreRevision(revision.version)} className="btn-small">
+                                Restore
+                              </button>
+                            </>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ))}
+          </div>
+        )}
+
         {/* Floor Management Section */}
         <div className="form-section">
           <div className="section-header">
@@ -798,11 +1448,185 @@ export default function DungeonsPage() {
     );
   };
 
+  // Render two dungeons side by side with their differences highlighted on the maps
+  const renderDiff = () => {
+    if (!comparison) return null;
+    const { a, b, diff } = comparison;
+
+    const floorNumbers = [...new Set([
+      ...(a.floors?.length ? a.floors.map(f => f.floorNumber) : [1]),
+      ...(b.floors?.length ? b.floors.map(f => f.floorNumber) : [1])
+    ])].sort((x, y) => x - y);
+    const floorRooms = diff.rooms.filter(r => r.from?.z === compareFloor || r.to?.z === compareFloor);
+
+    // Each side shows the changes visible in that dungeon
+    const highlightsFor = (side: 'a' | 'b') => {
+      const rooms: Record<string, RoomDiffStatus> = {};
+      const connections: Record<string, DiffChangeType> = {};
+      for (const room of diff.rooms) {
+        if (room.status !== (side === 'a' ? 'added' : 'removed')) {
+          rooms[room.roomId] = room.status;
+        }
+        for (const change of room.connections) {
+          if (change.type !== (side === 'a' ? 'added' : 'removed')) {
+            const conn = (side === 'a' ? change.before : change.after)!;
+            connections[DungeonDiffer.connectionKey(room.roomId, conn)] = change.type;
+          }
+        }
+      }
+      return { rooms, connections };
+    };
+    const sides = [
+      { label: 'Before', dungeon: a, version: diff.a.version, highlights: highlightsFor('a') },
+      { label: 'After', dungeon: b, version: diff.b.version, highlights: highlightsFor('b') }
+    ];
+    const formatPosition = (c?: { x: number; y: number; z?: number }) => c ? `(${c.x}, ${c.y}) floor ${c.z}` : '';
+
+    return (
+      <div>
+        <div className="header">
+          <h1>Compare Dungeons</h1>
+          <div className="actions">
+            <button onClick={closeComparison} className="btn-secondary">
+              Back
+            </button>
+          </div>
+        </div>
+
+        {diff.identical ? (
+          <div className="info-box">
+            <p>No differences.</p>
+          </div>
+        ) : (
+          <div className="diff-summary">
+            <span className="diff-count added">{diff.summary.roomsAdded} added</span>
+            <span className="diff-count removed">{diff.summary.roomsRemoved} removed</span>
+            <span className="diff-count moved">{diff.summary.roomsMoved} moved</span>
+            <span className="diff-count changed">{diff.summary.roomsChanged} changed</span>
+            <span>{diff.summary.connectionsChanged} connection changes</span>
+            <span>{diff.summary.monstersChanged} monster changes</span>
+            <span>{diff.summary.floorsChanged} floor changes</span>
+          </div>
+        )}
+
+        {(diff.fields.length > 0 || diff.floors.length > 0) && (
+          <div className="form-section">
+            <h2>Dungeon and Floors</h2>
+            <ul className="history-changes">
+              {diff.fields.map((change, idx) => (
+                <li key={idx}>
+                  <code>{change.path}</code>: {JSON.stringify(change.before)} → {JSON.stringify(change.after)}
+                </li>
+              ))}
+              {diff.floors.map(floor => (
+                <li key={floor.floorNumber}>
+                  Floor {floor.floorNumber} ({floor.name}) {floor.type}
+                  {floor.type === 'changed' && floor.fields.map((change, idx) => (
+                    <span key={idx}>; {change.path}: {JSON.stringify(change.before)} → {JSON.stringify(change.after)}</span>
+                  ))}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="form-section">
+          {floorNumbers.length > 1 && (
+            <div className="floor-tabs">
+              {floorNumbers.map(floorNumber => (
+                <button
+                  key={floorNumber}
+                  onClick={() => setCompareFloor(floorNumber)}
+                  className={`floor-tab ${compareFloor === floorNumber ? 'active' : ''}`}
+                >
+                  Floor {floorNumber}
+                </button>
+              ))}
+            </div>
+          )}
+          <div className="diff-maps">
+            {sides.map(side => (
+              <div key={side.label}>
+                <h3>
+                  {side.label}: {side.dungeon.name}
+                  {side.version !== undefined && ` (version ${side.version})`}
+                </h3>
+                <DungeonMap
+                  rooms={DungeonHelpers.getFloorRooms(side.dungeon, compareFloor)}
+                  gridSize={side.dungeon.size}
+                  highlights={side.highlights.rooms}
+                  connectionHighlights={side.highlights.connections}
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="form-section">
+          <h2>Room Changes on Floor {compareFloor} ({floorRooms.length})</h2>
+          {floorRooms.length === 0 ? (
+            <p>No room changes on this floor.</p>
+          ) : (
+            <table className="history-table">
+              <thead>
+                <tr>
+                  <th>Room</th>
+                  <th>Change</th>
+                  <th>Details</th>
+                </tr>
+              </thead>
+              <tbody>
+                {floorRooms.map(room => (
+                  <tr key={room.roomId}>
+                    <td>
+                      <span className={`badge ${room.roomType}`}>{room.roomType}</span> {room.roomId}
+                    </td>
+                    <td>
+                      <span className={`diff-count ${room.status}`}>{room.status}</span>
+                      {room.status === 'moved' && <div>{formatPosition(room.from)} → {formatPosition(room.to)}</div>}
+                    </td>
+                    <td>
+                      <ul className="history-changes">
+                        {room.connections.map((change, idx) => (
+                          <li key={`c-${idx}`}>
+                            Connection {change.direction} → {change.targetRoomId} {change.type}
+                          </li>
+                        ))}
+                        {room.monsters.map(monster => (
+                          <li key={`m-${monster.monsterId}`}>
+                            {monster.name} {monster.type}
+                            {monster.stats.map(stat => (
+                              <span key={stat.stat}>; {stat.stat} {stat.before} → {stat.after}</span>
+                            ))}
+                            {monster.fields.length > 0 && <span>; {monster.fields.map(f => f.path).join(', ')} changed</span>}
+                          </li>
+                        ))}
+                        {room.fields.map((change, idx) => (
+                          <li key={`f-${idx}`}>
+                            <code>{change.path}</code> {change.type}
+                            {change.type === 'changed' && typeof change.after !== 'object' && (
+                              <>: {JSON.stringify(change.before)} → {JSON.stringify(change.after)}</>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    );
+  };
+
   return (
     <div className="container">
       {view === 'list' && renderList()}
       {view === 'edit' && renderEdit()}
       {view === 'room' && renderRoomEdit()}
+      {view === 'diff' && renderDiff()}
 
       <style jsx>{`
         .container {
@@ -890,12 +1714,56 @@ export default function DungeonsPage() {
           margin: 0.5rem 0 0 1.5rem;
         }
 
+        .warning {
+          background: #fefcbf;
+          border: 1px solid #ecc94b;
+          color: #975a16;
+          padding: 1rem;
+          border-radius: 5px;
+          margin-bottom: 1rem;
+        }
+
+        .warning ul {
+          margin: 0.5rem 0 0 1.5rem;
+        }
+
         .loading {
           text-align: center;
           padding: 2rem;
           color: #888;
         }
 
+        .list-filters {
+          display: flex;
+          flex-wrap: wrap;
+          align-items: center;
+          gap: 0.75rem;
+          margin-bottom: 1.5rem;
+        }
+
+        .list-filters input,
+        .list-filters select {
+          padding: 0.5rem 0.75rem;
+          border: 1px solid #4a5568;
+          border-radius: 5px;
+          background: #2d3748;
+          color: white;
+        }
+
+        .list-filters input {
+          flex: 1;
+          min-width: 200px;
+        }
+
+        .list-count {
+          color: #a0aec0;
+        }
+
+        .load-more {
+          text-align: center;
+          margin-top: 1.5rem;
+        }
+
         .dungeon-grid {
           display: grid;
           grid-template-columns: repeat(auto-fill, minmax(300px, 1fr));
@@ -951,6 +1819,73 @@ export default function DungeonsPage() {
           gap: 0.5rem;
         }
 
+        .import-table, .history-table {
+          width: 100%;
+          border-collapse: collapse;
+          margin-bottom: 1rem;
+        }
+
+        .import-table th, .import-table td, .history-table th, .history-table td {
+          text-align: left;
+          padding: 0.5rem;
+          border-bottom: 1px solid #4a5568;
+          vertical-align: top;
+        }
+
+        .import-table ul {
+          margin: 0.25rem 0 0 1.25rem;
+          color: #fc8181;
+        }
+
+        .import-status {
+          font-weight: 600;
+          text-transform: capitalize;
+        }
+
+        .import-status.created, .import-status.overwritten, .import-status.renamed { color: #48bb78; }
+        .import-status.skipped { color: #ecc94b; }
+        .import-status.invalid, .import-status.conflict { color: #fc8181; }
+
+        .diff-summary {
+          display: flex;
+          flex-wrap: wrap;
+          gap: 1rem;
+          margin-bottom: 1.5rem;
+          color: #a0aec0;
+        }
+
+        .diff-count {
+          font-weight: 600;
+          text-transform: capitalize;
+        }
+
+        .diff-count.added { color: #22c55e; }
+        .diff-count.removed { color: #ef4444; }
+        .diff-count.moved { color: #38bdf8; }
+        .diff-count.changed { color: #facc15; }
+
+        .diff-maps {
+          display: grid;
+          grid-template-columns: repeat(auto-fit, minmax(420px, 1fr));
+          gap: 1rem;
+        }
+
+        .diff-maps h3 {
+          margin-bottom: 0.5rem;
+        }
+
+        .revision-action {
+          font-weight: 600;
+          text-transform: capitalize;
+        }
+
+        .history-changes {
+          margin: 0.25rem 0 0 1.25rem;
+          font-size: 0.85rem;
+          color: #a0aec0;
+          word-break: break-word;
+        }
+
         .empty-state {
           text-align: center;
           padding: 3rem;
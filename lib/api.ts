@@ -11,9 +11,25 @@
 export type DifficultyLevel = 'Easy' | 'Medium' | 'Hard' | 'Expert';
 
 /**
- * Cardinal directions for room connections
+ * Cardinal directions for connections between rooms on the same floor
  */
-export type Direction = 'north' | 'south' | 'east' | 'west';
+export type CardinalDirection = 'north' | 'south' | 'east' | 'west';
+
+/**
+ * Vertical directions for connections between floors
+ * Floor numbers increase going up, so 'up' targets a higher floorNumber
+ */
+export type VerticalDirection = 'up' | 'down';
+
+/**
+ * Directions for room connections
+ */
+export type Direction = CardinalDirection | VerticalDirection;
+
+/**
+ * Kinds of vertical transition between floors
+ */
+export type TransitionType = 'stairs' | 'ladder' | 'pit' | 'teleporter';
 
 /**
  * Room types in a dungeon
@@ -51,10 +67,19 @@ export interface Puzzle {
   type: string;
   difficulty: DifficultyLevel;
   description: string;
+  question?: string; // Question posed to the player, when it differs from the description
   solution?: string;
   reward?: string;
 }
 
+/**
+ * Outcome of a story choice
+ */
+export interface StoryOutcome {
+  description: string;
+  effect?: string;
+}
+
 /**
  * Story event
  */
@@ -64,8 +89,19 @@ export interface StoryEvent {
   description: string;
   choices?: string[];
   consequences?: string[];
+  outcomes?: (StoryOutcome | null)[]; // Structured outcome for each choice (null if the choice has none)
 }
 
+/**
+ * Kind of written lore
+ */
+export type LoreType = 'journal' | 'inscription' | 'fragment' | 'document';
+
+/**
+ * Lore subject category
+ */
+export type LoreCategory = 'history' | 'warning' | 'magic' | 'personal' | 'mundane' | 'mythology' | 'exploration';
+
 /**
  * Lore entry (internal model)
  */
@@ -74,6 +110,8 @@ export interface Lore {
   title: string;
   content: string;
   discovered?: boolean;
+  type?: LoreType;
+  category?: LoreCategory;
 }
 
 /**
@@ -82,9 +120,9 @@ export interface Lore {
  */
 export interface APILoreEntry {
   title: string;
-  type: 'journal' | 'inscription' | 'fragment' | 'document';
+  type: LoreType;
   text: string;
-  category: 'history' | 'warning' | 'magic' | 'personal' | 'mundane' | 'mythology' | 'exploration';
+  category: LoreCategory;
 }
 
 /**
@@ -115,6 +153,7 @@ export interface RoomConnection {
   targetRoomId: string;
   locked?: boolean;
   hidden?: boolean;
+  transition?: TransitionType; // Only for vertical (up/down) connections
 }
 
 /**
@@ -133,6 +172,12 @@ export interface Room {
   secrets?: Secret[];
   visited?: boolean;
   cleared?: boolean;
+  // Game-client (API format) details, kept so imported rooms export unchanged
+  clientId?: number;      // Numeric room ID
+  clientType?: string;    // Room type with no RoomType equivalent (e.g. 'lore', 'story')
+  isMiniBoss?: boolean;
+  isTrap?: boolean;
+  isRewardRoom?: boolean;
 }
 
 /**
@@ -143,6 +188,7 @@ export interface DungeonFloor {
   name: string;
   description: string;
   rooms: Room[];
+  clientFloorNumber?: number; // z of the floor in an imported client-format file, when it isn't floorNumber
 }
 
 /**
@@ -163,6 +209,42 @@ export interface Dungeon {
   floors?: DungeonFloor[]; // Multi-floor support
   createdAt?: string;
   updatedAt?: string;
+  version?: number; // Incremented on every save; used to detect conflicting edits
+}
+
+/**
+ * What produced a dungeon revision
+ */
+export type RevisionAction = 'baseline' | 'create' | 'update' | 'import' | 'restore' | 'delete';
+
+/**
+ * A saved version of a dungeon, recorded on every save
+ */
+export interface DungeonRevision {
+  id: string;
+  dungeonId: string;
+  version: number;      // The dungeon's version after this save; a delete takes the next version too
+  author: string;
+  createdAt: string;
+  action: RevisionAction;
+  message?: string;
+  snapshot: Dungeon;    // Full dungeon as saved; for a delete, as it was when deleted
+}
+
+/**
+ * A revision without its snapshot, as listed by GET /api/dungeon/history
+ */
+export type DungeonRevisionSummary = Omit<DungeonRevision, 'snapshot'>;
+
+/**
+ * One changed value between two JSON documents
+ * Paths use dots for fields and [id] (or [index]) for array items, e.g. rooms[room-001].description
+ */
+export interface JsonChange {
+  path: string;
+  type: 'added' | 'removed' | 'changed';
+  before?: unknown;
+  after?: unknown;
 }
 
 // ============================================================================
@@ -191,6 +273,7 @@ export interface APIMonsterData {
  */
 export interface APIPuzzle {
   type: string;
+  difficulty?: DifficultyLevel;
   description: string;
   question?: string;
   answer?: string;
@@ -233,6 +316,7 @@ export interface APIRoomData {
   description: string;
   x: number;
   y: number;
+  z?: number; // Floor number, for multi-floor dungeons
   connections: Direction[];
   secret?: APIRoomSecret | null;
   loreEntry?: APILoreEntry | null;
@@ -244,20 +328,158 @@ export interface APIRoomData {
   isRewardRoom: boolean;
 }
 
+/**
+ * API Dungeon Data
+ * A dungeon in the game-client format, as read by convertLegacyFormat
+ * and written by convertToApiFormat
+ */
+export interface APIDungeonData {
+  name?: string;
+  difficulty?: DifficultyLevel;
+  description?: string;
+  level: number;
+  size: number;
+  rooms: APIRoomData[];
+}
+
+/**
+ * Options for DungeonHelpers.convertLegacyFormat
+ */
+export interface LegacyImportOptions {
+  mergeLevels?: boolean; // Combine all legacy dungeons into one dungeon with a floor per level
+  name?: string;         // Name for the merged dungeon (defaults to the first level's name)
+}
+
+/**
+ * How an import handles a dungeon whose ID is already in use
+ */
+export type ImportConflictMode = 'skip' | 'overwrite' | 'rename';
+
+/**
+ * Outcome for one dungeon in an import
+ */
+export type ImportStatus = 'created' | 'overwritten' | 'renamed' | 'skipped' | 'invalid' | 'conflict';
+
+/**
+ * Per-dungeon result of POST /api/dungeon/import
+ */
+export interface DungeonImportResult {
+  index: number;         // Position of the dungeon in the imported file
+  id: string;            // ID the dungeon is (or would be) saved under
+  originalId?: string;   // ID from the file, when the dungeon was given a new one
+  name: string;
+  floors: number;
+  rooms: number;
+  status: ImportStatus;
+  errors: ValidationError[];
+  warnings: ValidationError[];
+}
+
+/**
+ * Report returned by POST /api/dungeon/import
+ */
+export interface DungeonImportReport {
+  format: 'current' | 'legacy';
+  preview: boolean;      // True when nothing was saved
+  imported: number;      // Dungeons saved (or that would be saved, for a preview)
+  conflicts: string[];   // IDs that were changed by someone else during the import, so weren't saved
+  results: DungeonImportResult[];
+}
+
+/**
+ * Validation severity
+ * Only 'error' blocks a save; 'warning' and 'info' are reported alongside a successful save
+ */
+export type ValidationSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * Identifies the validation rule that produced a validation error
+ */
+export type ValidationRuleCode =
+  | 'required_field'
+  | 'rooms_required'
+  | 'entrance_required'
+  | 'boss_required'
+  | 'depth_mismatch'
+  | 'duplicate_coordinates'
+  | 'invalid_connection_target'
+  | 'missing_reciprocal'
+  | 'invalid_transition'
+  | 'cross_floor_connection'
+  | 'vertical_direction_mismatch'
+  | 'not_adjacent'
+  | 'out_of_bounds'
+  | 'unreachable_room'
+  | 'boss_unreachable'
+  | 'restricted_room'
+  | 'dead_end'
+  | 'min_room_type'
+  | 'invalid_monster_stats'
+  | 'monster_level_range'
+  | 'invalid_rule_profile';
+
 /**
  * Validation error
  */
 export interface ValidationError {
   field: string;
   message: string;
+  severity: ValidationSeverity;
+  code: ValidationRuleCode;
 }
 
 /**
  * Validation result
+ * `errors` holds blocking problems; `warnings` holds warning and info level findings
  */
 export interface ValidationResult {
   valid: boolean;
   errors: ValidationError[];
+  warnings: ValidationError[];
+}
+
+/**
+ * Validation rule profile applied to dungeons of one difficulty
+ */
+export interface ValidationRuleProfile {
+  monsterLevelWindow: {
+    below: number; // How many levels below the dungeon level a monster may be
+    above: number; // How many levels above the dungeon level a monster may be
+  };
+  minRoomsByType: Partial<Record<RoomType, number>>; // e.g. { entrance: 1, boss: 1, rest: 1 }
+}
+
+/**
+ * Validation rule profiles keyed by difficulty
+ */
+export type ValidationRuleSet = Record<DifficultyLevel, ValidationRuleProfile>;
+
+/**
+ * A stored rule profile; its ID is the difficulty it applies to
+ */
+export interface StoredValidationRuleProfile extends ValidationRuleProfile {
+  id: DifficultyLevel;
+}
+
+/**
+ * Rule profile used when no profile is configured for a difficulty
+ */
+export const DEFAULT_VALIDATION_RULE_PROFILE: ValidationRuleProfile = {
+  monsterLevelWindow: { below: 2, above: 2 },
+  minRoomsByType: { entrance: 1, boss: 1 }
+};
+
+/**
+ * Connectivity analysis of a dungeon's room graph
+ */
+export interface ConnectivityReport {
+  entranceRoomIds: string[];
+  bossRoomIds: string[];
+  unreachableRoomIds: string[];   // Not reachable from any entrance
+  restrictedRoomIds: string[];    // Reachable only through locked or hidden connections
+  deadEndRoomIds: string[];       // Rooms with a single neighbour (entrances and bosses excluded)
+  shortestBossPath: string[] | null; // Room IDs from an entrance to the nearest boss room
+  errors: ValidationError[];
 }
 
 /**
@@ -268,6 +490,106 @@ export interface ApiResponse<T> {
   data?: T;
   error?: string;
   errors?: ValidationError[];
+  warnings?: ValidationError[];
+  page?: PageInfo; // Only on paginated lists
+}
+
+/**
+ * Position of a page in a paginated list
+ */
+export interface PageInfo {
+  total: number;          // Items matching the filters, across all pages
+  limit?: number;         // Page size; absent when every item was returned
+  nextCursor?: string;    // Pass as ?cursor= to get the next page; absent on the last page
+}
+
+/**
+ * Lightweight dungeon listing, returned by GET /api/dungeon?view=summary
+ */
+export interface DungeonSummary {
+  id: string;
+  name: string;
+  description: string;
+  difficulty: DifficultyLevel;
+  level: number;
+  roomCount: number;
+  floorCount: number;
+  updatedAt?: string;
+}
+
+/**
+ * Dungeon filter; every field is optional and fields combine with AND
+ * Also used by the GET /api/dungeon list query
+ */
+export interface DungeonFilter {
+  difficulties?: DifficultyLevel[];
+  minLevel?: number;
+  maxLevel?: number;
+  text?: string;            // Case-insensitive substring of the dungeon name
+  monster?: string;         // Case-insensitive substring of a monster name in any room
+  roomTypes?: RoomType[];   // Dungeon must contain a room of every listed type
+}
+
+/**
+ * What a custom endpoint serves:
+ * - dungeon: one dungeon (dungeonId)
+ * - collection: a fixed list of dungeons (dungeonIds)
+ * - filter: every dungeon matching `filter`
+ * - daily: one dungeon per day, picked with a seed from the date out of dungeonIds, `filter` matches or all dungeons
+ */
+export type EndpointSource = 'dungeon' | 'collection' | 'filter' | 'daily';
+
+/**
+ * Who can call a custom endpoint:
+ * - public: anyone
+ * - key: any valid API key
+ * - keys: only the API keys in allowedKeyIds
+ */
+export type EndpointVisibility = 'public' | 'key' | 'keys';
+
+/**
+ * What an API key may do
+ * - dungeons:read: read dungeons, history, diffs and validation rules
+ * - dungeons:write: create, change, import and delete dungeons, change validation rules
+ * - endpoints:manage: create, change and delete custom endpoint configurations
+ * - keys:manage: create, change and delete API keys
+ */
+export type ApiKeyScope = 'dungeons:read' | 'dungeons:write' | 'endpoints:manage' | 'keys:manage';
+
+/**
+ * API key; only a hash of the secret is stored, the secret is shown once when the key is created
+ */
+export interface ApiKey {
+  id: string;
+  name: string;
+  prefix: string;         // Start of the secret, to recognise the key in lists
+  secretHash: string;     // SHA-256 of the secret, hex
+  scopes: ApiKeyScope[];
+  enabled: boolean;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+/**
+ * API key as returned by /api/keys, without the secret hash
+ */
+export type ApiKeyInfo = Omit<ApiKey, 'secretHash'>;
+
+/**
+ * A token bucket: holds `requests` tokens, refills completely in `windowSeconds`, and each request takes one
+ * A long window works as a quota, e.g. 1000 requests per 86400 seconds
+ */
+export interface RateLimitRule {
+  requests: number;
+  windowSeconds: number;
+}
+
+/**
+ * Rate limits of a custom endpoint; a request must pass every configured bucket
+ */
+export interface EndpointRateLimit {
+  endpoint?: RateLimitRule;  // Shared by every caller
+  perKey?: RateLimitRule;    // One bucket per API key; requests without a key share one bucket per IP address
 }
 
 /**
@@ -278,13 +600,72 @@ export interface ApiEndpointConfig {
   id: string;
   name: string;
   path: string;              // e.g., "/api/custom/my-dungeon"
-  dungeonId: string;         // ID of the dungeon to serve
+  source?: EndpointSource;   // Defaults to 'dungeon'
+  dungeonId?: string;        // dungeon: ID of the dungeon to serve
+  dungeonIds?: string[];     // collection: dungeons to serve, in this order; daily: dungeons to rotate through
+  filter?: DungeonFilter;    // filter: dungeons to serve; daily: dungeons to rotate through
+  seed?: string;             // daily: combined with the date to pick the dungeon (defaults to the endpoint ID)
+  visibility?: EndpointVisibility; // Defaults to 'public'
+  allowedKeyIds?: string[];  // keys visibility: IDs of the API keys that may call the endpoint
+  rateLimit?: EndpointRateLimit; // No limits when unset
   description?: string;
   enabled: boolean;
   createdAt?: string;
   updatedAt?: string;
 }
 
+/**
+ * One request to a custom endpoint, recorded for usage analytics
+ */
+export interface EndpointHit {
+  endpointId: string;
+  timestamp: string;
+  status: number;
+  latencyMs: number;
+  keyId?: string;        // API key the request was sent with, if it was valid
+  resource: string;      // Path below the endpoint, e.g. /rooms/room-boss-001; / for the endpoint itself
+}
+
+/**
+ * The requests to one custom endpoint during one hour; hits are stored rolled up into these
+ */
+export interface EndpointUsageBucket {
+  id: string;                          // `${endpointId}@${hour}`
+  endpointId: string;
+  hour: string;                        // Start of the hour, ISO 8601
+  requests: number;
+  errors: number;                      // Responses with status 400 or above
+  latencies: Record<string, number>;   // Requests per latency bound in ms (see USAGE_LATENCY_BOUNDS)
+  statuses: Record<string, number>;    // Requests per status code
+  resources: Record<string, number>;   // Requests per path; past USAGE_MAX_RESOURCES paths the rest count as '(other)'
+  keys: Record<string, number>;        // Requests per API key ID
+  lastHitAt: string;
+}
+
+/**
+ * Time windows the usage dashboard can show
+ */
+export type UsageWindow = '1h' | '24h' | '7d' | '30d';
+
+/**
+ * Usage of one custom endpoint over a time window
+ */
+export interface EndpointUsageStats {
+  endpointId: string;
+  requests: number;
+  errors: number;        // Responses with status 400 or above
+  errorRate: number;     // errors / requests; 0 without requests
+  latencyMs: {           // Nearest-rank percentiles, rounded up to a latency bound; 0 without requests
+    p50: number;
+    p95: number;
+    p99: number;
+  };
+  statuses: Record<string, number>;                       // Requests per status code
+  resources: { resource: string; requests: number }[];    // Most requested paths first
+  keys: { keyId: string; requests: number }[];            // Requests per API key, most first
+  lastHitAt?: string;
+}
+
 /**
  * Dungeon validation rules
  */
@@ -292,8 +673,9 @@ export class DungeonValidator {
   /**
    * Validates a complete dungeon structure
    */
-  static validateDungeon(dungeon: Dungeon): ValidationResult {
+  static validateDungeon(dungeon: Dungeon, rules?: Partial<ValidationRuleSet>): ValidationResult {
     const errors: ValidationError[] = [];
+    const profile = this.getRuleProfile(dungeon.difficulty, rules);
 
     // Determine if using multi-floor or legacy single-floor structure
     const allRooms: Room[] = [];
@@ -305,8 +687,10 @@ export class DungeonValidator {
       }
       
       // Validate that depth matches number of floors
-      if (dungeon.size.depth && dungeon.size.depth !== dungeon.floors.length) {
+      if (dungeon.size?.depth && dungeon.size.depth !== dungeon.floors.length) {
         errors.push({ 
+          severity: 'error',
+          code: 'depth_mismatch',
           field: 'size.depth', 
           message: `Dungeon depth (${dungeon.size.depth}) should match number of floors (${dungeon.floors.length})` 
         });
@@ -315,21 +699,24 @@ export class DungeonValidator {
       // Legacy single-floor structure
       allRooms.push(...dungeon.rooms);
     } else {
-      errors.push({ field: 'rooms', message: 'Dungeon must have at least one floor with rooms' });
-      return { valid: false, errors };
-    }
-
-    // Check for at least one entrance room
-    const entranceRooms = allRooms.filter(room => room.type === 'entrance');
-    if (entranceRooms.length === 0) {
-      errors.push({ field: 'rooms', message: 'Dungeon must have at least one entrance room' });
+      errors.push({ severity: 'error', code: 'rooms_required', field: 'rooms', message: 'Dungeon must have at least one floor with rooms' });
+      return this.toResult(errors);
     }
 
-    // Check for at least one boss room
-    const bossRooms = allRooms.filter(room => room.type === 'boss');
-    if (bossRooms.length === 0) {
-      errors.push({ field: 'rooms', message: 'Dungeon must have at least one boss room' });
+    // Check the minimum room counts of the difficulty's rule profile (entrance and boss by default)
+    for (const [type, min] of Object.entries(profile.minRoomsByType) as [RoomType, number][]) {
+      const count = allRooms.filter(room => room.type === type).length;
+      if (count < min) {
+        errors.push({ 
+          severity: 'error',
+          code: type === 'entrance' ? 'entrance_required' : (type === 'boss' ? 'boss_required' : 'min_room_type'),
+          field: 'rooms', 
+          message: `Dungeon must have at least ${min === 1 ? 'one' : min} ${type} room${min === 1 ? '' : 's'}` +
+            (count > 0 ? ` (found ${count})` : '')
+        });
+      }
     }
+    const entranceRooms = allRooms.filter(room => room.type === 'entrance');
 
     // Validate unique coordinates
     const coordinateSet = new Set<string>();
@@ -337,6 +724,8 @@ export class DungeonValidator {
       const coordKey = `${room.coordinates.x},${room.coordinates.y},${room.coordinates.z || 0}`;
       if (coordinateSet.has(coordKey)) {
         errors.push({ 
+          severity: 'error',
+          code: 'duplicate_coordinates',
           field: `room.${room.id}.coordinates`, 
           message: `Duplicate coordinates found at (${room.coordinates.x}, ${room.coordinates.y}, ${room.coordinates.z || 0})` 
         });
@@ -346,38 +735,72 @@ export class DungeonValidator {
 
     // Validate reciprocal connections
     const roomMap = new Map(allRooms.map(room => [room.id, room]));
+    const roomFloors = this.getRoomFloorMap(dungeon);
     for (const room of allRooms) {
-      for (const connection of room.connections) {
+      for (const connection of room.connections ?? []) {
         const targetRoom = roomMap.get(connection.targetRoomId);
         if (!targetRoom) {
           errors.push({ 
+            severity: 'error',
+            code: 'invalid_connection_target',
             field: `room.${room.id}.connections`, 
             message: `Connection to non-existent room: ${connection.targetRoomId}` 
           });
           continue;
         }
 
+        // Check that the connection stays on (or leaves) the floor as its direction implies
+        errors.push(...this.validateConnectionFloors(
+          room.id,
+          connection,
+          roomFloors.get(room.id) ?? 1,
+          roomFloors.get(targetRoom.id) ?? 1
+        ));
+
+        // Pits are one-way drops, so they don't need a way back up
+        if (connection.transition === 'pit') {
+          continue;
+        }
+
         // Check for reciprocal connection
         const oppositeDirection = this.getOppositeDirection(connection.direction);
-        const reciprocalConnection = targetRoom.connections.find(
-          conn => conn.direction === oppositeDirection && conn.targetRoomId === room.id
+        const reciprocalConnection = (targetRoom.connections ?? []).find(
+          conn => conn.direction === oppositeDirection && 
+            conn.targetRoomId === room.id &&
+            conn.transition === connection.transition
         );
         
         if (!reciprocalConnection) {
+          const transitionLabel = connection.transition ? ` via ${connection.transition}` : '';
           errors.push({ 
+            severity: 'error',
+            code: 'missing_reciprocal',
             field: `room.${room.id}.connections`, 
-            message: `Missing reciprocal connection from room ${connection.targetRoomId} (${oppositeDirection})` 
+            message: `Missing reciprocal connection from room ${connection.targetRoomId} (${oppositeDirection}${transitionLabel})` 
           });
         }
       }
     }
 
+    // Validate grid bounds and that connections point at adjacent rooms
+    errors.push(...this.validatePlacement(dungeon));
+
+    // Validate that every room, including the boss, can be reached from an entrance
+    // Rooms behind locked/hidden connections and dead ends are reported as info
+    if (entranceRooms.length > 0) {
+      const connectivity = this.analyzeConnectivity(dungeon);
+      errors.push(...connectivity.errors);
+    }
+
     // Validate monster stats scaling based on dungeon level
+    const { below, above } = profile.monsterLevelWindow;
     for (const room of allRooms) {
       if (room.monsters) {
         for (const monster of room.monsters) {
-          if (monster.level < dungeon.level - 2 || monster.level > dungeon.level + 2) {
+          if (monster.level < dungeon.level - below || monster.level > dungeon.level + above) {
             errors.push({ 
+              severity: 'warning',
+              code: 'monster_level_range',
               field: `room.${room.id}.monster.${monster.id}.level`, 
               message: `Monster level ${monster.level} is not appropriate for dungeon level ${dungeon.level}` 
             });
@@ -386,8 +809,154 @@ export class DungeonValidator {
       }
     }
 
+    return this.toResult(errors);
+  }
+
+  /**
+   * Gets the rule profile for a difficulty, falling back to the default profile
+   */
+  static getRuleProfile(difficulty: DifficultyLevel, rules?: Partial<ValidationRuleSet>): ValidationRuleProfile {
+    return rules?.[difficulty] ?? DEFAULT_VALIDATION_RULE_PROFILE;
+  }
+
+  /**
+   * A copy of a valid rule profile with only the fields it defines, so extra keys sent with it aren't stored
+   */
+  static normalizeRuleProfile(profile: ValidationRuleProfile): ValidationRuleProfile {
+    return {
+      monsterLevelWindow: { below: profile.monsterLevelWindow.below, above: profile.monsterLevelWindow.above },
+      minRoomsByType: { ...profile.minRoomsByType }
+    };
+  }
+
+  /**
+   * Validates a rule profile before it is stored
+   */
+  static validateRuleProfile(profile: ValidationRuleProfile, field: string = 'profile'): ValidationResult {
+    const errors: ValidationError[] = [];
+    const roomTypes: RoomType[] = ['entrance', 'boss', 'treasure', 'puzzle', 'combat', 'rest', 'trap', 'empty'];
+    const isCount = (value: unknown) => typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+    if (!profile || typeof profile !== 'object') {
+      errors.push({ severity: 'error', code: 'invalid_rule_profile', field, message: 'Rule profile must be an object' });
+      return this.toResult(errors);
+    }
+
+    if (!profile.monsterLevelWindow || !isCount(profile.monsterLevelWindow.below) || !isCount(profile.monsterLevelWindow.above)) {
+      errors.push({ 
+        severity: 'error',
+        code: 'invalid_rule_profile',
+        field: `${field}.monsterLevelWindow`, 
+        message: 'Monster level window must have non-negative integer below and above values' 
+      });
+    }
+
+    if (!profile.minRoomsByType || typeof profile.minRoomsByType !== 'object') {
+      errors.push({ severity: 'error', code: 'invalid_rule_profile', field: `${field}.minRoomsByType`, message: 'Minimum room counts are required' });
+    } else {
+      for (const [type, min] of Object.entries(profile.minRoomsByType)) {
+        if (!roomTypes.includes(type as RoomType)) {
+          errors.push({ severity: 'error', code: 'invalid_rule_profile', field: `${field}.minRoomsByType.${type}`, message: `Unknown room type: ${type}` });
+        } else if (!isCount(min)) {
+          errors.push({ severity: 'error', code: 'invalid_rule_profile', field: `${field}.minRoomsByType.${type}`, message: 'Minimum room count must be a non-negative integer' });
+        }
+      }
+    }
+
+    return this.toResult(errors);
+  }
+
+  /**
+   * Splits validation findings into blocking errors and non-blocking warnings
+   */
+  static toResult(findings: ValidationError[]): ValidationResult {
+    const errors = findings.filter(finding => finding.severity === 'error');
     return {
       valid: errors.length === 0,
+      errors,
+      warnings: findings.filter(finding => finding.severity !== 'error')
+    };
+  }
+
+  /**
+   * Analyzes the room graph starting from the entrance rooms
+   * Connections are followed in their own direction only, so one-way pits are respected
+   */
+  static analyzeConnectivity(dungeon: Dungeon): ConnectivityReport {
+    const allRooms = DungeonHelpers.getAllRooms(dungeon);
+    const roomMap = new Map(allRooms.map(room => [room.id, room]));
+    const entranceRoomIds = allRooms.filter(room => room.type === 'entrance').map(room => room.id);
+    const bossRoomIds = allRooms.filter(room => room.type === 'boss').map(room => room.id);
+    const errors: ValidationError[] = [];
+
+    // Breadth-first search from every entrance, recording the room we arrived from
+    const traverse = (openOnly: boolean): Map<string, string | null> => {
+      const previous = new Map<string, string | null>(entranceRoomIds.map(id => [id, null]));
+      const queue = [...entranceRoomIds];
+      while (queue.length > 0) {
+        const room = roomMap.get(queue.shift()!)!;
+        for (const connection of room.connections ?? []) {
+          if (openOnly && (connection.locked || connection.hidden)) continue;
+          if (!roomMap.has(connection.targetRoomId) || previous.has(connection.targetRoomId)) continue;
+          previous.set(connection.targetRoomId, room.id);
+          queue.push(connection.targetRoomId);
+        }
+      }
+      return previous;
+    };
+
+    const reachable = traverse(false);
+    const openReachable = traverse(true);
+
+    const unreachableRoomIds = allRooms.filter(room => !reachable.has(room.id)).map(room => room.id);
+    for (const roomId of unreachableRoomIds) {
+      errors.push({ 
+        severity: 'error',
+        code: 'unreachable_room',
+        field: 'rooms.reachability', 
+        message: `Room ${roomId} cannot be reached from any entrance` 
+      });
+    }
+
+    const restrictedRoomIds = allRooms
+      .filter(room => reachable.has(room.id) && !openReachable.has(room.id))
+      .map(room => room.id);
+    for (const roomId of restrictedRoomIds) {
+      errors.push({ 
+        severity: 'info',
+        code: 'restricted_room',
+        field: 'rooms.restricted', 
+        message: `Room ${roomId} can only be reached through locked or hidden connections` 
+      });
+    }
+
+    const deadEndRoomIds = allRooms
+      .filter(room => room.type !== 'entrance' && room.type !== 'boss')
+      .filter(room => new Set((room.connections ?? []).map(conn => conn.targetRoomId)).size === 1)
+      .map(room => room.id);
+    for (const roomId of deadEndRoomIds) {
+      errors.push({ severity: 'info', code: 'dead_end', field: 'rooms.deadEnd', message: `Room ${roomId} is a dead end` });
+    }
+
+    // BFS visits rooms in distance order, so the first reachable boss is the nearest one
+    let shortestBossPath: string[] | null = null;
+    const nearestBossId = [...reachable.keys()].find(id => roomMap.get(id)!.type === 'boss');
+    if (nearestBossId) {
+      shortestBossPath = [];
+      for (let id: string | null = nearestBossId; id !== null; id = reachable.get(id) ?? null) {
+        shortestBossPath.unshift(id);
+      }
+    } else if (bossRoomIds.length > 0 && entranceRoomIds.length > 0) {
+      errors.push({ severity: 'error', code: 'boss_unreachable', field: 'rooms.boss', message: 'No boss room can be reached from an entrance' });
+    }
+
+    return {
+      entranceRoomIds,
+      bossRoomIds,
+      unreachableRoomIds,
+      restrictedRoomIds,
+      deadEndRoomIds,
+      shortestBossPath,
       errors
     };
   }
@@ -400,82 +969,248 @@ export class DungeonValidator {
       north: 'south',
       south: 'north',
       east: 'west',
-      west: 'east'
+      west: 'east',
+      up: 'down',
+      down: 'up'
     };
     return opposites[direction];
   }
 
+  /**
+   * Gets the grid offset of one step in a cardinal direction
+   * North decreases y, matching the top-down layout of the dungeon map
+   */
+  static getDirectionOffset(direction: CardinalDirection): { x: number; y: number } {
+    const offsets: Record<CardinalDirection, { x: number; y: number }> = {
+      north: { x: 0, y: -1 },
+      south: { x: 0, y: 1 },
+      east: { x: 1, y: 0 },
+      west: { x: -1, y: 0 }
+    };
+    return offsets[direction];
+  }
+
+  /**
+   * Checks whether a connection's direction matches the coordinates of its two rooms
+   * Vertical connections may land anywhere on the target floor, so only cardinal ones are checked
+   */
+  static isConnectionAdjacent(from: Coordinates, to: Coordinates, direction: Direction): boolean {
+    if (this.isVerticalDirection(direction)) {
+      return true;
+    }
+    const offset = this.getDirectionOffset(direction);
+    return to.x - from.x === offset.x && to.y - from.y === offset.y;
+  }
+
+  /**
+   * Validates room positions against the dungeon size and connection directions against room positions
+   */
+  static validatePlacement(dungeon: Dungeon): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const allRooms = DungeonHelpers.getAllRooms(dungeon);
+    const roomMap = new Map(allRooms.map(room => [room.id, room]));
+    if (!dungeon.size) {
+      return [{ severity: 'error', code: 'required_field', field: 'size', message: 'Dungeon size (width and height) is required' }];
+    }
+    const { width, height, depth } = dungeon.size;
+
+    for (const room of allRooms) {
+      const { x, y, z } = room.coordinates;
+      if (x < 0 || x >= width || y < 0 || y >= height) {
+        errors.push({ 
+          severity: 'error',
+          code: 'out_of_bounds',
+          field: `room.${room.id}.coordinates`, 
+          message: `Room at (${x}, ${y}) is outside the ${width}x${height} dungeon grid` 
+        });
+      }
+      if (depth && z !== undefined && (z < 1 || z > depth)) {
+        errors.push({ 
+          severity: 'error',
+          code: 'out_of_bounds',
+          field: `room.${room.id}.coordinates`, 
+          message: `Room z-coordinate ${z} is outside the dungeon depth (1-${depth})` 
+        });
+      }
+
+      // A room without connections is treated as having none
+      for (const connection of room.connections ?? []) {
+        const targetRoom = roomMap.get(connection.targetRoomId);
+        if (!targetRoom) continue;
+
+        if (!this.isConnectionAdjacent(room.coordinates, targetRoom.coordinates, connection.direction)) {
+          errors.push({ 
+            severity: 'error',
+            code: 'not_adjacent',
+            field: `room.${room.id}.connections`, 
+            message: `Connection ${connection.direction} to room ${targetRoom.id} at (${targetRoom.coordinates.x}, ${targetRoom.coordinates.y}) is not one step ${connection.direction} of (${x}, ${y})` 
+          });
+        }
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Checks whether a direction moves between floors
+   */
+  static isVerticalDirection(direction: Direction): direction is VerticalDirection {
+    return direction === 'up' || direction === 'down';
+  }
+
+  /**
+   * Validates that a connection's direction agrees with the floors of its two rooms
+   */
+  static validateConnectionFloors(
+    roomId: string,
+    connection: RoomConnection,
+    sourceFloor: number,
+    targetFloor: number
+  ): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const field = `room.${roomId}.connections`;
+
+    if (!this.isVerticalDirection(connection.direction)) {
+      if (connection.transition) {
+        errors.push({ 
+          severity: 'error',
+          code: 'invalid_transition',
+          field, 
+          message: `Transition '${connection.transition}' is only valid on up/down connections (found ${connection.direction})` 
+        });
+      }
+      if (sourceFloor !== targetFloor) {
+        errors.push({ 
+          severity: 'error',
+          code: 'cross_floor_connection',
+          field, 
+          message: `Connection ${connection.direction} to room ${connection.targetRoomId} crosses from floor ${sourceFloor} to floor ${targetFloor}; use an up/down connection instead` 
+        });
+      }
+      return errors;
+    }
+
+    if (connection.transition === 'pit' && connection.direction !== 'down') {
+      errors.push({ severity: 'error', code: 'invalid_transition', field, message: `Pit connection to room ${connection.targetRoomId} must lead down` });
+    }
+
+    if (connection.direction === 'up' && targetFloor <= sourceFloor) {
+      errors.push({ 
+        severity: 'error',
+        code: 'vertical_direction_mismatch',
+        field, 
+        message: `Connection up to room ${connection.targetRoomId} must target a higher floor (floor ${sourceFloor} -> ${targetFloor})` 
+      });
+    }
+    if (connection.direction === 'down' && targetFloor >= sourceFloor) {
+      errors.push({ 
+        severity: 'error',
+        code: 'vertical_direction_mismatch',
+        field, 
+        message: `Connection down to room ${connection.targetRoomId} must target a lower floor (floor ${sourceFloor} -> ${targetFloor})` 
+      });
+    }
+
+    return errors;
+  }
+
+  /**
+   * Maps each room ID to its floor number
+   * Multi-floor dungeons use the floor the room belongs to; legacy dungeons fall back to the z-coordinate
+   */
+  private static getRoomFloorMap(dungeon: Dungeon): Map<string, number> {
+    const floors = new Map<string, number>();
+    if (dungeon.floors && dungeon.floors.length > 0) {
+      for (const floor of dungeon.floors) {
+        for (const room of floor.rooms) {
+          floors.set(room.id, floor.floorNumber);
+        }
+      }
+    } else {
+      for (const room of dungeon.rooms || []) {
+        floors.set(room.id, room.coordinates.z ?? 1);
+      }
+    }
+    return floors;
+  }
+
   /**
    * Validates room structure
    */
-  static validateRoom(room: Room, dungeonLevel: number): ValidationResult {
+  static validateRoom(
+    room: Room, 
+    dungeonLevel: number, 
+    profile: ValidationRuleProfile = DEFAULT_VALIDATION_RULE_PROFILE
+  ): ValidationResult {
     const errors: ValidationError[] = [];
 
     if (!room.id || room.id.trim() === '') {
-      errors.push({ field: 'room.id', message: 'Room ID is required' });
+      errors.push({ severity: 'error', code: 'required_field', field: 'room.id', message: 'Room ID is required' });
     }
 
     if (!room.description || room.description.trim() === '') {
-      errors.push({ field: 'room.description', message: 'Room description is required' });
+      errors.push({ severity: 'error', code: 'required_field', field: 'room.description', message: 'Room description is required' });
     }
 
     if (!room.coordinates) {
-      errors.push({ field: 'room.coordinates', message: 'Room coordinates are required' });
+      errors.push({ severity: 'error', code: 'required_field', field: 'room.coordinates', message: 'Room coordinates are required' });
     }
 
     // Validate monsters if present
     if (room.monsters) {
       for (const monster of room.monsters) {
-        const monsterValidation = this.validateMonster(monster, dungeonLevel);
-        errors.push(...monsterValidation.errors);
+        const monsterValidation = this.validateMonster(monster, dungeonLevel, profile);
+        errors.push(...monsterValidation.errors, ...monsterValidation.warnings);
       }
     }
 
-    return {
-      valid: errors.length === 0,
-      errors
-    };
+    return this.toResult(errors);
   }
 
   /**
    * Validates monster structure
    */
-  static validateMonster(monster: Monster, dungeonLevel: number): ValidationResult {
+  static validateMonster(
+    monster: Monster, 
+    dungeonLevel: number, 
+    profile: ValidationRuleProfile = DEFAULT_VALIDATION_RULE_PROFILE
+  ): ValidationResult {
     const errors: ValidationError[] = [];
+    const { below, above } = profile.monsterLevelWindow;
 
     if (!monster.id || monster.id.trim() === '') {
-      errors.push({ field: 'monster.id', message: 'Monster ID is required' });
+      errors.push({ severity: 'error', code: 'required_field', field: 'monster.id', message: 'Monster ID is required' });
     }
 
     if (!monster.name || monster.name.trim() === '') {
-      errors.push({ field: 'monster.name', message: 'Monster name is required' });
+      errors.push({ severity: 'error', code: 'required_field', field: 'monster.name', message: 'Monster name is required' });
     }
 
     if (!monster.stats) {
-      errors.push({ field: 'monster.stats', message: 'Monster stats are required' });
+      errors.push({ severity: 'error', code: 'required_field', field: 'monster.stats', message: 'Monster stats are required' });
     } else {
       if (monster.stats.health <= 0) {
-        errors.push({ field: 'monster.stats.health', message: 'Monster health must be positive' });
+        errors.push({ severity: 'error', code: 'invalid_monster_stats', field: 'monster.stats.health', message: 'Monster health must be positive' });
       }
       if (monster.stats.attack < 0) {
-        errors.push({ field: 'monster.stats.attack', message: 'Monster attack cannot be negative' });
+        errors.push({ severity: 'error', code: 'invalid_monster_stats', field: 'monster.stats.attack', message: 'Monster attack cannot be negative' });
       }
       if (monster.stats.defense < 0) {
-        errors.push({ field: 'monster.stats.defense', message: 'Monster defense cannot be negative' });
+        errors.push({ severity: 'error', code: 'invalid_monster_stats', field: 'monster.stats.defense', message: 'Monster defense cannot be negative' });
       }
     }
 
-    if (monster.level < dungeonLevel - 2 || monster.level > dungeonLevel + 2) {
+    if (monster.level < dungeonLevel - below || monster.level > dungeonLevel + above) {
       errors.push({ 
+        severity: 'warning',
+        code: 'monster_level_range',
         field: 'monster.level', 
-        message: `Monster level should be within ±2 of dungeon level ${dungeonLevel}` 
+        message: `Monster level should be between ${dungeonLevel - below} and ${dungeonLevel + above} for dungeon level ${dungeonLevel}` 
       });
     }
 
-    return {
-      valid: errors.length === 0,
-      errors
-    };
+    return this.toResult(errors);
   }
 }
 
@@ -490,6 +1225,21 @@ export class DungeonHelpers {
     return `${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
   }
 
+  /**
+   * Derives an ID from content, so the same content always gets the same ID
+   */
+  static contentId(prefix: string, content: unknown): string {
+    const text = JSON.stringify(content) ?? '';
+    // Two FNV-1a hashes with different offsets, for 64 bits
+    let low = 0x811c9dc5;
+    let high = 0x050c5d1f;
+    for (let i = 0; i < text.length; i++) {
+      low = Math.imul(low ^ text.charCodeAt(i), 0x01000193);
+      high = Math.imul(high ^ text.charCodeAt(i), 0x01000193);
+    }
+    return `${prefix}-${(high >>> 0).toString(36)}${(low >>> 0).toString(36)}`;
+  }
+
   /**
    * Creates a new empty dungeon
    */
@@ -528,7 +1278,8 @@ export class DungeonHelpers {
   static addConnection(
     sourceRoom: Room, 
     targetRoom: Room, 
-    direction: Direction
+    direction: Direction,
+    transition?: TransitionType
   ): void {
     const oppositeDirection = DungeonValidator.getOppositeDirection(direction);
     
@@ -538,21 +1289,86 @@ export class DungeonHelpers {
         direction,
         targetRoomId: targetRoom.id,
         locked: false,
-        hidden: false
+        hidden: false,
+        ...(transition && { transition })
       });
     }
     
+    // Pits are one-way, so no reciprocal connection is added
+    if (transition === 'pit') {
+      return;
+    }
+    
     // Add reciprocal connection from target to source
     if (!targetRoom.connections.find(conn => conn.targetRoomId === sourceRoom.id)) {
       targetRoom.connections.push({
         direction: oppositeDirection,
         targetRoomId: sourceRoom.id,
         locked: false,
-        hidden: false
+        hidden: false,
+        ...(transition && { transition })
+      });
+    }
+  }
+
+  /**
+   * Keeps the rooms a room connects to in step with its connections
+   * Targets of new connections get a connection back (except for one-way pits); targets of
+   * removed connections lose theirs. `previous` is the room's connections before the change.
+   */
+  static syncReciprocalConnections(dungeon: Dungeon, room: Room, previous: RoomConnection[] = []): void {
+    const roomMap = new Map(this.getAllRooms(dungeon).map(r => [r.id, r]));
+    const sameConnection = (a: RoomConnection, b: RoomConnection) =>
+      a.direction === b.direction && a.targetRoomId === b.targetRoomId;
+
+    for (const removed of previous.filter(p => !room.connections.some(c => sameConnection(c, p)))) {
+      const target = roomMap.get(removed.targetRoomId);
+      if (!target || room.connections.some(c => c.targetRoomId === target.id)) continue;
+      const opposite = DungeonValidator.getOppositeDirection(removed.direction);
+      target.connections = target.connections.filter(c => !(c.targetRoomId === room.id && c.direction === opposite));
+    }
+
+    for (const added of room.connections.filter(c => !previous.some(p => sameConnection(c, p)))) {
+      const target = roomMap.get(added.targetRoomId);
+      if (!target || added.transition === 'pit' || target.connections.some(c => c.targetRoomId === room.id)) continue;
+      target.connections.push({
+        direction: DungeonValidator.getOppositeDirection(added.direction),
+        targetRoomId: room.id,
+        locked: added.locked ?? false,
+        hidden: added.hidden ?? false,
+        ...(added.transition && { transition: added.transition })
       });
     }
   }
 
+  /**
+   * Removes a room and every connection leading to it
+   * Returns the removed room, or undefined when the dungeon has no room with that ID
+   */
+  static removeRoom(dungeon: Dungeon, roomId: string): Room | undefined {
+    let removed: Room | undefined;
+    const lists = dungeon.floors && dungeon.floors.length > 0 ? dungeon.floors.map(f => f.rooms) : [dungeon.rooms || []];
+    for (const rooms of lists) {
+      const index = rooms.findIndex(r => r.id === roomId);
+      if (index >= 0) {
+        removed = rooms.splice(index, 1)[0];
+      }
+    }
+    if (removed) {
+      for (const room of this.getAllRooms(dungeon)) {
+        room.connections = room.connections.filter(c => c.targetRoomId !== roomId);
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * Gets the vertical (up/down) connections leaving a room
+   */
+  static getVerticalConnections(room: Room): RoomConnection[] {
+    return room.connections.filter(conn => DungeonValidator.isVerticalDirection(conn.direction));
+  }
+
   /**
    * Creates a new empty floor
    */
@@ -638,154 +1454,509 @@ export class DungeonHelpers {
     return floorNumber === 1 ? (dungeon.rooms || []) : [];
   }
 
+  /**
+   * Detects the game-client (legacy) format: numeric room IDs with x/y coordinates
+   */
+  static isLegacyFormat(data: any): boolean {
+    const firstRoom = Array.isArray(data?.dungeons) ? data.dungeons[0]?.rooms?.[0] : undefined;
+    return !!firstRoom && typeof firstRoom.id === 'number' && 'x' in firstRoom && 'y' in firstRoom;
+  }
+
+  /**
+   * Reads every dungeon from an import file in the current format ({ dungeons } or a
+   * single dungeon) or the legacy format, which is converted with convertLegacyFormat
+   */
+  static parseImportFile(data: any, options: LegacyImportOptions = {}): { format: 'current' | 'legacy'; dungeons: Dungeon[] } {
+    if (this.isLegacyFormat(data)) {
+      return { format: 'legacy', dungeons: this.convertLegacyFormat(data, options) };
+    }
+    if (Array.isArray(data?.dungeons)) {
+      return { format: 'current', dungeons: data.dungeons };
+    }
+    if (data && typeof data === 'object' && (data.id || data.name)) {
+      return { format: 'current', dungeons: [data] };
+    }
+    return { format: 'current', dungeons: [] };
+  }
+
   /**
    * Converts legacy dungeon format to current schema
-   * Supports alternative JSON formats with different field structures
+   * Supports alternative JSON formats with different field structures.
+   * Client-only details (numeric IDs, unmapped room types, room flags, lore type/category,
+   * story outcomes) are kept on the model so convertToApiFormat can reproduce the input.
+   * Rooms with a `z` (or `floor`) field are placed on the matching DungeonFloor, and
+   * `mergeLevels` combines every legacy dungeon in the file into one multi-floor dungeon.
+   * IDs are derived from the file's contents, so converting the same file again gives the same IDs.
    */
-  static convertLegacyFormat(legacyData: any): Dungeon[] {
-    const dungeons: Dungeon[] = [];
-    
+  static convertLegacyFormat(legacyData: any, options: LegacyImportOptions = {}): Dungeon[] {
     if (!legacyData.dungeons || !Array.isArray(legacyData.dungeons)) {
-      return dungeons;
-    }
-
-    for (const legacyDungeon of legacyData.dungeons) {
-      // Create dungeon with new schema
-      const dungeon: Dungeon = {
-        id: this.generateId(),
-        name: `Level ${legacyDungeon.level || 1} Dungeon`,
-        difficulty: 'Medium',
-        level: legacyDungeon.level || 1,
-        size: {
-          width: legacyDungeon.size || 10,
-          height: legacyDungeon.size || 10
-        },
-        description: `A level ${legacyDungeon.level || 1} dungeon with ${legacyDungeon.rooms?.length || 0} rooms`,
-        rooms: [],
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString()
-      };
+      return [];
+    }
 
-      // Convert rooms
-      if (legacyDungeon.rooms && Array.isArray(legacyDungeon.rooms)) {
-        const roomIdMap = new Map<number, string>(); // Map old numeric IDs to new string IDs
-
-        // First pass: create rooms and build ID map
-        for (const legacyRoom of legacyDungeon.rooms) {
-          const newRoomId = this.generateId();
-          roomIdMap.set(legacyRoom.id, newRoomId);
-
-          const room: Room = {
-            id: newRoomId,
-            type: this.mapLegacyRoomType(legacyRoom.type),
-            coordinates: {
-              x: legacyRoom.x || 0,
-              y: legacyRoom.y || 0
+    // Legacy connection directions per room, resolved once every room has its floor
+    const pendingConnections = new Map<Room, Direction[]>();
+    let dungeons: Dungeon[] = legacyData.dungeons.map(
+      (legacyDungeon: any, index: number) => this.convertLegacyDungeon(
+        legacyDungeon,
+        this.contentId('legacy', [index, legacyDungeon]),
+        pendingConnections
+      )
+    );
+
+    if (options.mergeLevels && dungeons.length > 1) {
+      dungeons = [this.mergeLegacyLevels(dungeons, options.name)];
+    }
+
+    for (const dungeon of dungeons) {
+      this.resolveLegacyConnections(dungeon, pendingConnections);
+    }
+
+    return dungeons;
+  }
+
+  /**
+   * Converts one legacy dungeon, recording each room's connection directions in `pendingConnections`
+   * Nested IDs are derived from `id` and the room's position in the file.
+   */
+  private static convertLegacyDungeon(legacyDungeon: any, id: string, pendingConnections: Map<Room, Direction[]>): Dungeon {
+    const level = legacyDungeon.level || 1;
+
+    // Create dungeon with new schema
+    const dungeon: Dungeon = {
+      id,
+      name: legacyDungeon.name || `Level ${level} Dungeon`,
+      difficulty: legacyDungeon.difficulty || 'Medium',
+      level,
+      size: {
+        width: legacyDungeon.size || 10,
+        height: legacyDungeon.size || 10
+      },
+      description: legacyDungeon.description ?? `A level ${level} dungeon with ${legacyDungeon.rooms?.length || 0} rooms`,
+      rooms: [],
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString()
+    };
+
+    // Convert rooms
+    if (legacyDungeon.rooms && Array.isArray(legacyDungeon.rooms)) {
+      const roomFloors = new Map<Room, number | undefined>();
+
+      for (const legacyRoom of legacyDungeon.rooms) {
+        const roomId = `${id}-room-${dungeon.rooms.length + 1}`;
+        const room: Room = {
+          id: roomId,
+          type: this.mapLegacyRoomType(legacyRoom.type),
+          coordinates: {
+            x: legacyRoom.x || 0,
+            y: legacyRoom.y || 0
+          },
+          description: legacyRoom.description || '',
+          connections: [],
+          visited: false,
+          cleared: false
+        };
+
+        if (typeof legacyRoom.id === 'number') {
+          room.clientId = legacyRoom.id;
+        }
+        if (legacyRoom.type && legacyRoom.type !== room.type) {
+          room.clientType = legacyRoom.type;
+        }
+        for (const flag of ['isMiniBoss', 'isTrap', 'isRewardRoom'] as const) {
+          if (typeof legacyRoom[flag] === 'boolean') {
+            room[flag] = legacyRoom[flag];
+          }
+        }
+
+        // Convert monsters
+        if (legacyRoom.monsters && Array.isArray(legacyRoom.monsters)) {
+          room.monsters = legacyRoom.monsters.map((legacyMonster: any, index: number) => ({
+            id: `${roomId}-monster-${index + 1}`,
+            name: legacyMonster.name || 'Unknown Monster',
+            type: legacyMonster.specialAbility || 'enemy',
+            stats: {
+              health: legacyMonster.maxHealth ?? 50,
+              attack: legacyMonster.damage ?? 10,
+              defense: legacyMonster.defense ?? 5,
+              speed: legacyMonster.agility ?? 10
             },
-            description: legacyRoom.description || '',
-            connections: [],
-            visited: false,
-            cleared: false
+            level: legacyMonster.level ?? dungeon.level,
+            description: `${legacyMonster.name || 'Unknown Monster'} - Level ${legacyMonster.level ?? dungeon.level}`,
+            loot: legacyMonster.goldValue ? [`${legacyMonster.goldValue} gold`] : []
+          }));
+        }
+
+        // Convert puzzle
+        if (legacyRoom.puzzle) {
+          room.puzzle = {
+            id: `${roomId}-puzzle`,
+            type: legacyRoom.puzzle.type || 'riddle',
+            difficulty: legacyRoom.puzzle.difficulty || dungeon.difficulty,
+            description: legacyRoom.puzzle.description ?? legacyRoom.puzzle.question ?? '',
+            question: legacyRoom.puzzle.question,
+            solution: legacyRoom.puzzle.answer,
+            reward: legacyRoom.puzzle.rewardGold != null ? `${legacyRoom.puzzle.rewardGold} gold` : undefined
           };
+        }
 
-          // Convert monsters
-          if (legacyRoom.monsters && Array.isArray(legacyRoom.monsters)) {
-            room.monsters = legacyRoom.monsters.map((legacyMonster: any) => ({
-              id: this.generateId(),
-              name: legacyMonster.name || 'Unknown Monster',
-              type: legacyMonster.specialAbility || 'enemy',
-              stats: {
-                health: legacyMonster.maxHealth || 50,
-                attack: legacyMonster.damage || 10,
-                defense: legacyMonster.defense || 5,
-                speed: legacyMonster.agility || 10
-              },
-              level: legacyMonster.level || dungeon.level,
-              description: `${legacyMonster.name || 'Unknown Monster'} - Level ${legacyMonster.level || dungeon.level}`,
-              loot: legacyMonster.goldValue ? [`${legacyMonster.goldValue} gold`] : []
-            }));
-          }
+        // Convert story event
+        if (legacyRoom.storyEvent) {
+          const choices: any[] = legacyRoom.storyEvent.choices || [];
+          room.story = {
+            id: `${roomId}-story`,
+            title: legacyRoom.storyEvent.title || 'Story Event',
+            description: legacyRoom.storyEvent.description || '',
+            choices: choices.map((c: any) => c?.text || ''),
+            consequences: choices.map((c: any) => c?.outcome?.description || ''),
+            outcomes: choices.map((c: any) => c?.outcome ? {
+              description: c.outcome.description || '',
+              effect: c.outcome.effect
+            } : null)
+          };
+        }
 
-          // Convert puzzle
-          if (legacyRoom.puzzle) {
-            room.puzzle = {
-              id: this.generateId(),
-              type: legacyRoom.puzzle.type || 'riddle',
-              difficulty: 'Medium',
-              description: legacyRoom.puzzle.description || legacyRoom.puzzle.question || '',
-              solution: legacyRoom.puzzle.answer,
-              reward: legacyRoom.puzzle.rewardGold ? `${legacyRoom.puzzle.rewardGold} gold` : undefined
-            };
-          }
+        // Convert lore entry
+        if (legacyRoom.loreEntry) {
+          room.lore = [{
+            id: `${roomId}-lore`,
+            title: legacyRoom.loreEntry.title || 'Lore Entry',
+            content: legacyRoom.loreEntry.text || '',
+            discovered: false,
+            type: legacyRoom.loreEntry.type,
+            category: legacyRoom.loreEntry.category
+          }];
+        }
 
-          // Convert story event
-          if (legacyRoom.storyEvent) {
-            room.story = {
-              id: this.generateId(),
-              title: legacyRoom.storyEvent.title || 'Story Event',
-              description: legacyRoom.storyEvent.description || '',
-              choices: legacyRoom.storyEvent.choices?.map((c: any) => c?.text || '') || [],
-              consequences: legacyRoom.storyEvent.choices?.map((c: any) => c?.outcome?.description || '') || []
-            };
-          }
+        // Convert secret
+        if (legacyRoom.secret) {
+          room.secrets = [{
+            id: `${roomId}-secret`,
+            type: 'treasure',
+            description: legacyRoom.secret.description || 'A hidden treasure',
+            reward: legacyRoom.secret.rewardGold != null ? `${legacyRoom.secret.rewardGold} gold` : undefined,
+            discoveryMethod: legacyRoom.secret.revealCondition
+          }];
+        }
 
-          // Convert lore entry
-          if (legacyRoom.loreEntry) {
-            room.lore = [{
-              id: this.generateId(),
-              title: legacyRoom.loreEntry.title || 'Lore Entry',
-              content: legacyRoom.loreEntry.text || '',
-              discovered: false
-            }];
-          }
+        const floorNumber = legacyRoom.z ?? legacyRoom.floor;
+        roomFloors.set(room, typeof floorNumber === 'number' ? floorNumber : undefined);
+        pendingConnections.set(room, Array.isArray(legacyRoom.connections) ? legacyRoom.connections : []);
+        dungeon.rooms.push(room);
+      }
 
-          // Convert secret
-          if (legacyRoom.secret) {
-            room.secrets = [{
-              id: this.generateId(),
-              type: 'treasure',
-              description: legacyRoom.secret.description || 'A hidden treasure',
-              reward: legacyRoom.secret.rewardGold ? `${legacyRoom.secret.rewardGold} gold` : undefined
-            }];
-          }
+      // Rooms that name a floor are split onto DungeonFloors (rooms without one go on floor 1)
+      if ([...roomFloors.values()].some(floorNumber => floorNumber !== undefined)) {
+        // Floors are numbered 1, 2, 3... in order of z, so files that start at 0 (or below) or skip
+        // numbers still have one floor per level of depth; each floor keeps its z for the export
+        const legacyFloors = [...new Set([...roomFloors.values()].filter((n): n is number => n !== undefined))]
+          .sort((a, b) => a - b);
+        const floors = legacyFloors.map((legacyFloor, index) => ({
+          ...this.createEmptyFloor(index + 1),
+          ...(legacyFloor !== index + 1 && { clientFloorNumber: legacyFloor })
+        }));
+        for (const room of dungeon.rooms) {
+          const legacyFloor = roomFloors.get(room);
+          const floor = legacyFloor === undefined ? floors[0] : floors[legacyFloors.indexOf(legacyFloor)];
+          room.coordinates.z = floor.floorNumber;
+          floor.rooms.push(room);
+        }
+        dungeon.floors = floors;
+        dungeon.size.depth = floors.length;
+        dungeon.rooms = [];
+      }
+    }
+
+    return dungeon;
+  }
+
+  /**
+   * Stacks several converted legacy dungeons into one multi-floor dungeon, one floor per
+   * legacy level (or per legacy floor), numbered upward from 1 in order of level
+   */
+  private static mergeLegacyLevels(dungeons: Dungeon[], name?: string): Dungeon {
+    const levels = [...dungeons].sort((a, b) => a.level - b.level);
+    const floors: DungeonFloor[] = [];
 
-          dungeon.rooms.push(room);
+    for (const dungeon of levels) {
+      const sourceFloors = dungeon.floors || [{ ...this.createEmptyFloor(1), rooms: dungeon.rooms }];
+      for (const sourceFloor of sourceFloors) {
+        const floorNumber = floors.length + 1;
+        for (const room of sourceFloor.rooms) {
+          room.coordinates.z = floorNumber;
         }
+        // Merged floors are renumbered from 1, so no level's client floor numbers apply
+        floors.push({
+          floorNumber,
+          name: sourceFloors.length > 1 ? `${dungeon.name} - ${sourceFloor.name}` : dungeon.name,
+          description: dungeon.description,
+          rooms: sourceFloor.rooms
+        });
+      }
+    }
 
-        // Second pass: create connections based on legacy connections array
-        for (let i = 0; i < legacyDungeon.rooms.length; i++) {
-          const legacyRoom = legacyDungeon.rooms[i];
-          const room = dungeon.rooms[i];
-
-          if (legacyRoom.connections && Array.isArray(legacyRoom.connections)) {
-            for (const direction of legacyRoom.connections) {
-              // Find the target room based on direction and coordinates
-              const targetRoom = this.findRoomByDirection(
-                dungeon.rooms,
-                room.coordinates,
-                direction as Direction
-              );
-
-              if (targetRoom) {
-                // Add connection if it doesn't exist
-                if (!room.connections.find(conn => conn.targetRoomId === targetRoom.id)) {
-                  room.connections.push({
-                    direction: direction as Direction,
-                    targetRoomId: targetRoom.id,
-                    locked: false,
-                    hidden: false
-                  });
-                }
-              }
-            }
+    // Each legacy level numbers its rooms from 1, so only the first use of a client ID is kept
+    const usedClientIds = new Set<number>();
+    for (const room of floors.flatMap(floor => floor.rooms)) {
+      if (room.clientId === undefined) continue;
+      if (usedClientIds.has(room.clientId)) {
+        delete room.clientId;
+      } else {
+        usedClientIds.add(room.clientId);
+      }
+    }
+
+    const first = levels[0];
+    return {
+      ...first,
+      id: this.contentId('legacy', levels.map(dungeon => dungeon.id)),
+      name: name || first.name,
+      description: `Merged from ${levels.map(dungeon => dungeon.name).join(', ')}`,
+      size: {
+        width: Math.max(...levels.map(dungeon => dungeon.size.width)),
+        height: Math.max(...levels.map(dungeon => dungeon.size.height)),
+        depth: floors.length
+      },
+      rooms: [],
+      floors
+    };
+  }
+
+  /**
+   * Turns the recorded legacy connection directions into room connections. Targets are
+   * looked up by x/y on the room's own floor, or on the floor above/below for up/down.
+   */
+  private static resolveLegacyConnections(dungeon: Dungeon, pendingConnections: Map<Room, Direction[]>): void {
+    const floors = dungeon.floors && dungeon.floors.length > 0
+      ? dungeon.floors
+      : [{ ...this.createEmptyFloor(1), rooms: dungeon.rooms }];
+    const floorRooms = new Map(floors.map(floor => [floor.floorNumber, floor.rooms]));
+
+    for (const floor of floors) {
+      for (const room of floor.rooms) {
+        for (const direction of pendingConnections.get(room) || []) {
+          const targetFloor = direction === 'up' ? floor.floorNumber + 1
+            : direction === 'down' ? floor.floorNumber - 1
+            : floor.floorNumber;
+          // Find the target room based on direction and coordinates
+          const targetRoom = this.findRoomByDirection(floorRooms.get(targetFloor) || [], room.coordinates, direction);
+
+          // Add connection if it doesn't exist
+          if (targetRoom && !room.connections.find(conn => conn.targetRoomId === targetRoom.id)) {
+            room.connections.push({
+              direction,
+              targetRoomId: targetRoom.id,
+              locked: false,
+              hidden: false
+            });
           }
         }
       }
+    }
+  }
+
+  /**
+   * Converts dungeons to the game-client (API) format
+   * The reverse of convertLegacyFormat: rooms keep their imported numeric IDs (others are
+   * numbered with the next free ID) and connections become a list of directions. Rooms on a
+   * known floor carry it as `z` along with their up/down connections; other rooms leave
+   * up/down out because the client resolves connections from x/y coordinates.
+   */
+  static convertToApiFormat(dungeons: Dungeon[]): { dungeons: APIDungeonData[] } {
+    return { dungeons: dungeons.map(dungeon => this.toApiDungeon(dungeon)) };
+  }
+
+  /**
+   * Reduces a dungeon to the fields list screens need
+   */
+  static toSummary(dungeon: Dungeon): DungeonSummary {
+    return {
+      id: dungeon.id,
+      name: dungeon.name,
+      description: dungeon.description,
+      difficulty: dungeon.difficulty,
+      level: dungeon.level,
+      roomCount: this.getAllRooms(dungeon).length,
+      floorCount: dungeon.floors && dungeon.floors.length > 0 ? dungeon.floors.length : 1,
+      updatedAt: dungeon.updatedAt
+    };
+  }
+
+  /**
+   * Converts a single dungeon to the game-client (API) format
+   */
+  static toApiDungeon(dungeon: Dungeon): APIDungeonData {
+    return {
+      name: dungeon.name,
+      difficulty: dungeon.difficulty,
+      description: dungeon.description,
+      level: dungeon.level,
+      size: Math.max(dungeon.size.width, dungeon.size.height),
+      rooms: this.toApiRooms(dungeon.floors && dungeon.floors.length > 0
+        ? dungeon.floors.flatMap(floor => floor.rooms.map(room => room.coordinates.z === undefined
+          ? { ...room, coordinates: { ...room.coordinates, z: floor.floorNumber } }
+          : room))
+        : dungeon.rooms || [], z => this.toClientFloorNumber(dungeon, z))
+    };
+  }
+
+  /**
+   * The z a floor has in the game-client format: its number in the imported file, if that was different
+   */
+  static toClientFloorNumber(dungeon: Dungeon, floorNumber: number): number {
+    return dungeon.floors?.find(floor => floor.floorNumber === floorNumber)?.clientFloorNumber ?? floorNumber;
+  }
+
+  /**
+   * Converts rooms to the game-client (API) format
+   * Imported rooms keep their client ID; the rest are numbered from 1, skipping IDs in use
+   * @param toClientZ - z to write for a floor number (see toClientFloorNumber); defaults to the floor number
+   */
+  static toApiRooms(rooms: Room[], toClientZ: (floorNumber: number) => number = z => z): APIRoomData[] {
+    const usedIds = new Set(rooms.map(room => room.clientId).filter((id): id is number => id !== undefined));
+    let nextId = 1;
+
+    return rooms.map(room => {
+      let id = room.clientId;
+      if (id === undefined) {
+        while (usedIds.has(nextId)) nextId++;
+        id = nextId;
+        usedIds.add(id);
+      }
 
-      dungeons.push(dungeon);
+      const secret = room.secrets?.[0];
+      const lore = room.lore?.[0];
+      const hasMiniBoss = room.type !== 'boss' && 
+        (room.monsters || []).some(monster => monster.type.toLowerCase().includes('boss'));
+
+      return {
+        id,
+        // The original client type only applies while the room still has the type it was imported as
+        type: room.clientType && this.mapLegacyRoomType(room.clientType) === room.type ? room.clientType : room.type,
+        description: room.description,
+        x: room.coordinates.x,
+        y: room.coordinates.y,
+        z: room.coordinates.z === undefined ? undefined : toClientZ(room.coordinates.z),
+        connections: room.connections
+          .filter(conn => room.coordinates.z !== undefined || !DungeonValidator.isVerticalDirection(conn.direction))
+          .map(conn => conn.direction),
+        secret: secret ? {
+          description: secret.description,
+          rewardGold: this.parseGoldAmount(secret.reward),
+          revealCondition: secret.discoveryMethod
+        } : null,
+        loreEntry: lore ? {
+          title: lore.title,
+          type: lore.type || 'fragment',
+          text: lore.content,
+          category: lore.category || 'history'
+        } : null,
+        puzzle: room.puzzle ? {
+          type: room.puzzle.type,
+          difficulty: room.puzzle.difficulty,
+          description: room.puzzle.description,
+          question: room.puzzle.question,
+          answer: room.puzzle.solution,
+          rewardGold: this.parseGoldAmount(room.puzzle.reward)
+        } : null,
+        storyEvent: room.story ? {
+          title: room.story.title,
+          description: room.story.description,
+          choices: (room.story.choices || []).map((text, i) => {
+            const outcome = room.story!.outcomes?.[i];
+            const consequence = room.story!.consequences?.[i];
+            if (outcome !== undefined) {
+              return { text, outcome: outcome || undefined };
+            }
+            return { text, outcome: consequence ? { description: consequence } : undefined };
+          })
+        } : null,
+        monsters: (room.monsters || []).map(monster => ({
+          name: monster.name,
+          level: monster.level,
+          maxHealth: monster.stats.health,
+          damage: monster.stats.attack,
+          defense: monster.stats.defense,
+          agility: monster.stats.speed,
+          specialAbility: monster.type !== 'enemy' ? monster.type : undefined,
+          goldValue: this.parseGoldValue(monster.loot)
+        })),
+        isMiniBoss: room.isMiniBoss ?? hasMiniBoss,
+        isTrap: room.isTrap ?? room.type === 'trap',
+        isRewardRoom: room.isRewardRoom ?? room.type === 'treasure'
+      };
+    });
+  }
+
+  /**
+   * Sums the gold amounts in reward or loot strings such as "50 gold" or "12 gold coins"
+   * Strings without a number (e.g. "gold coins") count as zero
+   */
+  static parseGoldValue(text?: string | string[]): number {
+    return this.parseGoldAmount(text) ?? 0;
+  }
+
+  /**
+   * Like parseGoldValue, but returns undefined when no gold amount is present
+   * so that an explicit "0 gold" reward can be told apart from no reward
+   */
+  static parseGoldAmount(text?: string | string[]): number | undefined {
+    const entries = Array.isArray(text) ? text : (text ? [text] : []);
+    let total: number | undefined;
+    for (const entry of entries) {
+      for (const match of entry.matchAll(/(\d+)\s*gold/gi)) {
+        total = (total ?? 0) + parseInt(match[1]);
+      }
     }
+    return total;
+  }
 
-    return dungeons;
+  /**
+   * Imports legacy (API-format) data and exports it again, returning the paths of
+   * any values that did not survive the round trip (an empty list means lossless).
+   * Fields the exporter adds with default values are not counted as losses, and rooms are
+   * matched by ID since multi-floor exports list them floor by floor.
+   */
+  static findRoundTripLosses(legacyData: any): string[] {
+    const exported = this.convertToApiFormat(this.convertLegacyFormat(legacyData));
+    const byId = (rooms: any[]) => [...rooms].sort((a, b) => a.id - b.id);
+    const source = {
+      dungeons: (Array.isArray(legacyData?.dungeons) ? legacyData.dungeons : []).map((dungeon: any) =>
+        Array.isArray(dungeon.rooms) ? { ...dungeon, rooms: byId(dungeon.rooms) } : dungeon)
+    };
+    for (const dungeon of exported.dungeons) {
+      dungeon.rooms = byId(dungeon.rooms);
+    }
+    const losses: string[] = [];
+    // Serialize first so undefined fields compare the way they would in a saved file
+    this.collectLosses(source, JSON.parse(JSON.stringify(exported)), '', losses);
+    return losses;
+  }
+
+  /**
+   * Records every path in `source` whose value is missing or different in `target`
+   */
+  private static collectLosses(source: any, target: any, path: string, losses: string[]): void {
+    if (source === undefined) {
+      return;
+    }
+    if (source === null || typeof source !== 'object') {
+      if (source !== target) {
+        losses.push(path || '(root)');
+      }
+      return;
+    }
+    if (target === null || typeof target !== 'object' || Array.isArray(source) !== Array.isArray(target)) {
+      losses.push(path || '(root)');
+      return;
+    }
+    if (Array.isArray(source) && source.length !== target.length) {
+      losses.push(`${path}.length`);
+      return;
+    }
+    for (const key of Object.keys(source)) {
+      const childPath = Array.isArray(source) ? `${path}[${key}]` : (path ? `${path}.${key}` : key);
+      this.collectLosses(source[key], target[key], childPath, losses);
+    }
   }
 
   /**
@@ -809,29 +1980,18 @@ export class DungeonHelpers {
 
   /**
    * Finds a room by direction from given coordinates
+   * `rooms` should be the rooms of the target floor; up/down keep the same x/y
    */
   private static findRoomByDirection(
     rooms: Room[],
     fromCoords: Coordinates,
     direction: Direction
   ): Room | undefined {
-    let targetX = fromCoords.x;
-    let targetY = fromCoords.y;
-
-    switch (direction) {
-      case 'north':
-        targetY -= 1;
-        break;
-      case 'south':
-        targetY += 1;
-        break;
-      case 'east':
-        targetX += 1;
-        break;
-      case 'west':
-        targetX -= 1;
-        break;
-    }
+    const offset = DungeonValidator.isVerticalDirection(direction)
+      ? { x: 0, y: 0 }
+      : DungeonValidator.getDirectionOffset(direction);
+    const targetX = fromCoords.x + offset.x;
+    const targetY = fromCoords.y + offset.y;
 
     return rooms.find(room => 
       room.coordinates.x === targetX && room.coordinates.y === targetY
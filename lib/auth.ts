@@ -0,0 +1,179 @@
+/**
+ * API Key Authentication
+ *
+ * Clients send a key as `Authorization: Bearer <key>` or `X-API-Key: <key>`.
+ * Keys are always required: a fresh install creates its first key with DUNGEON_ADMIN_KEY, unless
+ * DUNGEON_OPEN_ACCESS=true keeps the API open until then. When the keys can't be read, requests
+ * are refused with 503 rather than let through.
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { NextResponse } from 'next/server';
+import { ApiKey, ApiKeyInfo, ApiKeyScope, ApiEndpointConfig, ApiResponse, DungeonHelpers } from './api';
+import { getApiKeyRepository } from './storage';
+
+export const API_KEY_SCOPES: ApiKeyScope[] = ['dungeons:read', 'dungeons:write', 'endpoints:manage', 'keys:manage'];
+
+// ID of the built-in key configured with DUNGEON_ADMIN_KEY; it has every scope and passes every endpoint
+const ADMIN_KEY_ID = 'admin';
+
+/**
+ * Outcome of a custom endpoint access check
+ */
+export interface EndpointAccess {
+  denied: NextResponse | null;  // The 401/403/503 response to send, or null if the endpoint can be served
+  key?: ApiKey;                 // The caller's valid key, for rate limits and usage; also on public endpoints
+}
+
+/**
+ * API key checks for route handlers
+ */
+export class ApiAuth {
+  /**
+   * Checks that a request may use `scope`
+   * Returns the 401/403 response to send, or null if the handler can continue
+   */
+  static async requireScope(request: Request, scope: ApiKeyScope): Promise<NextResponse | null> {
+    try {
+      if (!(await this.isEnforced())) {
+        return null;
+      }
+      const key = await this.authenticate(request);
+      if (!key) {
+        return this.deny(401, key === undefined ? 'An API key is required' : 'Invalid or disabled API key');
+      }
+      if (!key.scopes.includes(scope)) {
+        return this.deny(403, `This API key does not have the ${scope} scope`);
+      }
+      return null;
+    } catch (error) {
+      return this.unavailable(error);
+    }
+  }
+
+  /**
+   * Checks a request against a custom endpoint's visibility, and finds the key it was sent with
+   * Public endpoints are served even when the keys can't be read; the key is left out then
+   */
+  static async checkEndpointAccess(request: Request, endpoint: ApiEndpointConfig): Promise<EndpointAccess> {
+    const visibility = endpoint.visibility ?? 'public';
+    if (visibility === 'public') {
+      const key = await this.authenticate(request).catch(() => undefined);
+      return { denied: null, key: key ?? undefined };
+    }
+    try {
+      const key = await this.authenticate(request);
+      if (!key) {
+        return { denied: this.deny(401, key === undefined ? 'This endpoint requires an API key' : 'Invalid or disabled API key') };
+      }
+      if (visibility === 'keys' && key.id !== ADMIN_KEY_ID && !endpoint.allowedKeyIds?.includes(key.id)) {
+        return { denied: this.deny(403, 'This API key may not call this endpoint'), key };
+      }
+      return { denied: null, key };
+    } catch (error) {
+      return { denied: this.unavailable(error) };
+    }
+  }
+
+  /**
+   * Finds the key a request was sent with
+   * Returns undefined when no key was sent, and null for an unknown or disabled key
+   */
+  static async authenticate(request: Request): Promise<ApiKey | null | undefined> {
+    const secret = this.getRequestSecret(request);
+    if (!secret) {
+      return undefined;
+    }
+
+    const adminSecret = process.env.DUNGEON_ADMIN_KEY;
+    if (adminSecret && this.secretsEqual(secret, adminSecret)) {
+      return {
+        id: ADMIN_KEY_ID,
+        name: 'Admin (DUNGEON_ADMIN_KEY)',
+        prefix: adminSecret.slice(0, 8),
+        secretHash: this.hash(adminSecret),
+        scopes: API_KEY_SCOPES,
+        enabled: true
+      };
+    }
+
+    const secretHash = this.hash(secret);
+    const [key] = await getApiKeyRepository().findBy('secretHash', secretHash);
+    return key?.enabled ? key : null;
+  }
+
+  /**
+   * Whether requests need a key. They always do, unless DUNGEON_OPEN_ACCESS=true opts in to an open
+   * API until the first key is created, so a fresh deployment isn't open to whoever calls it first.
+   * The first key is then created with DUNGEON_ADMIN_KEY.
+   * Throws when the keys can't be read, so callers fail closed instead of treating it as no keys
+   */
+  static async isEnforced(): Promise<boolean> {
+    if (process.env.DUNGEON_ADMIN_KEY || process.env.DUNGEON_OPEN_ACCESS !== 'true') {
+      return true;
+    }
+    return (await getApiKeyRepository().list()).length > 0;
+  }
+
+  /**
+   * Creates a key; the secret is returned once and only its hash is kept
+   */
+  static createKey(name: string, scopes: ApiKeyScope[]): { key: ApiKey; secret: string } {
+    const secret = `dk_${randomBytes(24).toString('base64url')}`;
+    const now = new Date().toISOString();
+    return {
+      key: {
+        id: `key-${DungeonHelpers.generateId()}`,
+        name,
+        prefix: secret.slice(0, 8),
+        secretHash: this.hash(secret),
+        scopes,
+        enabled: true,
+        createdAt: now,
+        updatedAt: now
+      },
+      secret
+    };
+  }
+
+  /**
+   * A key without its secret hash, for listing
+   */
+  static toInfo(key: ApiKey): ApiKeyInfo {
+    const { secretHash: _secretHash, ...info } = key;
+    return info;
+  }
+
+  private static getRequestSecret(request: Request): string | undefined {
+    const bearer = request.headers.get('authorization')?.match(/^Bearer\s+(.+)$/i)?.[1];
+    return (bearer || request.headers.get('x-api-key') || '').trim() || undefined;
+  }
+
+  private static hash(secret: string): string {
+    return createHash('sha256').update(secret).digest('hex');
+  }
+
+  // Compares hashes so the comparison takes the same time whatever the secrets are
+  private static secretsEqual(a: string, b: string): boolean {
+    return timingSafeEqual(createHash('sha256').update(a).digest(), createHash('sha256').update(b).digest());
+  }
+
+  // Keys that can't be read must not open the API, so the request is refused
+  private static unavailable(error: unknown): NextResponse {
+    console.error('Error reading API keys:', error);
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error: 'API keys are unavailable; try again later'
+    }, { status: 503 });
+  }
+
+  private static deny(status: 401 | 403, error: string): NextResponse {
+    return NextResponse.json<ApiResponse<null>>({
+      success: false,
+      error
+    }, {
+      status,
+      ...(status === 401 && { headers: { 'WWW-Authenticate': 'Bearer' } })
+    });
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * Browser API Client
+ *
+ * Sends the API key saved in this browser with every request from the app's pages.
+ */
+
+const API_KEY_STORAGE_KEY = 'dungeon-api-key';
+
+/**
+ * fetch for the app's own API routes
+ */
+export class ApiClient {
+  /**
+   * Like fetch, with an X-API-Key header when a key is saved
+   */
+  static fetch(input: string, init: RequestInit = {}): Promise<Response> {
+    const key = this.getKey();
+    if (!key) {
+      return fetch(input, init);
+    }
+    const headers = new Headers(init.headers);
+    headers.set('X-API-Key', key);
+    return fetch(input, { ...init, headers });
+  }
+
+  /**
+   * The API key saved in this browser, if any
+   */
+  static getKey(): string {
+    return typeof window !== 'undefined' ? window.localStorage.getItem(API_KEY_STORAGE_KEY) || '' : '';
+  }
+
+  /**
+   * Saves an API key in this browser; an empty key removes it
+   */
+  static setKey(key: string): void {
+    if (key.trim()) {
+      window.localStorage.setItem(API_KEY_STORAGE_KEY, key.trim());
+    } else {
+      window.localStorage.removeItem(API_KEY_STORAGE_KEY);
+    }
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * Conditional Requests
+ *
+ * ETags and Last-Modified for dungeon responses, 304s for clients whose copy is current
+ * (If-None-Match, If-Modified-Since), and If-Match preconditions for changes.
+ */
+
+import { createHash } from 'crypto';
+import { NextResponse } from 'next/server';
+import { ApiResponse, Dungeon, PageInfo } from './api';
+
+/**
+ * ETag and conditional request handling for route handlers
+ */
+export class ConditionalRequest {
+  /**
+   * Strong ETag of response data; lists include their page info, since the total can change without the items
+   * The ETag of a dungeon in the internal format is the one If-Match is checked against
+   */
+  static etag(data: unknown, page?: PageInfo): string {
+    const content = JSON.stringify(page ? [data, page] : data);
+    return `"${createHash('sha256').update(content).digest('base64url').slice(0, 27)}"`;
+  }
+
+  /**
+   * A successful JSON response with validators, or 304 Not Modified when the client's copy is current
+   * If-None-Match takes precedence over If-Modified-Since, which is only used when `lastModified` is known
+   * @param lastModified - updatedAt of the dungeon the response shows
+   */
+  static json<T>(request: Request, body: ApiResponse<T>, lastModified?: string): NextResponse {
+    const headers = this.headers(this.etag(body.data, body.page), lastModified);
+    if (this.isNotModified(request, headers.ETag, lastModified)) {
+      return new NextResponse(null, { status: 304, headers });
+    }
+    return NextResponse.json<ApiResponse<T>>(body, { headers });
+  }
+
+  /**
+   * Validator headers for a dungeon, for responses that return the saved dungeon
+   */
+  static dungeonHeaders(dungeon: Dungeon): Record<string, string> {
+    return this.headers(this.etag(dungeon), dungeon.updatedAt);
+  }
+
+  /**
+   * Whether a dungeon meets the request's If-Match header; true when there is none
+   */
+  static matchesIfMatch(request: Request, dungeon: Dungeon): boolean {
+    const ifMatch = request.headers.get('if-match');
+    if (ifMatch === null) {
+      return true;
+    }
+    // If-Match uses strong comparison, so weak tags never match
+    const tags = this.parseTags(ifMatch);
+    return tags.includes('*') || tags.includes(this.etag(dungeon));
+  }
+
+  /**
+   * The 412 response when a dungeon doesn't meet the request's If-Match header, or null if it does
+   */
+  static checkIfMatch(request: Request, dungeon: Dungeon): NextResponse | null {
+    return this.matchesIfMatch(request, dungeon) ? null : this.preconditionFailed(dungeon);
+  }
+
+  /**
+   * 412 with the current dungeon, so the client can see what changed
+   */
+  static preconditionFailed(current: Dungeon): NextResponse {
+    return NextResponse.json<ApiResponse<Dungeon>>({
+      success: false,
+      error: 'Dungeon has changed since you loaded it (If-Match does not match its ETag)',
+      data: current
+    }, { status: 412, headers: this.dungeonHeaders(current) });
+  }
+
+  private static headers(etag: string, lastModified?: string): Record<string, string> {
+    const modified = lastModified ? new Date(lastModified) : undefined;
+    return {
+      ETag: etag,
+      // Clients may keep a copy but must check it is current before using it
+      'Cache-Control': 'no-cache',
+      ...(modified && !isNaN(modified.getTime()) && { 'Last-Modified': modified.toUTCString() })
+    };
+  }
+
+  private static isNotModified(request: Request, etag: string, lastModified?: string): boolean {
+    const ifNoneMatch = request.headers.get('if-none-match');
+    if (ifNoneMatch !== null) {
+      // If-None-Match uses weak comparison
+      const tags = this.parseTags(ifNoneMatch).map(tag => tag.replace(/^W\//, ''));
+      return tags.includes('*') || tags.includes(etag);
+    }
+
+    const ifModifiedSince = request.headers.get('if-modified-since');
+    if (ifModifiedSince === null || !lastModified) {
+      return false;
+    }
+    const since = Date.parse(ifModifiedSince);
+    // HTTP dates have whole seconds
+    return !isNaN(since) && Math.floor(Date.parse(lastModified) / 1000) * 1000 <= since;
+  }
+
+  private static parseTags(header: string): string[] {
+    return header.split(',').map(tag => tag.trim()).filter(Boolean);
+  }
+}
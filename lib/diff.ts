@@ -0,0 +1,377 @@
+/**
+ * Dungeon Diff
+ *
+ * Compares two dungeons room by room: added, removed and moved rooms, changed
+ * connections, monster stat changes and floor changes. Rooms, monsters and
+ * floors are matched by ID (floors by floorNumber).
+ */
+
+import {
+  Dungeon,
+  DungeonFloor,
+  Room,
+  RoomType,
+  RoomConnection,
+  Monster,
+  MonsterStats,
+  Coordinates,
+  Direction,
+  JsonChange
+} from './api';
+
+/**
+ * Kind of change to an item that exists in one or both dungeons
+ */
+export type DiffChangeType = 'added' | 'removed' | 'changed';
+
+/**
+ * What happened to a room
+ * 'moved' rooms changed position or floor and may have other changes too
+ */
+export type RoomDiffStatus = 'added' | 'removed' | 'moved' | 'changed';
+
+/**
+ * A changed monster stat (or level)
+ */
+export interface StatChange {
+  stat: keyof MonsterStats | 'level';
+  before: number;
+  after: number;
+}
+
+/**
+ * A monster added, removed or changed in a room
+ */
+export interface MonsterChange {
+  monsterId: string;
+  name: string;
+  type: DiffChangeType;
+  stats: StatChange[];
+  fields: JsonChange[]; // Other changed fields (name, type, description, ...)
+}
+
+/**
+ * A connection added, removed or changed (locked, hidden, transition) in a room
+ * Connections are matched by direction and target, so a retargeted exit is one removal and one addition
+ */
+export interface ConnectionChange {
+  type: DiffChangeType;
+  direction: Direction;
+  targetRoomId: string;
+  before?: RoomConnection;
+  after?: RoomConnection;
+}
+
+/**
+ * Everything that changed about one room
+ * Coordinates carry the floor number as z
+ */
+export interface RoomDiff {
+  roomId: string;
+  status: RoomDiffStatus;
+  roomType: RoomType;       // Type in b (or in a for removed rooms)
+  from?: Coordinates;       // Position in a
+  to?: Coordinates;         // Position in b
+  connections: ConnectionChange[];
+  monsters: MonsterChange[];
+  fields: JsonChange[];     // Other changed room fields (type, description, puzzle, ...)
+}
+
+/**
+ * A floor added, removed or renamed
+ */
+export interface FloorDiff {
+  floorNumber: number;
+  type: DiffChangeType;
+  name: string;
+  fields: JsonChange[];
+  roomsBefore: number;
+  roomsAfter: number;
+}
+
+/**
+ * Counts of each kind of change
+ */
+export interface DungeonDiffSummary {
+  roomsAdded: number;
+  roomsRemoved: number;
+  roomsMoved: number;
+  roomsChanged: number;
+  connectionsChanged: number;
+  monstersChanged: number;
+  floorsChanged: number;
+}
+
+/**
+ * Result of DungeonDiffer.diff(a, b); only changed items are listed
+ */
+export interface DungeonDiff {
+  a: { id: string; name: string; version?: number };
+  b: { id: string; name: string; version?: number };
+  identical: boolean;
+  fields: JsonChange[];     // Changed dungeon fields (name, difficulty, level, size, description)
+  floors: FloorDiff[];
+  rooms: RoomDiff[];
+  summary: DungeonDiffSummary;
+}
+
+const MONSTER_STATS: (keyof MonsterStats)[] = ['health', 'attack', 'defense', 'speed'];
+
+/**
+ * Dungeon comparison
+ */
+export class DungeonDiffer {
+  /**
+   * Compares dungeon a (before) with dungeon b (after)
+   */
+  static diff(a: Dungeon, b: Dungeon): DungeonDiff {
+    const fields = this.diffJson(this.dungeonFields(a), this.dungeonFields(b));
+    const floors = this.diffFloors(this.getFloors(a), this.getFloors(b));
+    const rooms = this.diffRooms(this.getPlacedRooms(a), this.getPlacedRooms(b));
+
+    const countRooms = (status: RoomDiffStatus) => rooms.filter(r => r.status === status).length;
+    const summary: DungeonDiffSummary = {
+      roomsAdded: countRooms('added'),
+      roomsRemoved: countRooms('removed'),
+      roomsMoved: countRooms('moved'),
+      roomsChanged: countRooms('changed'),
+      connectionsChanged: rooms.reduce((sum, r) => sum + r.connections.length, 0),
+      monstersChanged: rooms.reduce((sum, r) => sum + r.monsters.length, 0),
+      floorsChanged: floors.length
+    };
+
+    return {
+      a: { id: a.id, name: a.name, version: a.version },
+      b: { id: b.id, name: b.name, version: b.version },
+      identical: fields.length === 0 && floors.length === 0 && rooms.length === 0,
+      fields,
+      floors,
+      rooms,
+      summary
+    };
+  }
+
+  /**
+   * Lists every changed value between two JSON values
+   * Array items that have an `id` are matched by ID (so reordering is not a change) and shown
+   * as [id] in the path; other arrays are compared by index.
+   */
+  static diffJson(before: unknown, after: unknown, path: string = ''): JsonChange[] {
+    const changes: JsonChange[] = [];
+    this.diffValues(before, after, path, changes);
+    return changes;
+  }
+
+  /**
+   * Key of a connection in a room, as used to match connections between dungeons
+   */
+  static connectionKey(roomId: string, conn: RoomConnection): string {
+    return `${roomId}:${conn.direction}:${conn.targetRoomId}`;
+  }
+
+  private static diffFloors(before: DungeonFloor[], after: DungeonFloor[]): FloorDiff[] {
+    const floorNumbers = [...new Set([...before, ...after].map(f => f.floorNumber))].sort((x, y) => x - y);
+    const diffs: FloorDiff[] = [];
+
+    for (const floorNumber of floorNumbers) {
+      const a = before.find(f => f.floorNumber === floorNumber);
+      const b = after.find(f => f.floorNumber === floorNumber);
+      const fields = this.diffJson(
+        a && { name: a.name, description: a.description },
+        b && { name: b.name, description: b.description }
+      );
+      if (fields.length === 0) {
+        continue;
+      }
+      diffs.push({
+        floorNumber,
+        type: !a ? 'added' : (!b ? 'removed' : 'changed'),
+        name: (b ?? a)!.name,
+        fields,
+        roomsBefore: a?.rooms.length ?? 0,
+        roomsAfter: b?.rooms.length ?? 0
+      });
+    }
+    return diffs;
+  }
+
+  private static diffRooms(before: Map<string, Room>, after: Map<string, Room>): RoomDiff[] {
+    const diffs: RoomDiff[] = [];
+    const ids = [...new Set([...before.keys(), ...after.keys()])];
+
+    for (const roomId of ids) {
+      const a = before.get(roomId);
+      const b = after.get(roomId);
+      // Contents of added and removed rooms aren't listed separately
+      const both = !!a && !!b;
+      const connections = both ? this.diffConnections(a.connections, b.connections) : [];
+      const monsters = both ? this.diffMonsters(a.monsters ?? [], b.monsters ?? []) : [];
+      const fields = both ? this.diffJson(this.roomFields(a), this.roomFields(b)) : [];
+      const moved = both && (
+        a.coordinates.x !== b.coordinates.x ||
+        a.coordinates.y !== b.coordinates.y ||
+        a.coordinates.z !== b.coordinates.z
+      );
+
+      let status: RoomDiffStatus;
+      if (!a) {
+        status = 'added';
+      } else if (!b) {
+        status = 'removed';
+      } else if (moved) {
+        status = 'moved';
+      } else if (connections.length > 0 || monsters.length > 0 || fields.length > 0) {
+        status = 'changed';
+      } else {
+        continue;
+      }
+
+      diffs.push({
+        roomId,
+        status,
+        roomType: (b ?? a)!.type,
+        from: a?.coordinates,
+        to: b?.coordinates,
+        connections,
+        monsters,
+        fields
+      });
+    }
+    return diffs;
+  }
+
+  private static diffConnections(before: RoomConnection[], after: RoomConnection[]): ConnectionChange[] {
+    const key = (conn: RoomConnection) => `${conn.direction}:${conn.targetRoomId}`;
+    const afterByKey = new Map(after.map(conn => [key(conn), conn]));
+    const beforeKeys = new Set(before.map(key));
+    const changes: ConnectionChange[] = [];
+
+    for (const conn of before) {
+      const match = afterByKey.get(key(conn));
+      if (!match) {
+        changes.push({ type: 'removed', direction: conn.direction, targetRoomId: conn.targetRoomId, before: conn });
+      } else if (this.diffJson(conn, match).length > 0) {
+        changes.push({ type: 'changed', direction: conn.direction, targetRoomId: conn.targetRoomId, before: conn, after: match });
+      }
+    }
+    for (const conn of after) {
+      if (!beforeKeys.has(key(conn))) {
+        changes.push({ type: 'added', direction: conn.direction, targetRoomId: conn.targetRoomId, after: conn });
+      }
+    }
+    return changes;
+  }
+
+  private static diffMonsters(before: Monster[], after: Monster[]): MonsterChange[] {
+    const changes: MonsterChange[] = [];
+    const ids = [...new Set([...before, ...after].map(m => m.id))];
+
+    for (const monsterId of ids) {
+      const a = before.find(m => m.id === monsterId);
+      const b = after.find(m => m.id === monsterId);
+      if (!a || !b) {
+        changes.push({ monsterId, name: (a ?? b)!.name, type: a ? 'removed' : 'added', stats: [], fields: [] });
+        continue;
+      }
+
+      const stats: StatChange[] = MONSTER_STATS
+        .filter(stat => a.stats?.[stat] !== b.stats?.[stat])
+        .map(stat => ({ stat, before: a.stats?.[stat], after: b.stats?.[stat] }));
+      if (a.level !== b.level) {
+        stats.push({ stat: 'level', before: a.level, after: b.level });
+      }
+      const fields = this.diffJson(this.monsterFields(a), this.monsterFields(b));
+
+      if (stats.length > 0 || fields.length > 0) {
+        changes.push({ monsterId, name: b.name, type: 'changed', stats, fields });
+      }
+    }
+    return changes;
+  }
+
+  // Floors of a dungeon; a legacy single-floor dungeon is treated as floor 1
+  private static getFloors(dungeon: Dungeon): DungeonFloor[] {
+    if (dungeon.floors && dungeon.floors.length > 0) {
+      return dungeon.floors;
+    }
+    return [{ floorNumber: 1, name: 'Ground Floor', description: '', rooms: dungeon.rooms || [] }];
+  }
+
+  // Rooms by ID, with the floor number they're placed on as coordinates.z
+  private static getPlacedRooms(dungeon: Dungeon): Map<string, Room> {
+    const rooms = new Map<string, Room>();
+    for (const floor of this.getFloors(dungeon)) {
+      for (const room of floor.rooms) {
+        rooms.set(room.id, { ...room, coordinates: { ...room.coordinates, z: floor.floorNumber } });
+      }
+    }
+    return rooms;
+  }
+
+  private static dungeonFields({ name, difficulty, level, size, description }: Dungeon) {
+    return { name, difficulty, level, size, description };
+  }
+
+  private static roomFields({ id, coordinates, connections, monsters, ...rest }: Room) {
+    return rest;
+  }
+
+  private static monsterFields({ id, stats, level, ...rest }: Monster) {
+    return rest;
+  }
+
+  private static diffValues(before: unknown, after: unknown, path: string, changes: JsonChange[]): void {
+    if (before === undefined && after === undefined) {
+      return;
+    }
+    if (before === undefined) {
+      changes.push({ path, type: 'added', after });
+      return;
+    }
+    if (after === undefined) {
+      changes.push({ path, type: 'removed', before });
+      return;
+    }
+    if (Array.isArray(before) && Array.isArray(after)) {
+      this.diffArrays(before, after, path, changes);
+      return;
+    }
+    if (this.isObject(before) && this.isObject(after)) {
+      const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+      for (const key of keys) {
+        this.diffValues(before[key], after[key], path ? `${path}.${key}` : key, changes);
+      }
+      return;
+    }
+    if (JSON.stringify(before) !== JSON.stringify(after)) {
+      changes.push({ path, type: 'changed', before, after });
+    }
+  }
+
+  private static diffArrays(before: unknown[], after: unknown[], path: string, changes: JsonChange[]): void {
+    const hasIds = (items: unknown[]) => items.every(item => this.isObject(item) && typeof item.id === 'string');
+    if (hasIds(before) && hasIds(after)) {
+      const afterById = new Map(after.map(item => [(item as { id: string }).id, item]));
+      const beforeIds = new Set<string>();
+      for (const item of before) {
+        const id = (item as { id: string }).id;
+        beforeIds.add(id);
+        this.diffValues(item, afterById.get(id), `${path}[${id}]`, changes);
+      }
+      for (const item of after) {
+        const id = (item as { id: string }).id;
+        if (!beforeIds.has(id)) {
+          changes.push({ path: `${path}[${id}]`, type: 'added', after: item });
+        }
+      }
+      return;
+    }
+    for (let i = 0; i < Math.max(before.length, after.length); i++) {
+      this.diffValues(before[i], after[i], `${path}[${i}]`, changes);
+    }
+  }
+
+  private static isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
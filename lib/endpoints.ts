@@ -0,0 +1,111 @@
+/**
+ * Custom Endpoint Sources
+ *
+ * Resolves which dungeons a custom endpoint serves: one dungeon, a fixed collection,
+ * a filter, or a daily rotation. Access to endpoints is checked by ApiAuth.
+ */
+
+import { Dungeon, ApiEndpointConfig, EndpointSource, EndpointVisibility } from './api';
+import { DungeonQuery } from './query';
+import { hashSeed } from './generator';
+import { RateLimiter } from './ratelimit';
+
+const SOURCES: EndpointSource[] = ['dungeon', 'collection', 'filter', 'daily'];
+const VISIBILITIES: EndpointVisibility[] = ['public', 'key', 'keys'];
+
+/**
+ * Endpoint source validation and resolution
+ */
+export class EndpointSources {
+  /**
+   * Checks the source, visibility and rate limit settings of an endpoint; returns an error message, or undefined if valid
+   */
+  static validate(endpoint: ApiEndpointConfig): string | undefined {
+    const visibility = endpoint.visibility ?? 'public';
+    if (!VISIBILITIES.includes(visibility)) {
+      return `Unknown visibility '${visibility}'. Use one of: ${VISIBILITIES.join(', ')}`;
+    }
+    if (endpoint.allowedKeyIds !== undefined &&
+        (!Array.isArray(endpoint.allowedKeyIds) || endpoint.allowedKeyIds.some(id => typeof id !== 'string' || !id))) {
+      return 'allowedKeyIds must be a list of API key IDs';
+    }
+    if (visibility === 'keys' && !endpoint.allowedKeyIds?.length) {
+      return 'allowedKeyIds must list at least one API key for keys visibility';
+    }
+    if (endpoint.rateLimit !== undefined) {
+      const rateLimitError = RateLimiter.validate(endpoint.rateLimit);
+      if (rateLimitError) {
+        return rateLimitError;
+      }
+    }
+
+    const source = endpoint.source ?? 'dungeon';
+    if (!SOURCES.includes(source)) {
+      return `Unknown source '${source}'. Use one of: ${SOURCES.join(', ')}`;
+    }
+    if (endpoint.dungeonIds !== undefined &&
+        (!Array.isArray(endpoint.dungeonIds) || endpoint.dungeonIds.some(id => typeof id !== 'string' || !id))) {
+      return 'dungeonIds must be a list of dungeon IDs';
+    }
+    if (endpoint.filter !== undefined) {
+      const filterError = DungeonQuery.validateFilter(endpoint.filter);
+      if (filterError) {
+        return filterError;
+      }
+    }
+    if (endpoint.seed !== undefined && typeof endpoint.seed !== 'string') {
+      return 'seed must be text';
+    }
+
+    switch (source) {
+      case 'dungeon':
+        return endpoint.dungeonId ? undefined : 'dungeonId is required for a dungeon endpoint';
+      case 'collection':
+        return endpoint.dungeonIds?.length ? undefined : 'dungeonIds must list at least one dungeon for a collection endpoint';
+      case 'filter':
+        return endpoint.filter ? undefined : 'filter is required for a filter endpoint';
+      case 'daily':
+        return undefined;
+    }
+  }
+
+  /**
+   * Dungeons a collection, filter or daily endpoint chooses from
+   * Collections keep their configured order and skip dungeons that no longer exist
+   */
+  static resolvePool(endpoint: ApiEndpointConfig, dungeons: Dungeon[]): Dungeon[] {
+    if (endpoint.dungeonIds?.length) {
+      const byId = new Map(dungeons.map(d => [d.id, d]));
+      const listed = endpoint.dungeonIds.map(id => byId.get(id)).filter((d): d is Dungeon => !!d);
+      return endpoint.filter ? DungeonQuery.filter(listed, endpoint.filter) : listed;
+    }
+    return endpoint.filter ? DungeonQuery.filter(dungeons, endpoint.filter) : dungeons;
+  }
+
+  /**
+   * The dungeon of the day; the same endpoint, pool and date always give the same dungeon
+   * @param date - UTC date as YYYY-MM-DD
+   */
+  static pickDaily(endpoint: ApiEndpointConfig, pool: Dungeon[], date: string): Dungeon | undefined {
+    if (pool.length === 0) {
+      return undefined;
+    }
+    // Sort so the pick doesn't depend on storage order
+    const sorted = [...pool].sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+    return sorted[hashSeed(`${endpoint.seed || endpoint.id}:${date}`) % sorted.length];
+  }
+
+  /**
+   * Today's date in UTC as YYYY-MM-DD, so every server picks the same daily dungeon
+   */
+  static today(): string {
+    return new Date().toISOString().slice(0, 10);
+  }
+
+  /**
+   * Whether a YYYY-MM-DD string is a real date
+   */
+  static isValidDate(date: string): boolean {
+    return /^\d{4}-\d{2}-\d{2}$/.test(date) && !isNaN(Date.parse(date)) && new Date(date).toISOString().startsWith(date);
+  }
+}
@@ -0,0 +1,456 @@
+/**
+ * Procedural Dungeon Generator
+ *
+ * Builds complete, valid dungeons from a seed. The same options and seed
+ * always produce the same dungeon, including room and monster IDs.
+ */
+
+import {
+  Dungeon,
+  DungeonFloor,
+  Room,
+  RoomType,
+  Monster,
+  DifficultyLevel,
+  CardinalDirection,
+  ValidationRuleProfile,
+  ValidationRuleSet,
+  DungeonHelpers,
+  DungeonValidator
+} from './api';
+
+/**
+ * Options for generating a dungeon
+ */
+export interface DungeonGenerationOptions {
+  name: string;
+  difficulty: DifficultyLevel;
+  level: number;
+  size: {
+    width: number;
+    height: number;
+  };
+  floors: number;
+  seed: number | string;
+}
+
+/**
+ * Largest dungeon the generator builds; a width x height grid per floor, one room per cell at most
+ */
+export const GENERATOR_LIMITS = {
+  maxWidth: 50,
+  maxHeight: 50,
+  maxFloors: 10
+};
+
+/**
+ * Seeded pseudo-random number generator (mulberry32)
+ */
+interface SeededRandom {
+  next(): number;                        // Float in [0, 1)
+  int(min: number, max: number): number; // Integer in [min, max]
+  chance(probability: number): boolean;
+  pick<T>(items: readonly T[]): T;
+}
+
+function createSeededRandom(seed: number): SeededRandom {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return {
+    next,
+    int: (min, max) => min + Math.floor(next() * (max - min + 1)),
+    chance: probability => next() < probability,
+    pick: items => items[Math.floor(next() * items.length)]
+  };
+}
+
+// Converts a string seed into a 32-bit integer (FNV-1a)
+export function hashSeed(seed: number | string): number {
+  if (typeof seed === 'number') {
+    return Math.floor(seed) >>> 0;
+  }
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+const CARDINAL_DIRECTIONS: readonly CardinalDirection[] = ['north', 'south', 'east', 'west'];
+
+// Weighted pool for rooms that are neither the entrance nor the boss
+const ROOM_TYPE_WEIGHTS: ReadonlyArray<[RoomType, number]> = [
+  ['combat', 35],
+  ['empty', 20],
+  ['treasure', 12],
+  ['puzzle', 12],
+  ['trap', 11],
+  ['rest', 10]
+];
+
+// Stat multiplier applied on top of level scaling
+const DIFFICULTY_MULTIPLIERS: Record<DifficultyLevel, number> = {
+  Easy: 0.8,
+  Medium: 1,
+  Hard: 1.25,
+  Expert: 1.5
+};
+
+const ROOM_DESCRIPTIONS: Record<RoomType, readonly string[]> = {
+  entrance: [
+    'A crumbling archway opens onto a flight of worn steps.',
+    'Rusted gates hang open, and cold air drifts up from below.'
+  ],
+  boss: [
+    'A vast hall with a shattered throne at its far end.',
+    'The ceiling vanishes into darkness above a blood-stained arena.'
+  ],
+  treasure: [
+    'Coins glint among the bones scattered across the floor.',
+    'A small vault lined with empty shelves and one locked chest.'
+  ],
+  puzzle: [
+    'Strange runes cover every wall, arranged around a sealed door.',
+    'A ring of stone pillars surrounds a pedestal with a missing piece.'
+  ],
+  combat: [
+    'Claw marks score the walls of this cramped chamber.',
+    'Broken weapons litter the floor of an old guard post.'
+  ],
+  rest: [
+    'A dry alcove with the remains of an old campfire.',
+    'A quiet shrine where the air feels strangely calm.'
+  ],
+  trap: [
+    'The flagstones here are uneven, and some are slightly raised.',
+    'Tiny holes pepper the walls of this narrow corridor.'
+  ],
+  empty: [
+    'A bare stone room, silent except for dripping water.',
+    'Dust lies thick on the floor of this abandoned chamber.'
+  ]
+};
+
+const MONSTER_TEMPLATES: ReadonlyArray<{ name: string; type: string; loot: string[] }> = [
+  { name: 'Goblin Scout', type: 'humanoid', loot: ['rusty dagger'] },
+  { name: 'Skeleton Warrior', type: 'undead', loot: ['bone shard'] },
+  { name: 'Giant Rat', type: 'beast', loot: ['rat tail'] },
+  { name: 'Cave Spider', type: 'beast', loot: ['spider silk'] },
+  { name: 'Orc Raider', type: 'humanoid', loot: ['orcish axe'] },
+  { name: 'Restless Spirit', type: 'undead', loot: ['ectoplasm'] },
+  { name: 'Slime', type: 'ooze', loot: ['slime gel'] }
+];
+
+const BOSS_TEMPLATES: ReadonlyArray<{ name: string; type: string; loot: string[] }> = [
+  { name: 'Bone Tyrant', type: 'boss', loot: ['crown of bones', 'boss key'] },
+  { name: 'Broodmother', type: 'boss', loot: ['venom sac', 'boss key'] },
+  { name: 'Warlord Grusk', type: 'boss', loot: ['warlord banner', 'boss key'] }
+];
+
+const PUZZLES: ReadonlyArray<{ type: string; description: string; solution: string }> = [
+  { type: 'riddle', description: 'A voice asks: "What has roots as nobody sees, is taller than trees?"', solution: 'A mountain' },
+  { type: 'pressure_plates', description: 'Five pressure plates must be stepped on in the right order.', solution: 'Follow the worn footprints' },
+  { type: 'lever', description: 'Three levers control a portcullis; the wrong pull floods the room.', solution: 'Middle, left, right' }
+];
+
+const SECRETS: ReadonlyArray<{ type: 'hidden_room' | 'treasure' | 'passage' | 'lore'; description: string; discoveryMethod: string }> = [
+  { type: 'treasure', description: 'A loose brick hides a pouch of coins', discoveryMethod: 'Search the walls' },
+  { type: 'passage', description: 'A draft reveals a narrow crawlspace', discoveryMethod: 'Hold a torch near the walls' },
+  { type: 'lore', description: 'Faded writing beneath the moss', discoveryMethod: 'Clear the moss away' }
+];
+
+/**
+ * Procedural dungeon generator
+ */
+export class DungeonGenerator {
+  /**
+   * Generates a dungeon that satisfies the difficulty's rule profile
+   * Throws if the options are invalid (see validateOptions) or the grid is too small to hold the required rooms
+   */
+  static generate(options: DungeonGenerationOptions, rules?: Partial<ValidationRuleSet>): Dungeon {
+    const invalid = this.validateOptions(options);
+    if (invalid) {
+      throw new Error(invalid);
+    }
+
+    const random = createSeededRandom(hashSeed(options.seed));
+    const profile = DungeonValidator.getRuleProfile(options.difficulty, rules);
+    const { width, height } = options.size;
+    const floorCount = options.floors;
+    const idPrefix = `gen-${hashSeed(options.seed).toString(36)}`;
+
+    const requiredRooms = Object.values(profile.minRoomsByType).reduce<number>((sum, min) => sum + (min ?? 0), 0);
+    if (width * height * floorCount < Math.max(2, requiredRooms)) {
+      throw new Error(`A ${width}x${height} grid with ${floorCount} floor(s) is too small for the required rooms`);
+    }
+
+    // Lay out each floor as a spanning tree of rooms, linking consecutive floors with stairs
+    const floors: DungeonFloor[] = [];
+    let startCoords = { x: random.int(0, width - 1), y: random.int(0, height - 1) };
+    let previousExit: Room | null = null;
+
+    for (let floorNumber = 1; floorNumber <= floorCount; floorNumber++) {
+      const floor = DungeonHelpers.createEmptyFloor(floorNumber);
+      floor.description = `Level ${floorNumber} of ${options.name}`;
+      floor.rooms = this.layoutFloor(
+        random, 
+        width, 
+        height, 
+        floorNumber, 
+        startCoords, 
+        Math.ceil(requiredRooms / floorCount),
+        `${idPrefix}-f${floorNumber}`
+      );
+      floors.push(floor);
+
+      const start = floor.rooms[0];
+      if (previousExit) {
+        DungeonHelpers.addConnection(previousExit, start, 'up', random.pick(['stairs', 'ladder'] as const));
+      }
+
+      // The room farthest from the floor's start leads on to the next floor (or holds the boss)
+      previousExit = this.findFarthestRoom(floor.rooms, start);
+      startCoords = { x: previousExit.coordinates.x, y: previousExit.coordinates.y };
+    }
+
+    const allRooms = floors.flatMap(floor => floor.rooms);
+    floors[0].rooms[0].type = 'entrance';
+    previousExit!.type = 'boss';
+    this.assignRoomTypes(random, allRooms, profile);
+
+    for (const room of allRooms) {
+      room.description = random.pick(ROOM_DESCRIPTIONS[room.type]);
+      this.populateRoom(random, room, options, profile);
+    }
+
+    return {
+      id: `dungeon-${idPrefix}`,
+      name: options.name,
+      difficulty: options.difficulty,
+      level: options.level,
+      size: { width, height, depth: floorCount },
+      description: `A procedurally generated ${options.difficulty.toLowerCase()} dungeon (seed ${options.seed})`,
+      rooms: [], // Keep for backward compatibility
+      floors
+    };
+  }
+
+  /**
+   * Grows a tree of connected rooms outward from the start cell
+   */
+
+  /**
+   * Checks the size, floor count and level; returns an error message, or undefined if valid
+   * Width, height and floors are capped by GENERATOR_LIMITS so one request can't exhaust memory
+   */
+  static validateOptions(options: Pick<DungeonGenerationOptions, 'size' | 'floors' | 'level'>): string | undefined {
+    const { maxWidth, maxHeight, maxFloors } = GENERATOR_LIMITS;
+    if (!this.isIntegerInRange(options.size?.width, maxWidth) || !this.isIntegerInRange(options.size?.height, maxHeight)) {
+      return `size.width must be a whole number from 1 to ${maxWidth}, and size.height from 1 to ${maxHeight}`;
+    }
+    if (!this.isIntegerInRange(options.floors, maxFloors)) {
+      return `floors must be a whole number from 1 to ${maxFloors}`;
+    }
+    if (!this.isIntegerInRange(options.level, Number.MAX_SAFE_INTEGER)) {
+      return 'level must be a whole number of at least 1';
+    }
+    return undefined;
+  }
+
+  private static isIntegerInRange(value: unknown, max: number): boolean {
+    return typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= max;
+  }
+
+  private static layoutFloor(
+    random: SeededRandom,
+    width: number,
+    height: number,
+    floorNumber: number,
+    start: { x: number; y: number },
+    minRooms: number,
+    idPrefix: string
+  ): Room[] {
+    const cellCount = width * height;
+    const targetRooms = Math.min(cellCount, Math.max(2, minRooms, Math.round(cellCount * (0.35 + random.next() * 0.2))));
+    const occupied = new Map<string, Room>();
+    const rooms: Room[] = [];
+
+    const placeRoom = (x: number, y: number): Room => {
+      const room = DungeonHelpers.createRoom('empty', { x, y, z: floorNumber }, '');
+      room.id = `${idPrefix}-r${rooms.length + 1}`;
+      rooms.push(room);
+      occupied.set(`${x},${y}`, room);
+      return room;
+    };
+
+    placeRoom(start.x, start.y);
+
+    // Attempts are bounded so tiny or crowded grids can't loop forever
+    for (let attempt = 0; rooms.length < targetRooms && attempt < cellCount * 20; attempt++) {
+      const from = random.pick(rooms);
+      const direction = random.pick(CARDINAL_DIRECTIONS);
+      const offset = DungeonValidator.getDirectionOffset(direction);
+      const x = from.coordinates.x + offset.x;
+      const y = from.coordinates.y + offset.y;
+      if (x < 0 || x >= width || y < 0 || y >= height || occupied.has(`${x},${y}`)) {
+        continue;
+      }
+      DungeonHelpers.addConnection(from, placeRoom(x, y), direction);
+    }
+
+    // Add a few loops between neighbouring rooms that aren't connected yet
+    for (const room of rooms) {
+      for (const direction of ['east', 'south'] as const) {
+        const offset = DungeonValidator.getDirectionOffset(direction);
+        const neighbour = occupied.get(`${room.coordinates.x + offset.x},${room.coordinates.y + offset.y}`);
+        if (neighbour && random.chance(0.15)) {
+          DungeonHelpers.addConnection(room, neighbour, direction);
+        }
+      }
+    }
+
+    return rooms;
+  }
+
+  /**
+   * Finds the room with the most steps from the start room (breadth-first)
+   */
+  private static findFarthestRoom(rooms: Room[], start: Room): Room {
+    const roomMap = new Map(rooms.map(room => [room.id, room]));
+    const visited = new Set([start.id]);
+    const queue = [start];
+    let farthest = start;
+    while (queue.length > 0) {
+      farthest = queue.shift()!;
+      for (const connection of farthest.connections) {
+        const target = roomMap.get(connection.targetRoomId);
+        if (target && !visited.has(target.id)) {
+          visited.add(target.id);
+          queue.push(target);
+        }
+      }
+    }
+    return farthest;
+  }
+
+  /**
+   * Assigns types to the remaining rooms, then converts rooms until the profile's minimums are met
+   */
+  private static assignRoomTypes(random: SeededRandom, rooms: Room[], profile: ValidationRuleProfile): void {
+    const totalWeight = ROOM_TYPE_WEIGHTS.reduce((sum, [, weight]) => sum + weight, 0);
+    const flexibleRooms = rooms.filter(room => room.type !== 'entrance' && room.type !== 'boss');
+
+    for (const room of flexibleRooms) {
+      let roll = random.next() * totalWeight;
+      room.type = ROOM_TYPE_WEIGHTS.find(([, weight]) => (roll -= weight) < 0)?.[0] ?? 'empty';
+    }
+
+    const countOf = (type: RoomType) => rooms.filter(room => room.type === type).length;
+    for (const [type, min] of Object.entries(profile.minRoomsByType) as [RoomType, number][]) {
+      while (countOf(type) < min) {
+        // Only convert rooms whose own type stays above its minimum
+        const candidates = flexibleRooms.filter(room => 
+          room.type !== type && countOf(room.type) > (profile.minRoomsByType[room.type] ?? 0)
+        );
+        if (candidates.length === 0) {
+          throw new Error(`Not enough rooms to place ${min} ${type} room(s); try a larger grid or more floors`);
+        }
+        random.pick(candidates).type = type;
+      }
+    }
+  }
+
+  /**
+   * Adds monsters, puzzles and secrets appropriate to a room's type
+   */
+  private static populateRoom(
+    random: SeededRandom,
+    room: Room,
+    options: DungeonGenerationOptions,
+    profile: ValidationRuleProfile
+  ): void {
+    const minLevel = Math.max(1, options.level - profile.monsterLevelWindow.below);
+    const maxLevel = options.level + profile.monsterLevelWindow.above;
+
+    if (room.type === 'combat') {
+      const count = random.int(1, 3);
+      room.monsters = [];
+      for (let i = 0; i < count; i++) {
+        room.monsters.push(this.createMonster(
+          random.pick(MONSTER_TEMPLATES),
+          random.int(minLevel, Math.min(maxLevel, options.level + 1)),
+          options.difficulty,
+          `${room.id}-m${i + 1}`,
+          1
+        ));
+      }
+    }
+
+    if (room.type === 'boss') {
+      room.monsters = [this.createMonster(
+        random.pick(BOSS_TEMPLATES),
+        Math.min(maxLevel, options.level + 2),
+        options.difficulty,
+        `${room.id}-boss`,
+        3
+      )];
+    }
+
+    if (room.type === 'puzzle') {
+      const puzzle = random.pick(PUZZLES);
+      room.puzzle = {
+        id: `${room.id}-puzzle`,
+        type: puzzle.type,
+        difficulty: options.difficulty,
+        description: puzzle.description,
+        solution: puzzle.solution,
+        reward: `${random.int(2, 6) * 10 * options.level} gold`
+      };
+    }
+
+    if (room.type !== 'entrance' && random.chance(room.type === 'treasure' ? 0.5 : 0.1)) {
+      const secret = random.pick(SECRETS);
+      room.secrets = [{
+        id: `${room.id}-secret`,
+        type: secret.type,
+        description: secret.description,
+        discoveryMethod: secret.discoveryMethod,
+        reward: secret.type === 'treasure' ? `${random.int(1, 5) * 10 * options.level} gold` : undefined
+      }];
+    }
+  }
+
+  /**
+   * Creates a monster with stats scaled to its level and the dungeon difficulty
+   */
+  private static createMonster(
+    template: { name: string; type: string; loot: string[] },
+    level: number,
+    difficulty: DifficultyLevel,
+    id: string,
+    strength: number
+  ): Monster {
+    const scale = DIFFICULTY_MULTIPLIERS[difficulty] * strength;
+    return {
+      id,
+      name: template.name,
+      type: template.type,
+      stats: {
+        health: Math.round((20 + level * 10) * scale),
+        attack: Math.round((4 + level * 2) * scale),
+        defense: Math.round((2 + level) * scale),
+        speed: Math.round(8 + level)
+      },
+      level,
+      description: `${template.name} - Level ${level}`,
+      loot: [...template.loot]
+    };
+  }
+}
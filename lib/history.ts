@@ -0,0 +1,133 @@
+/**
+ * Dungeon Revision History
+ * Records a revision on every dungeon save and compares revision snapshots
+ */
+
+import {
+  Dungeon,
+  DungeonHelpers,
+  DungeonRevision,
+  DungeonRevisionSummary,
+  JsonChange,
+  RevisionAction
+} from './api';
+import { getRevisionRepository } from './storage';
+import { DungeonDiffer } from './diff';
+
+/**
+ * Author recorded when a request doesn't name one
+ */
+export const ANONYMOUS_AUTHOR = 'anonymous';
+
+// Author of baseline revisions, which capture edits made before history was recorded
+const UNKNOWN_AUTHOR = 'unknown';
+
+/**
+ * Dungeon revision history
+ */
+export class DungeonHistory {
+  /**
+   * Reads the author of a change from the X-Author request header
+   */
+  static getAuthor(request: Request): string {
+    return request.headers.get('x-author')?.trim() || ANONYMOUS_AUTHOR;
+  }
+
+  /**
+   * Records revisions for saved dungeons
+   * `previous` is the stored copy before the save; if the dungeon has no history yet it is
+   * recorded first as a baseline, so the very first update can still be rolled back
+   */
+  static async record(
+    saves: Array<{ dungeon: Dungeon; previous?: Dungeon }>,
+    author: string,
+    action: RevisionAction,
+    message?: string
+  ): Promise<DungeonRevision[]> {
+    const repository = getRevisionRepository();
+    const withHistory = new Set((await repository.list()).map(r => r.dungeonId));
+    const revisions: DungeonRevision[] = [];
+
+    for (const { dungeon, previous } of saves) {
+      if (previous && !withHistory.has(previous.id)) {
+        revisions.push(this.createRevision(previous, UNKNOWN_AUTHOR, 'baseline', previous.updatedAt));
+      }
+      withHistory.add(dungeon.id);
+      revisions.push(this.createRevision(dungeon, author, action, dungeon.updatedAt, message));
+    }
+
+    await repository.saveMany(revisions);
+    return revisions;
+  }
+
+  /**
+   * Records the deletion of a dungeon as a revision with the next version, holding the deleted copy
+   * Versions keep counting from it, so a dungeon created again with the same ID doesn't reuse them
+   */
+  static async recordDeletion(deleted: Dungeon, author: string): Promise<DungeonRevision> {
+    const tombstone: Dungeon = { ...deleted, version: (deleted.version ?? 0) + 1, updatedAt: new Date().toISOString() };
+    const revisions = await this.record([{ dungeon: tombstone, previous: deleted }], author, 'delete');
+    return revisions[revisions.length - 1];
+  }
+
+  /**
+   * The version after the last revision of every dungeon ID with history
+   * A dungeon created with an ID that was used before starts there instead of at 1
+   */
+  static async getNextVersions(): Promise<Map<string, number>> {
+    const next = new Map<string, number>();
+    for (const revision of await getRevisionRepository().list()) {
+      next.set(revision.dungeonId, Math.max(next.get(revision.dungeonId) ?? 1, revision.version + 1));
+    }
+    return next;
+  }
+
+  /**
+   * Lists a dungeon's revisions, newest first, without their snapshots
+   */
+  static async list(dungeonId: string): Promise<DungeonRevisionSummary[]> {
+    const revisions = await getRevisionRepository().list();
+    return revisions
+      .filter(r => r.dungeonId === dungeonId)
+      .sort((a, b) => b.version - a.version || b.createdAt.localeCompare(a.createdAt))
+      .map(({ snapshot, ...summary }) => summary);
+  }
+
+  /**
+   * Returns the latest revision recorded for a dungeon version
+   */
+  static async get(dungeonId: string, version: number): Promise<DungeonRevision | undefined> {
+    const revisions = await getRevisionRepository().list();
+    return revisions
+      .filter(r => r.dungeonId === dungeonId && r.version === version)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0];
+  }
+
+  /**
+   * Lists every changed value between two snapshots (see DungeonDiffer.diffJson)
+   * Timestamps and the version number are ignored
+   */
+  static diffSnapshots(before: Dungeon, after: Dungeon): JsonChange[] {
+    const ignore = ({ createdAt, updatedAt, version, ...rest }: Dungeon) => rest;
+    return DungeonDiffer.diffJson(ignore(before), ignore(after));
+  }
+
+  private static createRevision(
+    dungeon: Dungeon,
+    author: string,
+    action: RevisionAction,
+    createdAt?: string,
+    message?: string
+  ): DungeonRevision {
+    return {
+      id: `rev-${DungeonHelpers.generateId()}`,
+      dungeonId: dungeon.id,
+      version: dungeon.version ?? 0,
+      author,
+      createdAt: createdAt || new Date().toISOString(),
+      action,
+      message,
+      snapshot: dungeon
+    };
+  }
+}
@@ -0,0 +1,250 @@
+/**
+ * JSON Patch (RFC 6902) and JSON Merge Patch (RFC 7396)
+ *
+ * Both return a patched copy and leave the input untouched.
+ */
+
+/**
+ * One JSON Patch operation; paths are JSON Pointers (RFC 6901), e.g. /rooms/0/monsters/1/stats/health
+ */
+export type JsonPatchOperation =
+  | { op: 'add'; path: string; value: unknown }
+  | { op: 'remove'; path: string }
+  | { op: 'replace'; path: string; value: unknown }
+  | { op: 'move'; from: string; path: string }
+  | { op: 'copy'; from: string; path: string }
+  | { op: 'test'; path: string; value: unknown };
+
+/**
+ * Thrown when a `test` operation doesn't match; the patch was written against a different document
+ */
+export class JsonPatchTestError extends Error {}
+
+type Container = Record<string, unknown> | unknown[];
+
+/**
+ * JSON Patch and merge patch application
+ */
+export class JsonPatch {
+  /**
+   * Applies JSON Patch operations in order; throws (and applies nothing) if any operation fails
+   */
+  static apply<T>(document: T, operations: JsonPatchOperation[]): T {
+    if (!Array.isArray(operations)) {
+      throw new Error('A JSON Patch must be an array of operations');
+    }
+
+    let result: unknown = structuredClone(document);
+    operations.forEach((operation, index) => {
+      try {
+        result = this.applyOperation(result, operation);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        const failure = `Operation ${index} (${operation?.op} ${operation?.path}): ${message}`;
+        throw error instanceof JsonPatchTestError ? new JsonPatchTestError(failure) : new Error(failure);
+      }
+    });
+    return result as T;
+  }
+
+  /**
+   * Applies a merge patch: objects are merged recursively, null removes a field,
+   * and any other value (including arrays) replaces the target value
+   */
+  static applyMerge<T>(target: T, patch: unknown): T {
+    return this.merge(structuredClone(target), patch) as T;
+  }
+
+  private static merge(target: unknown, patch: unknown): unknown {
+    if (!this.isObject(patch)) {
+      return patch;
+    }
+    const result: Record<string, unknown> = this.isObject(target) ? target : {};
+    for (const [key, value] of Object.entries(patch)) {
+      if (key === '__proto__') {
+        continue;
+      }
+      if (value === null) {
+        delete result[key];
+      } else {
+        result[key] = this.merge(result[key], value);
+      }
+    }
+    return result;
+  }
+
+  private static applyOperation(document: unknown, operation: JsonPatchOperation): unknown {
+    if (!this.isObject(operation) || typeof operation.path !== 'string') {
+      throw new Error('Every operation needs an op and a path');
+    }
+
+    switch (operation.op) {
+      case 'add':
+        this.requireValue(operation);
+        return this.add(document, operation.path, structuredClone(operation.value));
+      case 'remove':
+        return this.remove(document, operation.path).document;
+      case 'replace':
+        this.requireValue(operation);
+        return this.replace(document, operation.path, structuredClone(operation.value));
+      case 'move': {
+        this.requireFrom(operation);
+        if (operation.path.startsWith(`${operation.from}/`)) {
+          throw new Error('Cannot move a value into one of its own children');
+        }
+        const { document: removed, value } = this.remove(document, operation.from);
+        return this.add(removed, operation.path, value);
+      }
+      case 'copy':
+        this.requireFrom(operation);
+        return this.add(document, operation.path, structuredClone(this.get(document, operation.from)));
+      case 'test':
+        this.requireValue(operation);
+        if (!this.deepEqual(this.get(document, operation.path), operation.value)) {
+          throw new JsonPatchTestError(`Value is ${JSON.stringify(this.get(document, operation.path))}`);
+        }
+        return document;
+      default:
+        throw new Error(`Unknown op '${(operation as { op?: unknown }).op}'`);
+    }
+  }
+
+  private static add(document: unknown, path: string, value: unknown): unknown {
+    const tokens = this.parsePointer(path);
+    if (tokens.length === 0) {
+      return value;
+    }
+    const key = tokens.pop()!;
+    const parent = this.resolve(document, tokens);
+    if (Array.isArray(parent)) {
+      const index = key === '-' ? parent.length : this.parseIndex(key, parent.length + 1);
+      parent.splice(index, 0, value);
+    } else {
+      parent[key] = value;
+    }
+    return document;
+  }
+
+  private static replace(document: unknown, path: string, value: unknown): unknown {
+    const tokens = this.parsePointer(path);
+    if (tokens.length === 0) {
+      return value;
+    }
+    const key = tokens.pop()!;
+    const parent = this.resolve(document, tokens);
+    if (Array.isArray(parent)) {
+      parent[this.parseIndex(key, parent.length)] = value;
+    } else if (this.hasOwn(parent, key)) {
+      parent[key] = value;
+    } else {
+      throw new Error('Path does not exist');
+    }
+    return document;
+  }
+
+  private static remove(document: unknown, path: string): { document: unknown; value: unknown } {
+    const tokens = this.parsePointer(path);
+    if (tokens.length === 0) {
+      throw new Error('Cannot remove the whole document');
+    }
+    const key = tokens.pop()!;
+    const parent = this.resolve(document, tokens);
+    if (Array.isArray(parent)) {
+      const [value] = parent.splice(this.parseIndex(key, parent.length), 1);
+      return { document, value };
+    }
+    if (!this.hasOwn(parent, key)) {
+      throw new Error('Path does not exist');
+    }
+    const value = parent[key];
+    delete parent[key];
+    return { document, value };
+  }
+
+  private static get(document: unknown, path: string): unknown {
+    const tokens = this.parsePointer(path);
+    if (tokens.length === 0) {
+      return document;
+    }
+    const key = tokens.pop()!;
+    const parent = this.resolve(document, tokens);
+    if (Array.isArray(parent)) {
+      return parent[this.parseIndex(key, parent.length)];
+    }
+    if (!this.hasOwn(parent, key)) {
+      throw new Error('Path does not exist');
+    }
+    return parent[key];
+  }
+
+  // Follows tokens to an existing object or array
+  private static resolve(document: unknown, tokens: string[]): Container {
+    let current: unknown = document;
+    for (const token of tokens) {
+      if (Array.isArray(current)) {
+        current = current[this.parseIndex(token, current.length)];
+      } else if (this.isObject(current) && this.hasOwn(current, token)) {
+        current = current[token];
+      } else {
+        throw new Error('Path does not exist');
+      }
+    }
+    if (!Array.isArray(current) && !this.isObject(current)) {
+      throw new Error('Path does not lead to an object or array');
+    }
+    return current;
+  }
+
+  private static parsePointer(pointer: string): string[] {
+    if (pointer === '') {
+      return [];
+    }
+    if (!pointer.startsWith('/')) {
+      throw new Error(`'${pointer}' is not a JSON Pointer; it must start with /`);
+    }
+    const tokens = pointer.slice(1).split('/').map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+    if (tokens.includes('__proto__')) {
+      throw new Error(`'${pointer}' is not an allowed path`);
+    }
+    return tokens;
+  }
+
+  // Array indexes must be plain numbers below `limit`
+  private static parseIndex(token: string, limit: number): number {
+    if (!/^(0|[1-9]\d*)$/.test(token) || parseInt(token) >= limit) {
+      throw new Error(`Array index '${token}' is out of range`);
+    }
+    return parseInt(token);
+  }
+
+  private static requireValue(operation: object): void {
+    if (!('value' in operation)) {
+      throw new Error('Operation needs a value');
+    }
+  }
+
+  private static requireFrom(operation: { from?: unknown }): void {
+    if (typeof operation.from !== 'string') {
+      throw new Error('Operation needs a from path');
+    }
+  }
+
+  private static deepEqual(a: unknown, b: unknown): boolean {
+    if (Array.isArray(a) && Array.isArray(b)) {
+      return a.length === b.length && a.every((item, i) => this.deepEqual(item, b[i]));
+    }
+    if (this.isObject(a) && this.isObject(b)) {
+      const keys = Object.keys(a);
+      return keys.length === Object.keys(b).length && keys.every(key => this.hasOwn(b, key) && this.deepEqual(a[key], b[key]));
+    }
+    return a === b;
+  }
+
+  private static hasOwn(container: object, key: string): boolean {
+    return Object.prototype.hasOwnProperty.call(container, key);
+  }
+
+  private static isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
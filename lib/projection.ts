@@ -0,0 +1,291 @@
+/**
+ * Dungeon Projections
+ *
+ * Narrows a dungeon served by a custom endpoint to one floor, one room, its monsters or its map,
+ * and trims the result to a sparse field set. Selections come from query params and from
+ * sub-resource paths below the endpoint (/floors, /floors/{n}, /rooms, /rooms/{id}, /monsters, /map).
+ */
+
+import { Dungeon, DungeonFloor, Room, Monster, RoomConnection, Direction, APIRoomData, APIMonsterData, DungeonHelpers } from './api';
+
+/**
+ * Lists that can be returned instead of the dungeon, floor or room
+ */
+export type DungeonView = 'floors' | 'rooms' | 'monsters' | 'map';
+
+/**
+ * What a client asked for; all parts are optional and combine (e.g. the monsters of one floor)
+ */
+export interface DungeonSelection {
+  floor?: number;     // Only this floor
+  roomId?: string;    // Only this room (on `floor`, when given)
+  view?: DungeonView; // A list of the selected floors, rooms or monsters, or their map
+  fields?: string[];  // Dot paths to keep, e.g. rooms.id; arrays are traversed
+}
+
+/**
+ * A monster listed with the room and floor it is in
+ */
+export type DungeonMonsterEntry = (Monster | APIMonsterData) & {
+  roomId: string | number;  // Client room IDs are numbers
+  floor: number;
+};
+
+/**
+ * Room layout for drawing a dungeon map, without room contents
+ */
+export interface DungeonMapData {
+  width: number;
+  height: number;
+  floors: {
+    floorNumber: number;
+    name: string;
+    rooms: DungeonMapRoom[];
+  }[];
+}
+
+export interface DungeonMapRoom {
+  id: string | number;      // Client room IDs are numbers
+  type: string;
+  x: number;
+  y: number;
+  connections: RoomConnection[] | Direction[];  // Directions only in the client format
+}
+
+/**
+ * Thrown when the selected floor, room or sub-resource doesn't exist in the dungeon
+ */
+export class SelectionNotFoundError extends Error {}
+
+// A room with the floor it is on, in the same order as the client-format room list
+interface PlacedRoom {
+  room: Room;
+  clientRoom?: APIRoomData;
+  floor: number;
+}
+
+const VIEWS: DungeonView[] = ['floors', 'rooms', 'monsters', 'map'];
+
+// Nested field names; true keeps the whole value
+interface FieldTree {
+  [key: string]: FieldTree | true;
+}
+
+/**
+ * Floor, room, monster and field selection for dungeon responses
+ */
+export class DungeonProjection {
+  /**
+   * Reads a selection from URL search params and the path segments below the endpoint
+   * Throws SelectionNotFoundError for an unknown sub-resource, and Error with a readable message on invalid values
+   * Params: floor, room, view (floors | rooms | monsters | map), fields (comma-separated dot paths)
+   */
+  static parse(searchParams: URLSearchParams, subPath: string[] = []): DungeonSelection {
+    const floorParam = searchParams.get('floor');
+    if (floorParam !== null && !/^-?\d+$/.test(floorParam)) {
+      throw new Error('floor must be a whole number');
+    }
+
+    const view = searchParams.get('view');
+    if (view !== null && !VIEWS.includes(view as DungeonView)) {
+      throw new Error(`Unsupported view: ${view}. Use one of: ${VIEWS.join(', ')}`);
+    }
+
+    const selection: DungeonSelection = {
+      floor: floorParam !== null ? parseInt(floorParam) : undefined,
+      roomId: searchParams.get('room') || undefined,
+      view: (view as DungeonView | null) ?? undefined,
+      fields: this.parseFields(searchParams)
+    };
+
+    // The path picks the resource; query params may only repeat it
+    const fromPath = this.parseSubPath(subPath);
+    const params = { floor: 'floor', roomId: 'room', view: 'view' } as const;
+    for (const key of Object.keys(params) as (keyof typeof params)[]) {
+      if (fromPath[key] === undefined) continue;
+      if (selection[key] !== undefined && selection[key] !== fromPath[key]) {
+        throw new Error(`${params[key]} conflicts with the path /${subPath.join('/')}`);
+      }
+      Object.assign(selection, { [key]: fromPath[key] });
+    }
+
+    if (selection.roomId && (selection.view === 'floors' || selection.view === 'map')) {
+      throw new Error(`view=${selection.view} cannot be combined with a room`);
+    }
+    return selection;
+  }
+
+  /**
+   * Reads the `fields` param (comma-separated dot paths); throws on invalid paths
+   */
+  static parseFields(searchParams: URLSearchParams): string[] | undefined {
+    const fields = searchParams.get('fields')?.split(',').map(f => f.trim()).filter(Boolean);
+    const invalidField = fields?.find(f => !/^[A-Za-z0-9_]+(\.[A-Za-z0-9_]+)*$/.test(f) || f.split('.').includes('__proto__'));
+    if (invalidField) {
+      throw new Error(`Invalid field '${invalidField}'; use dot paths such as rooms.id`);
+    }
+    return fields && fields.length > 0 ? fields : undefined;
+  }
+
+  /**
+   * Applies a selection to a dungeon, in the internal or the game-client format
+   * Client rooms keep the IDs they have in the full client-format dungeon, and in the client format
+   * `roomId` is matched against those IDs first (then against internal IDs)
+   */
+  static select(dungeon: Dungeon, selection: DungeonSelection, clientFormat: boolean): unknown {
+    const clientDungeon = clientFormat ? DungeonHelpers.toApiDungeon(dungeon) : undefined;
+    let placed = this.getPlacedRooms(dungeon, clientDungeon?.rooms);
+    let result: unknown = clientDungeon ?? dungeon;
+
+    if (selection.floor !== undefined) {
+      const floor = this.getFloor(dungeon, selection.floor);
+      placed = placed.filter(p => p.floor === selection.floor);
+      result = clientFormat ? { ...floor, rooms: placed.map(p => p.clientRoom) } : floor;
+    }
+
+    if (selection.roomId) {
+      placed = this.findRooms(placed, selection.roomId, clientFormat);
+      if (placed.length === 0) {
+        const where = selection.floor !== undefined ? ` on floor ${selection.floor}` : '';
+        throw new SelectionNotFoundError(`Room ${selection.roomId} not found${where}`);
+      }
+      result = clientFormat ? placed[0].clientRoom : placed[0].room;
+    }
+
+    switch (selection.view) {
+      case 'floors':
+        result = this.getFloors(dungeon, selection.floor).map(floor => clientFormat
+          ? { ...floor, rooms: placed.filter(p => p.floor === floor.floorNumber).map(p => p.clientRoom) }
+          : floor);
+        break;
+      case 'rooms':
+        result = placed.map(p => clientFormat ? p.clientRoom : p.room);
+        break;
+      case 'monsters':
+        result = placed.flatMap(p => clientFormat
+          ? (p.clientRoom?.monsters || []).map((monster): DungeonMonsterEntry => ({ ...monster, roomId: p.clientRoom!.id, floor: p.floor }))
+          : (p.room.monsters || []).map((monster): DungeonMonsterEntry => ({ ...monster, roomId: p.room.id, floor: p.floor })));
+        break;
+      case 'map':
+        result = this.buildMap(dungeon, selection.floor, placed, clientFormat);
+        break;
+    }
+
+    return selection.fields ? this.pickFields(result, selection.fields) : result;
+  }
+
+  /**
+   * Keeps only the listed dot paths; paths missing from the data are skipped
+   * A path that ends at an object or array keeps all of it
+   */
+  static pickFields(value: unknown, fields: string[]): unknown {
+    const tree: FieldTree = {};
+    for (const field of fields) {
+      const parts = field.split('.');
+      if (parts.includes('__proto__')) continue;
+      let node = tree;
+      for (let i = 0; i < parts.length; i++) {
+        const existing = node[parts[i]];
+        if (existing === true) break;
+        if (i === parts.length - 1) {
+          node[parts[i]] = true;
+        } else {
+          node = node[parts[i]] = existing || {};
+        }
+      }
+    }
+    return this.pick(value, tree);
+  }
+
+  private static pick(value: unknown, tree: FieldTree): unknown {
+    if (Array.isArray(value)) {
+      return value.map(item => this.pick(item, tree));
+    }
+    if (typeof value !== 'object' || value === null) {
+      return value;
+    }
+    const source = value as Record<string, unknown>;
+    const picked: Record<string, unknown> = {};
+    for (const [key, subtree] of Object.entries(tree)) {
+      if (!Object.prototype.hasOwnProperty.call(source, key)) continue;
+      picked[key] = subtree === true ? source[key] : this.pick(source[key], subtree);
+    }
+    return picked;
+  }
+
+  // Rooms matching a room ID; client-format IDs are numbers, so they are compared as text
+  private static findRooms(placed: PlacedRoom[], roomId: string, clientFormat: boolean): PlacedRoom[] {
+    if (clientFormat) {
+      const byClientId = placed.filter(p => p.clientRoom && String(p.clientRoom.id) === roomId);
+      if (byClientId.length > 0) {
+        return byClientId;
+      }
+    }
+    return placed.filter(p => p.room.id === roomId);
+  }
+
+  // Sub-resources below a custom endpoint, as a selection
+  private static parseSubPath(segments: string[]): Partial<DungeonSelection> {
+    const [resource, id, ...rest] = segments;
+    if (segments.length === 0) {
+      return {};
+    }
+    if (rest.length === 0) {
+      if (resource === 'floors' && id === undefined) return { view: 'floors' };
+      if (resource === 'floors' && /^-?\d+$/.test(id)) return { floor: parseInt(id) };
+      if (resource === 'rooms') return id === undefined ? { view: 'rooms' } : { roomId: id };
+      if ((resource === 'monsters' || resource === 'map') && id === undefined) return { view: resource };
+    }
+    throw new SelectionNotFoundError(`Unknown sub-resource /${segments.join('/')}; use /floors, /floors/{n}, /rooms, /rooms/{id}, /monsters or /map`);
+  }
+
+  // Room positions and connections per floor
+  private static buildMap(dungeon: Dungeon, floorNumber: number | undefined, placed: PlacedRoom[], clientFormat: boolean): DungeonMapData {
+    return {
+      width: dungeon.size.width,
+      height: dungeon.size.height,
+      floors: this.getFloors(dungeon, floorNumber).map(floor => ({
+        floorNumber: floor.floorNumber,
+        name: floor.name,
+        rooms: placed.filter(p => p.floor === floor.floorNumber).map(p => ({
+          id: clientFormat ? p.clientRoom!.id : p.room.id,
+          type: clientFormat ? p.clientRoom!.type : p.room.type,
+          x: p.room.coordinates.x,
+          y: p.room.coordinates.y,
+          connections: clientFormat ? p.clientRoom!.connections : p.room.connections
+        }))
+      }))
+    };
+  }
+
+  // All floors, or just `floorNumber`
+  private static getFloors(dungeon: Dungeon, floorNumber?: number): DungeonFloor[] {
+    if (floorNumber !== undefined) {
+      return [this.getFloor(dungeon, floorNumber)];
+    }
+    return dungeon.floors && dungeon.floors.length > 0 ? dungeon.floors : [this.getFloor(dungeon, 1)];
+  }
+
+  // Legacy dungeons only have floor 1
+  private static getFloor(dungeon: Dungeon, floorNumber: number): DungeonFloor {
+    if (dungeon.floors && dungeon.floors.length > 0) {
+      const floor = dungeon.floors.find(f => f.floorNumber === floorNumber);
+      if (!floor) {
+        throw new SelectionNotFoundError(`Floor ${floorNumber} not found`);
+      }
+      return floor;
+    }
+    if (floorNumber !== 1) {
+      throw new SelectionNotFoundError('This dungeon does not have multiple floors');
+    }
+    return { floorNumber: 1, name: 'Ground Floor', description: '', rooms: dungeon.rooms || [] };
+  }
+
+  // Rooms in toApiDungeon order (floor by floor), paired with their client-format room
+  private static getPlacedRooms(dungeon: Dungeon, clientRooms?: APIRoomData[]): PlacedRoom[] {
+    const placed: Omit<PlacedRoom, 'clientRoom'>[] = dungeon.floors && dungeon.floors.length > 0
+      ? dungeon.floors.flatMap(floor => floor.rooms.map(room => ({ room, floor: floor.floorNumber })))
+      : (dungeon.rooms || []).map(room => ({ room, floor: 1 }));
+    return placed.map((p, i) => ({ ...p, clientRoom: clientRooms?.[i] }));
+  }
+}
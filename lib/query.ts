@@ -0,0 +1,235 @@
+/**
+ * Dungeon List Queries
+ *
+ * Filtering, sorting and cursor pagination for GET /api/dungeon.
+ */
+
+import { Dungeon, DifficultyLevel, RoomType, PageInfo, DungeonFilter, DungeonHelpers } from './api';
+
+export type DungeonSortField = 'name' | 'level' | 'updatedAt';
+
+/**
+ * Parsed list query: a filter plus sorting and paging
+ */
+export interface DungeonListQuery extends DungeonFilter {
+  sort?: DungeonSortField;  // Without a sort, dungeons keep their stored order
+  order: 'asc' | 'desc';
+  limit?: number;
+  cursor?: DungeonListCursor;
+}
+
+/**
+ * Position after which the next page starts, sent to clients as an opaque base64url string
+ */
+export interface DungeonListCursor {
+  sort?: DungeonSortField;
+  order: 'asc' | 'desc';
+  value: string | number;   // Sort value of the last dungeon on the previous page (unused without a sort)
+  id: string;
+}
+
+const DIFFICULTIES: DifficultyLevel[] = ['Easy', 'Medium', 'Hard', 'Expert'];
+const ROOM_TYPES: RoomType[] = ['entrance', 'boss', 'treasure', 'puzzle', 'combat', 'rest', 'trap', 'empty'];
+const SORT_FIELDS: DungeonSortField[] = ['name', 'level', 'updatedAt'];
+const MAX_LIMIT = 100;
+
+/**
+ * Dungeon list filtering, sorting and pagination
+ */
+export class DungeonQuery {
+  /**
+   * Reads a list query from URL search params; throws with a readable message on invalid values
+   * Params: difficulty (comma-separated), minLevel, maxLevel, q, monster, roomType (comma-separated),
+   * sort (name | level | updatedAt), order (asc | desc), limit (1-100), cursor
+   */
+  static parse(searchParams: URLSearchParams): DungeonListQuery {
+    const list = (name: string) => searchParams.get(name)?.split(',').map(v => v.trim()).filter(Boolean);
+    const integer = (name: string, min: number, max: number = Number.MAX_SAFE_INTEGER) => {
+      const value = searchParams.get(name);
+      if (value === null) return undefined;
+      if (!/^\d+$/.test(value) || parseInt(value) < min || parseInt(value) > max) {
+        throw new Error(`${name} must be a whole number from ${min}${max < Number.MAX_SAFE_INTEGER ? ` to ${max}` : ''}`);
+      }
+      return parseInt(value);
+    };
+
+    const difficulties = list('difficulty');
+    const invalidDifficulty = difficulties?.find(d => !DIFFICULTIES.includes(d as DifficultyLevel));
+    if (invalidDifficulty) {
+      throw new Error(`Unknown difficulty '${invalidDifficulty}'. Use one of: ${DIFFICULTIES.join(', ')}`);
+    }
+
+    const roomTypes = list('roomType');
+    const invalidRoomType = roomTypes?.find(t => !ROOM_TYPES.includes(t as RoomType));
+    if (invalidRoomType) {
+      throw new Error(`Unknown room type '${invalidRoomType}'. Use one of: ${ROOM_TYPES.join(', ')}`);
+    }
+
+    const sort = searchParams.get('sort') ?? undefined;
+    if (sort !== undefined && !SORT_FIELDS.includes(sort as DungeonSortField)) {
+      throw new Error(`Cannot sort by '${sort}'. Use one of: ${SORT_FIELDS.join(', ')}`);
+    }
+
+    const order = searchParams.get('order') ?? 'asc';
+    if (order !== 'asc' && order !== 'desc') {
+      throw new Error(`order must be 'asc' or 'desc'`);
+    }
+
+    const cursorParam = searchParams.get('cursor');
+    const cursor = cursorParam ? this.decodeCursor(cursorParam) : undefined;
+    if (cursor && (cursor.sort !== sort || cursor.order !== order)) {
+      throw new Error('cursor belongs to a different sort; start again without a cursor');
+    }
+
+    return {
+      difficulties: difficulties as DifficultyLevel[] | undefined,
+      minLevel: integer('minLevel', 0),
+      maxLevel: integer('maxLevel', 0),
+      text: searchParams.get('q')?.trim() || undefined,
+      monster: searchParams.get('monster')?.trim() || undefined,
+      roomTypes: roomTypes as RoomType[] | undefined,
+      sort: sort as DungeonSortField | undefined,
+      order,
+      limit: integer('limit', 1, MAX_LIMIT),
+      cursor
+    };
+  }
+
+  /**
+   * Filters, sorts and pages dungeons
+   * Throws when an unsorted list's cursor points at a dungeon that no longer matches
+   */
+  static run(dungeons: Dungeon[], query: DungeonListQuery): { items: Dungeon[]; page: PageInfo } {
+    const matches = this.filter(dungeons, query);
+    if (query.sort) {
+      const direction = query.order === 'desc' ? -1 : 1;
+      matches.sort((a, b) => direction * this.compare(this.sortValue(a, query.sort!), a.id, this.sortValue(b, query.sort!), b.id));
+    }
+
+    let start = 0;
+    const cursor = query.cursor;
+    if (cursor) {
+      start = query.sort
+        ? this.findStartAfter(matches, query, cursor)
+        : matches.findIndex(d => d.id === cursor.id) + 1;
+      if (!query.sort && start === 0) {
+        throw new Error('cursor is no longer valid; start again without a cursor');
+      }
+    }
+
+    const end = query.limit ? start + query.limit : matches.length;
+    const items = matches.slice(start, end);
+    const last = items[items.length - 1];
+    return {
+      items,
+      page: {
+        total: matches.length,
+        limit: query.limit,
+        nextCursor: end < matches.length && last ? this.encodeCursor({
+          sort: query.sort,
+          order: query.order,
+          value: query.sort ? this.sortValue(last, query.sort) : '',
+          id: last.id
+        }) : undefined
+      }
+    };
+  }
+
+  /**
+   * Dungeons matching a filter, in their original order
+   */
+  static filter(dungeons: Dungeon[], filter: DungeonFilter): Dungeon[] {
+    return dungeons.filter(dungeon => this.matches(dungeon, filter));
+  }
+
+  /**
+   * Checks a stored filter (e.g. from an endpoint configuration); returns an error message, or undefined if valid
+   */
+  static validateFilter(filter: DungeonFilter): string | undefined {
+    if (typeof filter !== 'object' || filter === null || Array.isArray(filter)) {
+      return 'filter must be an object';
+    }
+    const invalidDifficulty = filter.difficulties?.find(d => !DIFFICULTIES.includes(d));
+    if (filter.difficulties !== undefined && (!Array.isArray(filter.difficulties) || invalidDifficulty)) {
+      return `filter.difficulties must list difficulties from: ${DIFFICULTIES.join(', ')}`;
+    }
+    const invalidRoomType = filter.roomTypes?.find(t => !ROOM_TYPES.includes(t));
+    if (filter.roomTypes !== undefined && (!Array.isArray(filter.roomTypes) || invalidRoomType)) {
+      return `filter.roomTypes must list room types from: ${ROOM_TYPES.join(', ')}`;
+    }
+    for (const field of ['minLevel', 'maxLevel'] as const) {
+      const value = filter[field];
+      if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+        return `filter.${field} must be a whole number from 0`;
+      }
+    }
+    if (filter.minLevel !== undefined && filter.maxLevel !== undefined && filter.minLevel > filter.maxLevel) {
+      return 'filter.minLevel cannot be above filter.maxLevel';
+    }
+    for (const field of ['text', 'monster'] as const) {
+      if (filter[field] !== undefined && typeof filter[field] !== 'string') {
+        return `filter.${field} must be text`;
+      }
+    }
+    return undefined;
+  }
+
+  private static matches(dungeon: Dungeon, query: DungeonFilter): boolean {
+    if (query.difficulties && !query.difficulties.includes(dungeon.difficulty)) return false;
+    if (query.minLevel !== undefined && dungeon.level < query.minLevel) return false;
+    if (query.maxLevel !== undefined && dungeon.level > query.maxLevel) return false;
+    if (query.text && !dungeon.name.toLowerCase().includes(query.text.toLowerCase())) return false;
+
+    const rooms = DungeonHelpers.getAllRooms(dungeon);
+    if (query.roomTypes && !query.roomTypes.every(type => rooms.some(room => room.type === type))) return false;
+    if (query.monster) {
+      const monster = query.monster.toLowerCase();
+      if (!rooms.some(room => room.monsters?.some(m => m.name.toLowerCase().includes(monster)))) return false;
+    }
+    return true;
+  }
+
+  // Sorted position of the first dungeon after the cursor; works even if the cursor's dungeon was deleted
+  private static findStartAfter(sorted: Dungeon[], query: DungeonListQuery, cursor: DungeonListCursor): number {
+    const direction = query.order === 'desc' ? -1 : 1;
+    const index = sorted.findIndex(d =>
+      direction * this.compare(this.sortValue(d, query.sort!), d.id, cursor.value, cursor.id) > 0
+    );
+    return index === -1 ? sorted.length : index;
+  }
+
+  private static sortValue(dungeon: Dungeon, sort: DungeonSortField): string | number {
+    switch (sort) {
+      case 'name':
+        return dungeon.name.toLowerCase();
+      case 'level':
+        return dungeon.level;
+      case 'updatedAt':
+        return dungeon.updatedAt || '';
+    }
+  }
+
+  // Orders by sort value, then by ID so every position is unique
+  private static compare(aValue: string | number, aId: string, bValue: string | number, bId: string): number {
+    if (aValue !== bValue) {
+      return aValue < bValue ? -1 : 1;
+    }
+    return aId < bId ? -1 : (aId > bId ? 1 : 0);
+  }
+
+  private static encodeCursor(cursor: DungeonListCursor): string {
+    return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+  }
+
+  private static decodeCursor(value: string): DungeonListCursor {
+    try {
+      const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf-8'));
+      if (typeof cursor?.id !== 'string' || (typeof cursor.value !== 'string' && typeof cursor.value !== 'number')) {
+        throw new Error();
+      }
+      return cursor;
+    } catch {
+      throw new Error('cursor is not valid');
+    }
+  }
+}
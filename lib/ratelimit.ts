@@ -0,0 +1,209 @@
+/**
+ * Custom Endpoint Rate Limits
+ *
+ * Token buckets per endpoint and per API key, kept in memory. Each server process counts
+ * on its own, so with several instances the effective limit is the configured one per instance.
+ */
+
+import { ApiEndpointConfig, ApiKey, EndpointRateLimit, RateLimitRule } from './api';
+
+/**
+ * Outcome of a request against an endpoint's buckets, reported from the one closest to running out
+ */
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;              // Size of the reported bucket
+  remaining: number;          // Whole requests left in it
+  resetSeconds: number;       // Until it is full again
+  retryAfterSeconds: number;  // Until the next request would be allowed; 0 when allowed
+  policy: string;             // Every applied bucket, as RateLimit-Policy
+}
+
+interface Bucket {
+  rule: RateLimitRule;
+  tokens: number;
+  updatedAt: number;  // ms
+}
+
+// A bucket that applies to this request, refilled to now
+interface AppliedBucket {
+  id: string;
+  rule: RateLimitRule;
+  tokens: number;
+}
+
+// Most buckets kept; beyond this full buckets are dropped, then the least recently used ones
+// down to PRUNED_BUCKETS, so a flood of new callers doesn't prune on every request
+const MAX_BUCKETS = 10000;
+const PRUNED_BUCKETS = 9000;
+
+// In order of last use: every request moves its buckets to the end
+// Kept on globalThis so the counts survive the module being loaded again, e.g. after a dev server reload
+const buckets: Map<string, Bucket> =
+  ((globalThis as { __dungeonRateLimitBuckets?: Map<string, Bucket> }).__dungeonRateLimitBuckets ??= new Map());
+
+// Set from DUNGEON_TRUSTED_PROXIES by RateLimiter.configure when the module loads
+let trustedProxyCount = 0;
+
+/**
+ * Rate limit checks for custom endpoints
+ */
+export class RateLimiter {
+  /**
+   * Takes one request from the endpoint's buckets; `key` is the caller's valid key, if any
+   * Nothing is taken when any bucket is empty; returns undefined when the endpoint has no limits
+   */
+  static take(request: Request, endpoint: ApiEndpointConfig, key?: ApiKey): RateLimitResult | undefined {
+    const { endpoint: endpointRule, perKey } = endpoint.rateLimit ?? {};
+    if (!endpointRule && !perKey) {
+      return undefined;
+    }
+
+    const now = Date.now();
+
+    // Bucket IDs include the rule, so changing an endpoint's limits starts fresh buckets
+    const applied: AppliedBucket[] = [];
+    if (endpointRule) {
+      applied.push(this.refill(`${endpoint.id}:${this.describe(endpointRule)}`, endpointRule, now));
+    }
+    if (perKey) {
+      const client = this.getClientId(request, key);
+      applied.push(this.refill(`${endpoint.id}:${this.describe(perKey)}:${client}`, perKey, now));
+    }
+
+    const allowed = applied.every(b => b.tokens >= 1);
+    for (const bucket of applied) {
+      buckets.delete(bucket.id);
+      buckets.set(bucket.id, { rule: bucket.rule, tokens: allowed ? bucket.tokens - 1 : bucket.tokens, updatedAt: now });
+    }
+    if (buckets.size > MAX_BUCKETS) {
+      this.prune(now);
+    }
+
+    const reported = applied
+      .map(b => this.report({ ...b, tokens: allowed ? b.tokens - 1 : b.tokens }))
+      .sort((a, b) => a.remaining - b.remaining || b.resetSeconds - a.resetSeconds)[0];
+    return {
+      ...reported,
+      allowed,
+      retryAfterSeconds: allowed ? 0 : Math.max(...applied.map(b => this.secondsUntil(b, 1))),
+      policy: applied.map(b => `${b.rule.requests};w=${b.rule.windowSeconds}`).join(', ')
+    };
+  }
+
+  /**
+   * RateLimit-* headers for a response, plus Retry-After when the request was refused
+   */
+  static headers(result: RateLimitResult): Record<string, string> {
+    return {
+      'RateLimit-Limit': String(result.limit),
+      'RateLimit-Remaining': String(result.remaining),
+      'RateLimit-Reset': String(result.resetSeconds),
+      'RateLimit-Policy': result.policy,
+      ...(!result.allowed && { 'Retry-After': String(result.retryAfterSeconds) })
+    };
+  }
+
+  /**
+   * Checks an endpoint's rate limit settings; returns an error message, or undefined if valid
+   */
+  static validate(rateLimit: EndpointRateLimit): string | undefined {
+    if (typeof rateLimit !== 'object' || rateLimit === null || Array.isArray(rateLimit)) {
+      return 'rateLimit must be an object';
+    }
+    for (const name of ['endpoint', 'perKey'] as const) {
+      const rule = rateLimit[name];
+      if (rule === undefined) continue;
+      if (typeof rule !== 'object' || rule === null ||
+          !Number.isInteger(rule.requests) || rule.requests < 1 ||
+          !Number.isInteger(rule.windowSeconds) || rule.windowSeconds < 1) {
+        return `rateLimit.${name} needs requests and windowSeconds as whole numbers from 1`;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Reads the number of reverse proxies in front of the server that append the caller's address to
+   * X-Forwarded-For from DUNGEON_TRUSTED_PROXIES; 0 (the default) ignores the header
+   * Runs once when the module loads. An invalid value is reported once and treated as 0.
+   */
+  static configure(): void {
+    const value = process.env.DUNGEON_TRUSTED_PROXIES || '0';
+    if (/^\d+$/.test(value)) {
+      trustedProxyCount = parseInt(value);
+      return;
+    }
+    trustedProxyCount = 0;
+    console.error(`Invalid configuration: DUNGEON_TRUSTED_PROXIES must be a whole number of proxies; got '${value}'. X-Forwarded-For is ignored until it is fixed.`);
+  }
+
+  // The API key's ID, or the caller's address for requests without a valid key
+  // Without trusted proxies the address can't be told apart from one the caller made up,
+  // so every caller without a key shares one bucket
+  private static getClientId(request: Request, key?: ApiKey): string {
+    if (key) {
+      return `key:${key.id}`;
+    }
+    const address = this.getForwardedAddress(request);
+    return address ? `ip:${address}` : 'anonymous';
+  }
+
+  // The address the outermost trusted proxy received the request from: each trusted proxy appends
+  // one entry to X-Forwarded-For, and entries further left were sent by the caller
+  private static getForwardedAddress(request: Request): string | undefined {
+    if (trustedProxyCount === 0) {
+      return undefined;
+    }
+    const forwarded = (request.headers.get('x-forwarded-for') ?? '').split(',').map(a => a.trim()).filter(Boolean);
+    return forwarded[Math.max(0, forwarded.length - trustedProxyCount)];
+  }
+
+  private static refill(id: string, rule: RateLimitRule, now: number): AppliedBucket {
+    const bucket = buckets.get(id);
+    const tokens = bucket
+      ? Math.min(rule.requests, bucket.tokens + (now - bucket.updatedAt) * this.ratePerMs(rule))
+      : rule.requests;
+    return { id, rule, tokens };
+  }
+
+  private static report(bucket: AppliedBucket): Omit<RateLimitResult, 'allowed' | 'retryAfterSeconds' | 'policy'> {
+    return {
+      limit: bucket.rule.requests,
+      remaining: Math.floor(bucket.tokens),
+      resetSeconds: this.secondsUntil(bucket, bucket.rule.requests)
+    };
+  }
+
+  // Whole seconds until the bucket holds `tokens` tokens
+  private static secondsUntil(bucket: AppliedBucket, tokens: number): number {
+    return Math.max(0, Math.ceil((tokens - bucket.tokens) / this.ratePerMs(bucket.rule) / 1000));
+  }
+
+  private static ratePerMs(rule: RateLimitRule): number {
+    return rule.requests / (rule.windowSeconds * 1000);
+  }
+
+  private static describe(rule: RateLimitRule): string {
+    return `${rule.requests}/${rule.windowSeconds}`;
+  }
+
+  // Full buckets behave the same as missing ones, so they go first. If that isn't enough (e.g. a
+  // flood from many addresses), the least recently used buckets go too and start full again.
+  private static prune(now: number): void {
+    for (const [id, bucket] of buckets) {
+      if (bucket.tokens + (now - bucket.updatedAt) * this.ratePerMs(bucket.rule) >= bucket.rule.requests) {
+        buckets.delete(id);
+      }
+    }
+    if (buckets.size <= MAX_BUCKETS) {
+      return;
+    }
+    for (const id of buckets.keys()) {
+      if (buckets.size <= PRUNED_BUCKETS) break;
+      buckets.delete(id);
+    }
+  }
+}
+
+RateLimiter.configure();
@@ -0,0 +1,74 @@
+/**
+ * Dungeon Rooms
+ *
+ * Shared steps of the per-room routes (/api/dungeon/{id}/floors/{floor}/rooms): finding a
+ * floor's rooms, validating a changed room and saving its dungeon without losing other changes.
+ */
+
+import { NextResponse } from 'next/server';
+import { ApiResponse, Dungeon, DungeonHelpers, DungeonValidator, Room, ValidationError, ValidationResult } from './api';
+import { getDungeonRepository, loadValidationRules } from './storage';
+import { DungeonHistory } from './history';
+
+/**
+ * Room lookup, validation and saving for the room routes
+ */
+export class DungeonRooms {
+  /**
+   * The (mutable) room list of a floor; legacy dungeons only have floor 1
+   */
+  static getFloorRoomList(dungeon: Dungeon, floorNumber: number): Room[] | undefined {
+    if (dungeon.floors && dungeon.floors.length > 0) {
+      return dungeon.floors.find(f => f.floorNumber === floorNumber)?.rooms;
+    }
+    if (floorNumber !== 1) {
+      return undefined;
+    }
+    dungeon.rooms = dungeon.rooms || [];
+    return dungeon.rooms;
+  }
+
+  /**
+   * Validates a changed room with its dungeon's rule profile; connections must lead to existing rooms
+   */
+  static async validateChangedRoom(dungeon: Dungeon, room: Room): Promise<ValidationResult> {
+    const profile = DungeonValidator.getRuleProfile(dungeon.difficulty, await loadValidationRules());
+    const validation = DungeonValidator.validateRoom(room, dungeon.level, profile);
+    const roomIds = new Set(DungeonHelpers.getAllRooms(dungeon).map(r => r.id));
+    const targetErrors: ValidationError[] = (room.connections || [])
+      .filter(connection => !roomIds.has(connection.targetRoomId))
+      .map(connection => ({
+        severity: 'error',
+        code: 'invalid_connection_target',
+        field: `room.${room.id}.connections`,
+        message: `Connection to non-existent room: ${connection.targetRoomId}`
+      }));
+    return DungeonValidator.toResult([...validation.errors, ...targetErrors, ...validation.warnings]);
+  }
+
+  /**
+   * Saves a changed dungeon and records the revision
+   * Returns a 409 response if it was saved by someone else in the meantime, otherwise null
+   */
+  static async saveDungeon(
+    current: Dungeon,
+    updated: Dungeon,
+    request: Request,
+    message: string
+  ): Promise<NextResponse | null> {
+    updated.version = (current.version ?? 0) + 1;
+    updated.updatedAt = new Date().toISOString();
+    const result = await getDungeonRepository().saveIf(updated, stored =>
+      !!stored && (stored.version ?? 0) === (current.version ?? 0)
+    );
+    if (!result.saved) {
+      return NextResponse.json<ApiResponse<Dungeon>>({
+        success: false,
+        error: 'Dungeon was changed by someone else while the room was being saved; try again',
+        data: result.current
+      }, { status: 409 });
+    }
+    await DungeonHistory.record([{ dungeon: updated, previous: current }], DungeonHistory.getAuthor(request), 'update', message);
+    return null;
+  }
+}
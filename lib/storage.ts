@@ -0,0 +1,821 @@
+/**
+ * Dungeon Crawler Storage
+ * Repositories for dungeons, endpoint configurations, validation rules, revisions, API keys and
+ * endpoint usage, backed by JSON files or SQLite. Dungeons, endpoint configurations, validation
+ * rules and API keys are cached in memory.
+ */
+
+import { readFile, writeFile, rename, unlink, mkdir } from 'fs/promises';
+import { existsSync, mkdirSync, readFileSync, watch, FSWatcher } from 'fs';
+import { basename, dirname, join } from 'path';
+import type { DatabaseSync } from 'node:sqlite';
+import {
+  Dungeon,
+  ApiEndpointConfig,
+  DungeonRevision,
+  ApiKey,
+  EndpointUsageBucket,
+  StoredValidationRuleProfile,
+  ValidationRuleSet,
+  DEFAULT_VALIDATION_RULE_PROFILE
+} from './api';
+
+// ============================================================================
+// Repository Interfaces
+// ============================================================================
+
+/**
+ * Storage for records keyed by a string `id`
+ * Records are returned in insertion order; saving an existing ID replaces it in place
+ */
+export interface Repository<T extends { id: string }> {
+  list(): Promise<T[]>;
+  get(id: string): Promise<T | undefined>;
+  save(record: T): Promise<void>;
+  saveMany(records: T[]): Promise<void>;
+  saveIf(record: T, check: (current: T | undefined) => boolean): Promise<SaveIfResult<T>>;
+  delete(id: string): Promise<boolean>; // False when no record had the ID
+  deleteIf(id: string, check: (current: T | undefined) => boolean): Promise<DeleteIfResult<T>>;
+  deleteMany(ids: string[]): Promise<number>; // Number of records deleted
+}
+
+/**
+ * Result of Repository.saveIf
+ * When the check fails nothing is written and `current` holds the stored record (if any)
+ */
+export interface SaveIfResult<T> {
+  saved: boolean;
+  current?: T;
+}
+
+/**
+ * Result of Repository.deleteIf
+ * When the check fails (or there is no record) nothing is deleted and `current` holds the stored record (if any)
+ */
+export interface DeleteIfResult<T> {
+  deleted: boolean;
+  current?: T;
+}
+
+export type DungeonRepository = Repository<Dungeon>;
+export type EndpointRepository = Repository<ApiEndpointConfig>;
+export type RevisionRepository = Repository<DungeonRevision>;
+export type ApiKeyRepository = Repository<ApiKey>;
+export type ValidationRuleRepository = Repository<StoredValidationRuleProfile>;
+
+/**
+ * Storage for endpoint usage, rolled up per endpoint and hour so it doesn't grow with every request
+ */
+export interface UsageRepository {
+  // Adds the buckets to the stored ones with the same ID, combined by `merge`
+  add(buckets: EndpointUsageBucket[], merge: (stored: EndpointUsageBucket, added: EndpointUsageBucket) => EndpointUsageBucket): Promise<void>;
+  find(since: string, endpointId?: string): Promise<EndpointUsageBucket[]>; // Buckets from the hour `since` on, oldest first
+  deleteBefore(hour: string): Promise<number>; // Number of buckets deleted
+}
+
+/**
+ * Available storage backends
+ */
+export type StorageBackend = 'json' | 'sqlite';
+
+/**
+ * Storage configuration, read from environment variables by getStorageConfig
+ */
+export interface StorageConfig {
+  backend: StorageBackend;  // DUNGEON_STORAGE (default 'json')
+  dataDir: string;          // Directory of the JSON data files; outside public/ so they are never served as static assets
+  sqlitePath: string;       // DUNGEON_SQLITE_PATH (default data/dungeoncrawler.db)
+}
+
+// ============================================================================
+// JSON File Storage
+// ============================================================================
+
+// Pending writes per file. Kept on globalThis because each route may load its own copy of this module
+const fileLocks: Map<string, Promise<unknown>> =
+  ((globalThis as { __dungeonFileLocks?: Map<string, Promise<unknown>> }).__dungeonFileLocks ??= new Map());
+
+/**
+ * Runs `task` after every earlier task for the same file has finished
+ */
+async function withFileLock<R>(filePath: string, task: () => Promise<R>): Promise<R> {
+  const previous = fileLocks.get(filePath) ?? Promise.resolve();
+  const run = previous.catch(() => {}).then(task);
+  const tail = run.catch(() => {});
+  fileLocks.set(filePath, tail);
+  try {
+    return await run;
+  } finally {
+    if (fileLocks.get(filePath) === tail) {
+      fileLocks.delete(filePath);
+    }
+  }
+}
+
+/**
+ * Keeps a collection in a JSON file shaped `{ "<key>": [...] }`
+ * Every call reads the file; a missing file is an empty collection, while an unreadable or corrupt
+ * one throws, so it is never mistaken for an empty one (or overwritten by the next save). Writes hold a per-file lock for the whole read-modify-write
+ * and replace the file atomically (write a temp file, then rename it over the original),
+ * so concurrent saves in this process never lose each other's changes or leave a partial file.
+ */
+export class JsonFileRepository<T extends { id: string }> implements Repository<T> {
+  constructor(private filePath: string, private key: string) {}
+
+  async list(): Promise<T[]> {
+    try {
+      const fileContents = await readFile(this.filePath, 'utf-8');
+      const data = JSON.parse(fileContents);
+      return data[this.key] || [];
+    } catch (error) {
+      // A missing file is an empty collection
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      console.error(`Error loading ${this.key}:`, error);
+      throw new Error(`Failed to load ${this.key}`);
+    }
+  }
+
+  async get(id: string): Promise<T | undefined> {
+    return (await this.list()).find(record => record.id === id);
+  }
+
+  async save(record: T): Promise<void> {
+    await this.saveMany([record]);
+  }
+
+  async saveMany(records: T[]): Promise<void> {
+    await withFileLock(this.filePath, async () => {
+      const existing = await this.list();
+      this.upsert(existing, records);
+      await this.write(existing);
+    });
+  }
+
+  async saveIf(record: T, check: (current: T | undefined) => boolean): Promise<SaveIfResult<T>> {
+    return withFileLock(this.filePath, async () => {
+      const existing = await this.list();
+      const current = existing.find(r => r.id === record.id);
+      if (!check(current)) {
+        return { saved: false, current };
+      }
+      this.upsert(existing, [record]);
+      await this.write(existing);
+      return { saved: true };
+    });
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return withFileLock(this.filePath, async () => {
+      const existing = await this.list();
+      const remaining = existing.filter(record => record.id !== id);
+      if (remaining.length === existing.length) {
+        return false;
+      }
+      await this.write(remaining);
+      return true;
+    });
+  }
+
+  async deleteIf(id: string, check: (current: T | undefined) => boolean): Promise<DeleteIfResult<T>> {
+    return withFileLock(this.filePath, async () => {
+      const existing = await this.list();
+      const current = existing.find(record => record.id === id);
+      if (!current || !check(current)) {
+        return { deleted: false, current };
+      }
+      await this.write(existing.filter(record => record.id !== id));
+      return { deleted: true, current };
+    });
+  }
+
+  async deleteMany(ids: string[]): Promise<number> {
+    const deleted = new Set(ids);
+    return withFileLock(this.filePath, async () => {
+      const existing = await this.list();
+      const remaining = existing.filter(record => !deleted.has(record.id));
+      if (remaining.length < existing.length) {
+        await this.write(remaining);
+      }
+      return existing.length - remaining.length;
+    });
+  }
+
+  /**
+   * Replaces the records with what `change` returns, holding the file lock throughout
+   * Nothing is written when it returns undefined
+   */
+  async update(change: (records: T[]) => T[] | undefined): Promise<void> {
+    await withFileLock(this.filePath, async () => {
+      const updated = change(await this.list());
+      if (updated) {
+        await this.write(updated);
+      }
+    });
+  }
+
+  private upsert(existing: T[], records: T[]): void {
+    for (const record of records) {
+      const index = existing.findIndex(r => r.id === record.id);
+      if (index >= 0) {
+        existing[index] = record;
+      } else {
+        existing.push(record);
+      }
+    }
+  }
+
+  private async write(records: T[]): Promise<void> {
+    const tempPath = `${this.filePath}.${process.pid}-${Date.now()}-${Math.random().toString(36).substring(2, 8)}.tmp`;
+    try {
+      await mkdir(dirname(this.filePath), { recursive: true });
+      await writeFile(tempPath, JSON.stringify({ [this.key]: records }, null, 2), 'utf-8');
+      await rename(tempPath, this.filePath);
+    } catch (error) {
+      console.error(`Error saving ${this.key}:`, error);
+      await unlink(tempPath).catch(() => {});
+      throw new Error(`Failed to save ${this.key}`);
+    }
+  }
+}
+
+// ============================================================================
+// SQLite Storage
+// ============================================================================
+
+/**
+ * Keeps a collection in a SQLite table with one JSON document per row
+ * Uses the built-in node:sqlite module (Node.js 22.13 or later), loaded on first use
+ * so the JSON backend keeps working on older Node versions. A new table is seeded
+ * from `seedFile` (the JSON data file) when one is given.
+ */
+export class SqliteRepository<T extends { id: string }> implements Repository<T> {
+  private ready?: Promise<DatabaseSync>;
+
+  constructor(
+    private openDatabase: () => Promise<DatabaseSync>,
+    private table: string,
+    private seedFile?: { path: string; key: string }
+  ) {}
+
+  async list(): Promise<T[]> {
+    const db = await this.open();
+    const rows = db.prepare(`SELECT data FROM ${this.table} ORDER BY position`).all();
+    return rows.map(row => JSON.parse(row.data as string));
+  }
+
+  async get(id: string): Promise<T | undefined> {
+    const db = await this.open();
+    const row = db.prepare(`SELECT data FROM ${this.table} WHERE id = ?`).get(id);
+    return row ? JSON.parse(row.data as string) : undefined;
+  }
+
+  async save(record: T): Promise<void> {
+    await this.saveMany([record]);
+  }
+
+  async saveMany(records: T[]): Promise<void> {
+    const db = await this.open();
+    const upsert = this.prepareUpsert(db);
+    db.exec('BEGIN');
+    try {
+      for (const record of records) {
+        upsert.run(record.id, JSON.stringify(record));
+      }
+      db.exec('COMMIT');
+    } catch (error) {
+      db.exec('ROLLBACK');
+      console.error(`Error saving ${this.table}:`, error);
+      throw new Error(`Failed to save ${this.table}`);
+    }
+  }
+
+  async saveIf(record: T, check: (current: T | undefined) => boolean): Promise<SaveIfResult<T>> {
+    const db = await this.open();
+    // IMMEDIATE takes the write lock up front, so no other connection can change the row in between
+    db.exec('BEGIN IMMEDIATE');
+    try {
+      const row = db.prepare(`SELECT data FROM ${this.table} WHERE id = ?`).get(record.id);
+      const current: T | undefined = row ? JSON.parse(row.data as string) : undefined;
+      if (!check(current)) {
+        db.exec('ROLLBACK');
+        return { saved: false, current };
+      }
+      this.prepareUpsert(db).run(record.id, JSON.stringify(record));
+      db.exec('COMMIT');
+      return { saved: true };
+    } catch (error) {
+      db.exec('ROLLBACK');
+      console.error(`Error saving ${this.table}:`, error);
+      throw new Error(`Failed to save ${this.table}`);
+    }
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const db = await this.open();
+    const result = db.prepare(`DELETE FROM ${this.table} WHERE id = ?`).run(id);
+    return Number(result.changes) > 0;
+  }
+
+  async deleteIf(id: string, check: (current: T | undefined) => boolean): Promise<DeleteIfResult<T>> {
+    const db = await this.open();
+    // IMMEDIATE takes the write lock up front, as in saveIf
+    db.exec('BEGIN IMMEDIATE');
+    try {
+      const row = db.prepare(`SELECT data FROM ${this.table} WHERE id = ?`).get(id);
+      const current: T | undefined = row ? JSON.parse(row.data as string) : undefined;
+      if (!current || !check(current)) {
+        db.exec('ROLLBACK');
+        return { deleted: false, current };
+      }
+      db.prepare(`DELETE FROM ${this.table} WHERE id = ?`).run(id);
+      db.exec('COMMIT');
+      return { deleted: true, current };
+    } catch (error) {
+      db.exec('ROLLBACK');
+      console.error(`Error deleting from ${this.table}:`, error);
+      throw new Error(`Failed to delete from ${this.table}`);
+    }
+  }
+
+  async deleteMany(ids: string[]): Promise<number> {
+    const db = await this.open();
+    const remove = db.prepare(`DELETE FROM ${this.table} WHERE id = ?`);
+    db.exec('BEGIN');
+    try {
+      const deleted = ids.reduce((count, id) => count + Number(remove.run(id).changes), 0);
+      db.exec('COMMIT');
+      return deleted;
+    } catch (error) {
+      db.exec('ROLLBACK');
+      console.error(`Error deleting from ${this.table}:`, error);
+      throw new Error(`Failed to delete from ${this.table}`);
+    }
+  }
+
+  // Upsert keeps the original position so replaced records stay in place
+  private prepareUpsert(db: DatabaseSync) {
+    return db.prepare(
+      `INSERT INTO ${this.table} (id, data) VALUES (?, ?) ` +
+      `ON CONFLICT(id) DO UPDATE SET data = excluded.data`
+    );
+  }
+
+  private open(): Promise<DatabaseSync> {
+    if (!this.ready) {
+      this.ready = this.openDatabase().then(db => {
+        const exists = db.prepare(`SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?`).get(this.table);
+        db.exec(
+          `CREATE TABLE IF NOT EXISTS ${this.table} (` +
+          `position INTEGER PRIMARY KEY AUTOINCREMENT, id TEXT NOT NULL UNIQUE, data TEXT NOT NULL)`
+        );
+        if (!exists && this.seedFile && existsSync(this.seedFile.path)) {
+          const records: T[] = JSON.parse(readFileSync(this.seedFile.path, 'utf-8'))[this.seedFile.key] || [];
+          const insert = db.prepare(`INSERT INTO ${this.table} (id, data) VALUES (?, ?)`);
+          for (const record of records) {
+            insert.run(record.id, JSON.stringify(record));
+          }
+        }
+        return db;
+      });
+      // Let a failed open be retried on the next call
+      this.ready.catch(() => { this.ready = undefined; });
+    }
+    return this.ready;
+  }
+}
+
+// ============================================================================
+// Endpoint Usage Storage
+// ============================================================================
+
+/**
+ * Keeps endpoint usage in a JSON file shaped `{ "usage": [...] }`
+ * The file holds at most one bucket per endpoint and hour of the retention period, so it stays
+ * small however many requests there are, and is read whole and filtered.
+ */
+export class JsonUsageRepository implements UsageRepository {
+  private buckets: JsonFileRepository<EndpointUsageBucket>;
+
+  constructor(filePath: string) {
+    this.buckets = new JsonFileRepository<EndpointUsageBucket>(filePath, 'usage');
+  }
+
+  async add(
+    buckets: EndpointUsageBucket[],
+    merge: (stored: EndpointUsageBucket, added: EndpointUsageBucket) => EndpointUsageBucket
+  ): Promise<void> {
+    await this.buckets.update(stored => {
+      const byId = new Map(stored.map((bucket, index) => [bucket.id, index]));
+      for (const bucket of buckets) {
+        const index = byId.get(bucket.id);
+        if (index !== undefined) {
+          stored[index] = merge(stored[index], bucket);
+        } else {
+          byId.set(bucket.id, stored.push(bucket) - 1);
+        }
+      }
+      return stored;
+    });
+  }
+
+  async find(since: string, endpointId?: string): Promise<EndpointUsageBucket[]> {
+    return (await this.buckets.list())
+      .filter(bucket => bucket.hour >= since && (!endpointId || bucket.endpointId === endpointId))
+      .sort((a, b) => a.hour.localeCompare(b.hour));
+  }
+
+  async deleteBefore(hour: string): Promise<number> {
+    let deleted = 0;
+    await this.buckets.update(stored => {
+      const remaining = stored.filter(bucket => bucket.hour >= hour);
+      deleted = stored.length - remaining.length;
+      return deleted > 0 ? remaining : undefined;
+    });
+    return deleted;
+  }
+}
+
+/**
+ * Keeps endpoint usage in the endpoint_usage SQLite table, indexed by endpoint and hour
+ */
+export class SqliteUsageRepository implements UsageRepository {
+  private ready?: Promise<DatabaseSync>;
+
+  constructor(private openDatabase: () => Promise<DatabaseSync>) {}
+
+  async add(
+    buckets: EndpointUsageBucket[],
+    merge: (stored: EndpointUsageBucket, added: EndpointUsageBucket) => EndpointUsageBucket
+  ): Promise<void> {
+    const db = await this.open();
+    const select = db.prepare('SELECT data FROM endpoint_usage WHERE id = ?');
+    const upsert = db.prepare(
+      'INSERT INTO endpoint_usage (id, endpoint_id, hour, data) VALUES (?, ?, ?, ?) ' +
+      'ON CONFLICT(id) DO UPDATE SET data = excluded.data'
+    );
+    // IMMEDIATE takes the write lock up front, so another process can't add to a bucket in between
+    db.exec('BEGIN IMMEDIATE');
+    try {
+      for (const bucket of buckets) {
+        const row = select.get(bucket.id);
+        const merged = row ? merge(JSON.parse(row.data as string), bucket) : bucket;
+        upsert.run(bucket.id, bucket.endpointId, bucket.hour, JSON.stringify(merged));
+      }
+      db.exec('COMMIT');
+    } catch (error) {
+      db.exec('ROLLBACK');
+      console.error('Error saving endpoint_usage:', error);
+      throw new Error('Failed to save endpoint_usage');
+    }
+  }
+
+  async find(since: string, endpointId?: string): Promise<EndpointUsageBucket[]> {
+    const db = await this.open();
+    const rows = endpointId
+      ? db.prepare('SELECT data FROM endpoint_usage WHERE endpoint_id = ? AND hour >= ? ORDER BY hour').all(endpointId, since)
+      : db.prepare('SELECT data FROM endpoint_usage WHERE hour >= ? ORDER BY hour').all(since);
+    return rows.map(row => JSON.parse(row.data as string));
+  }
+
+  async deleteBefore(hour: string): Promise<number> {
+    const db = await this.open();
+    return Number(db.prepare('DELETE FROM endpoint_usage WHERE hour < ?').run(hour).changes);
+  }
+
+  private open(): Promise<DatabaseSync> {
+    if (!this.ready) {
+      this.ready = this.openDatabase().then(db => {
+        db.exec(
+          'CREATE TABLE IF NOT EXISTS endpoint_usage (' +
+          'id TEXT PRIMARY KEY, endpoint_id TEXT NOT NULL, hour TEXT NOT NULL, data TEXT NOT NULL)'
+        );
+        db.exec('CREATE INDEX IF NOT EXISTS endpoint_usage_endpoint_hour ON endpoint_usage (endpoint_id, hour)');
+        db.exec('CREATE INDEX IF NOT EXISTS endpoint_usage_hour ON endpoint_usage (hour)');
+        return db;
+      });
+      // Let a failed open be retried on the next call
+      this.ready.catch(() => { this.ready = undefined; });
+    }
+    return this.ready;
+  }
+}
+
+// ============================================================================
+// In-Memory Cache
+// ============================================================================
+
+// Parsed records of a collection, indexed for lookups
+interface CacheSnapshot<T> {
+  records: T[];
+  byId: Map<string, T>;
+  indexes: Map<string, Map<string, T[]>>;
+}
+
+interface CacheState {
+  file: string;                         // Data file (or SQLite database) the records come from
+  snapshot?: CacheSnapshot<unknown>;
+  generation: number;                   // Incremented on every invalidation
+}
+
+// Kept on globalThis because each route may load its own copy of this module,
+// and a write through one route must invalidate the cache every route reads from
+const cacheStates: Map<string, CacheState> =
+  ((globalThis as { __dungeonCacheStates?: Map<string, CacheState> }).__dungeonCacheStates ??= new Map());
+const cacheWatchers: Map<string, FSWatcher> =
+  ((globalThis as { __dungeonCacheWatchers?: Map<string, FSWatcher> }).__dungeonCacheWatchers ??= new Map());
+
+// Drops the cached records of every collection stored in `file`
+function invalidateFile(file: string): void {
+  for (const state of cacheStates.values()) {
+    if (state.file === file) {
+      state.snapshot = undefined;
+      state.generation++;
+    }
+  }
+}
+
+// Watches the directory of `file`, since atomic writes replace the file itself
+// Returns false when it can't be watched (e.g. the directory doesn't exist yet)
+function watchFile(file: string): boolean {
+  const directory = dirname(file);
+  if (cacheWatchers.has(directory)) {
+    return true;
+  }
+  const invalidateDirectory = (changed: string | null) => {
+    for (const state of cacheStates.values()) {
+      const name = basename(state.file);
+      // SQLite also writes <name>-journal and <name>-wal next to the database
+      if (dirname(state.file) === directory && (!changed || changed === name || changed.startsWith(`${name}-`))) {
+        invalidateFile(state.file);
+      }
+    }
+  };
+  try {
+    const watcher = watch(directory, { persistent: false }, (_event, changed) => invalidateDirectory(changed));
+    watcher.on('error', () => {
+      // Stop caching from this directory until it can be watched again
+      watcher.close();
+      cacheWatchers.delete(directory);
+      invalidateDirectory(null);
+    });
+    cacheWatchers.set(directory, watcher);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Keeps the records of another repository in memory
+ * Reads are answered from memory (as copies, so callers may change them) and indexed by ID and by
+ * the `indexes` fields. The cache is dropped on every write through any CachedRepository of the same
+ * file and whenever the file changes on disk, so edits by other processes are picked up too.
+ */
+export class CachedRepository<T extends { id: string }> implements Repository<T> {
+  private state: CacheState;
+
+  /**
+   * @param file - File the inner repository stores the records in, watched for changes
+   * @param indexes - Fields findBy can look records up by
+   */
+  constructor(private inner: Repository<T>, private file: string, name: string, private indexes: (keyof T & string)[] = []) {
+    const key = `${file}#${name}`;
+    this.state = cacheStates.get(key) ?? { file, generation: 0 };
+    cacheStates.set(key, this.state);
+  }
+
+  async list(): Promise<T[]> {
+    return structuredClone((await this.snapshot()).records);
+  }
+
+  async get(id: string): Promise<T | undefined> {
+    const record = (await this.snapshot()).byId.get(id);
+    return record && structuredClone(record);
+  }
+
+  /**
+   * Records whose `index` field equals `value`, in insertion order
+   */
+  async findBy(index: keyof T & string, value: string): Promise<T[]> {
+    return structuredClone((await this.snapshot()).indexes.get(index)?.get(value) ?? []);
+  }
+
+  async save(record: T): Promise<void> {
+    await this.write(() => this.inner.save(record));
+  }
+
+  async saveMany(records: T[]): Promise<void> {
+    await this.write(() => this.inner.saveMany(records));
+  }
+
+  async saveIf(record: T, check: (current: T | undefined) => boolean): Promise<SaveIfResult<T>> {
+    return this.write(() => this.inner.saveIf(record, check));
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.write(() => this.inner.delete(id));
+  }
+
+  async deleteIf(id: string, check: (current: T | undefined) => boolean): Promise<DeleteIfResult<T>> {
+    return this.write(() => this.inner.deleteIf(id, check));
+  }
+
+  async deleteMany(ids: string[]): Promise<number> {
+    return this.write(() => this.inner.deleteMany(ids));
+  }
+
+  // Invalidates even when the write fails, since it may have written part of the change
+  private async write<R>(task: () => Promise<R>): Promise<R> {
+    try {
+      return await task();
+    } finally {
+      invalidateFile(this.file);
+    }
+  }
+
+  private async snapshot(): Promise<CacheSnapshot<T>> {
+    if (this.state.snapshot) {
+      return this.state.snapshot as CacheSnapshot<T>;
+    }
+    // Watch before reading, so a change made during the read isn't missed
+    const watching = watchFile(this.file);
+    const generation = this.state.generation;
+    const records = await this.inner.list();
+
+    const byId = new Map(records.map(record => [record.id, record]));
+    const indexes = new Map<string, Map<string, T[]>>();
+    for (const field of this.indexes) {
+      const index = new Map<string, T[]>();
+      for (const record of records) {
+        const value = String(record[field]);
+        const matching = index.get(value);
+        if (matching) {
+          matching.push(record);
+        } else {
+          index.set(value, [record]);
+        }
+      }
+      indexes.set(field, index);
+    }
+    const snapshot: CacheSnapshot<T> = { records, byId, indexes };
+
+    // A snapshot read while a write or file change happened may be stale; it only answers this call
+    if (watching && this.state.generation === generation) {
+      this.state.snapshot = snapshot;
+    }
+    return snapshot;
+  }
+}
+
+// ============================================================================
+// Repository Selection
+// ============================================================================
+
+const DUNGEON_FILE = 'dungeon-data.json';
+const ENDPOINT_FILE = 'endpoint-config.json';
+const REVISION_FILE = 'dungeon-revisions.json';
+const API_KEY_FILE = 'api-keys.json';
+const USAGE_FILE = 'endpoint-usage.json';
+const RULES_FILE = 'validation-rules.json';
+
+let dungeonRepository: CachedRepository<Dungeon> | undefined;
+let endpointRepository: CachedRepository<ApiEndpointConfig> | undefined;
+let revisionRepository: RevisionRepository | undefined;
+let apiKeyRepository: CachedRepository<ApiKey> | undefined;
+let usageRepository: UsageRepository | undefined;
+let validationRuleRepository: CachedRepository<StoredValidationRuleProfile> | undefined;
+let sqliteDatabase: Promise<DatabaseSync> | undefined;
+
+/**
+ * Reads the storage configuration from the environment
+ */
+export function getStorageConfig(): StorageConfig {
+  const backend = process.env.DUNGEON_STORAGE || 'json';
+  if (backend !== 'json' && backend !== 'sqlite') {
+    throw new Error(`Unknown DUNGEON_STORAGE backend '${backend}'; use 'json' or 'sqlite'`);
+  }
+  return {
+    backend,
+    dataDir: join(process.cwd(), 'data'),
+    sqlitePath: process.env.DUNGEON_SQLITE_PATH || join(process.cwd(), 'data', 'dungeoncrawler.db')
+  };
+}
+
+// Opens the shared SQLite database once for both repositories
+function openSqliteDatabase(config: StorageConfig): () => Promise<DatabaseSync> {
+  return () => {
+    if (!sqliteDatabase) {
+      sqliteDatabase = import('node:sqlite')
+        .catch(() => {
+          throw new Error(`The sqlite storage backend needs node:sqlite (Node.js 22.13 or later); running ${process.version}`);
+        })
+        .then(({ DatabaseSync }) => {
+          mkdirSync(dirname(config.sqlitePath), { recursive: true });
+          return new DatabaseSync(config.sqlitePath);
+        });
+      sqliteDatabase.catch(() => { sqliteDatabase = undefined; });
+    }
+    return sqliteDatabase;
+  };
+}
+
+/**
+ * Returns the dungeon repository for the configured backend, cached in memory
+ */
+export function getDungeonRepository(): CachedRepository<Dungeon> {
+  if (!dungeonRepository) {
+    const config = getStorageConfig();
+    const seedFile = { path: join(config.dataDir, DUNGEON_FILE), key: 'dungeons' };
+    dungeonRepository = config.backend === 'sqlite'
+      ? new CachedRepository(new SqliteRepository<Dungeon>(openSqliteDatabase(config), 'dungeons', seedFile), config.sqlitePath, 'dungeons')
+      : new CachedRepository(new JsonFileRepository<Dungeon>(seedFile.path, seedFile.key), seedFile.path, 'dungeons');
+  }
+  return dungeonRepository;
+}
+
+/**
+ * Returns the endpoint configuration repository for the configured backend, cached in memory
+ * and indexed by path
+ */
+export function getEndpointRepository(): CachedRepository<ApiEndpointConfig> {
+  if (!endpointRepository) {
+    const config = getStorageConfig();
+    const seedFile = { path: join(config.dataDir, ENDPOINT_FILE), key: 'endpoints' };
+    endpointRepository = config.backend === 'sqlite'
+      ? new CachedRepository(new SqliteRepository<ApiEndpointConfig>(openSqliteDatabase(config), 'endpoints', seedFile), config.sqlitePath, 'endpoints', ['path'])
+      : new CachedRepository(new JsonFileRepository<ApiEndpointConfig>(seedFile.path, seedFile.key), seedFile.path, 'endpoints', ['path']);
+  }
+  return endpointRepository;
+}
+
+/**
+ * Returns the dungeon revision repository for the configured backend
+ */
+export function getRevisionRepository(): RevisionRepository {
+  if (!revisionRepository) {
+    const config = getStorageConfig();
+    const seedFile = { path: join(config.dataDir, REVISION_FILE), key: 'revisions' };
+    revisionRepository = config.backend === 'sqlite'
+      ? new SqliteRepository<DungeonRevision>(openSqliteDatabase(config), 'revisions', seedFile)
+      : new JsonFileRepository<DungeonRevision>(seedFile.path, seedFile.key);
+  }
+  return revisionRepository;
+}
+
+/**
+ * Returns the API key repository for the configured backend, cached in memory and indexed by
+ * secret hash, since every authenticated request looks its key up
+ */
+export function getApiKeyRepository(): CachedRepository<ApiKey> {
+  if (!apiKeyRepository) {
+    const config = getStorageConfig();
+    const seedFile = { path: join(config.dataDir, API_KEY_FILE), key: 'keys' };
+    apiKeyRepository = config.backend === 'sqlite'
+      ? new CachedRepository(new SqliteRepository<ApiKey>(openSqliteDatabase(config), 'api_keys', seedFile), config.sqlitePath, 'api_keys', ['secretHash'])
+      : new CachedRepository(new JsonFileRepository<ApiKey>(seedFile.path, seedFile.key), seedFile.path, 'api_keys', ['secretHash']);
+  }
+  return apiKeyRepository;
+}
+
+/**
+ * Returns the endpoint usage repository for the configured backend
+ */
+export function getUsageRepository(): UsageRepository {
+  if (!usageRepository) {
+    const config = getStorageConfig();
+    usageRepository = config.backend === 'sqlite'
+      ? new SqliteUsageRepository(openSqliteDatabase(config))
+      : new JsonUsageRepository(join(config.dataDir, USAGE_FILE));
+  }
+  return usageRepository;
+}
+
+/**
+ * Returns the validation rule profile repository for the configured backend, cached in memory
+ */
+export function getValidationRuleRepository(): CachedRepository<StoredValidationRuleProfile> {
+  if (!validationRuleRepository) {
+    const config = getStorageConfig();
+    const seedFile = { path: join(config.dataDir, RULES_FILE), key: 'profiles' };
+    validationRuleRepository = config.backend === 'sqlite'
+      ? new CachedRepository(new SqliteRepository<StoredValidationRuleProfile>(openSqliteDatabase(config), 'validation_rules', seedFile), config.sqlitePath, 'validation_rules')
+      : new CachedRepository(new JsonFileRepository<StoredValidationRuleProfile>(seedFile.path, seedFile.key), seedFile.path, 'validation_rules');
+  }
+  return validationRuleRepository;
+}
+
+/**
+ * Loads the validation rule profile of every difficulty; difficulties without a stored profile
+ * get DEFAULT_VALIDATION_RULE_PROFILE. Throws when the rules can't be read.
+ */
+export async function loadValidationRules(): Promise<ValidationRuleSet> {
+  const stored = new Map((await getValidationRuleRepository().list()).map(({ id, ...profile }) => [id, profile]));
+  return {
+    Easy: stored.get('Easy') ?? DEFAULT_VALIDATION_RULE_PROFILE,
+    Medium: stored.get('Medium') ?? DEFAULT_VALIDATION_RULE_PROFILE,
+    Hard: stored.get('Hard') ?? DEFAULT_VALIDATION_RULE_PROFILE,
+    Expert: stored.get('Expert') ?? DEFAULT_VALIDATION_RULE_PROFILE
+  };
+}
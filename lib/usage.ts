@@ -0,0 +1,237 @@
+/**
+ * Custom Endpoint Usage
+ *
+ * Records every request to a custom endpoint and summarises them per endpoint.
+ * Hits are buffered, rolled up into one bucket per endpoint and hour, and written in batches;
+ * buckets older than the longest window are dropped.
+ */
+
+import { EndpointHit, EndpointUsageBucket, EndpointUsageStats, UsageWindow } from './api';
+import { getUsageRepository } from './storage';
+
+/**
+ * Length of each usage window in milliseconds
+ */
+export const USAGE_WINDOWS: Record<UsageWindow, number> = {
+  '1h': 60 * 60 * 1000,
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+  '30d': 30 * 24 * 60 * 60 * 1000
+};
+
+/**
+ * Upper bounds in ms of the latency ranges requests are counted in; slower requests count in the last
+ */
+export const USAGE_LATENCY_BOUNDS = [1, 2, 5, 10, 20, 50, 100, 200, 500, 1000, 2000, 5000, 10000, 30000];
+
+/**
+ * Paths counted per bucket; requests to further paths count as '(other)', so made-up paths can't grow it
+ */
+export const USAGE_MAX_RESOURCES = 100;
+
+const OTHER_RESOURCES = '(other)';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Buckets are kept as long as the longest window
+const RETENTION_MS = USAGE_WINDOWS['30d'];
+
+// Buffered hits are written after this delay, or sooner once this many are waiting
+const FLUSH_DELAY_MS = 2000;
+const FLUSH_BATCH_SIZE = 100;
+
+// Expired buckets are looked for at most this often
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+// Resources and keys listed per endpoint
+const TOP_LIMIT = 10;
+
+interface UsageBuffer {
+  pending: EndpointHit[];
+  timer?: ReturnType<typeof setTimeout>;
+  flushing: Promise<void>;
+  lastPruneAt: number;
+}
+
+// Kept on globalThis because each route may load its own copy of this module,
+// and the usage route must flush the hits buffered by the custom route
+const buffer: UsageBuffer =
+  ((globalThis as { __dungeonUsageBuffer?: UsageBuffer }).__dungeonUsageBuffer ??= {
+    pending: [],
+    flushing: Promise.resolve(),
+    lastPruneAt: 0
+  });
+
+/**
+ * Endpoint usage recording and statistics
+ */
+export class EndpointUsage {
+  /**
+   * Buffers a hit; it is written shortly after, so recording never slows a response down
+   */
+  static record(hit: EndpointHit): void {
+    buffer.pending.push(hit);
+    if (buffer.pending.length >= FLUSH_BATCH_SIZE) {
+      void this.flush();
+    } else if (!buffer.timer) {
+      buffer.timer = setTimeout(() => void this.flush(), FLUSH_DELAY_MS);
+    }
+  }
+
+  /**
+   * Writes buffered hits and drops expired buckets; resolves once everything buffered so far is stored
+   */
+  static flush(): Promise<void> {
+    if (buffer.timer) {
+      clearTimeout(buffer.timer);
+      buffer.timer = undefined;
+    }
+    const batch = buffer.pending.splice(0);
+    buffer.flushing = buffer.flushing.then(async () => {
+      try {
+        const repository = getUsageRepository();
+        if (batch.length > 0) {
+          await repository.add(this.rollUp(batch), (stored, added) => this.merge(stored, added));
+        }
+        if (Date.now() - buffer.lastPruneAt >= PRUNE_INTERVAL_MS) {
+          buffer.lastPruneAt = Date.now();
+          await repository.deleteBefore(this.hourOf(Date.now() - RETENTION_MS));
+        }
+      } catch (error) {
+        // Usage is best effort; losing a batch must not break the endpoints
+        console.error('Error recording endpoint usage:', error);
+      }
+    });
+    return buffer.flushing;
+  }
+
+  /**
+   * Usage per endpoint over a window ending now; endpoints without hits are left out
+   * Usage is counted per hour, so the window starts at the beginning of its first hour
+   * @param endpointId - Only this endpoint
+   */
+  static async getStats(window: UsageWindow, endpointId?: string): Promise<EndpointUsageStats[]> {
+    await this.flush();
+    const since = this.hourOf(Date.now() - USAGE_WINDOWS[window]);
+    const byEndpoint = new Map<string, EndpointUsageBucket>();
+    for (const bucket of await getUsageRepository().find(since, endpointId)) {
+      const total = byEndpoint.get(bucket.endpointId);
+      byEndpoint.set(bucket.endpointId, total ? this.merge(total, bucket) : bucket);
+    }
+    return [...byEndpoint.values()].map(total => this.summarise(total));
+  }
+
+  /**
+   * Whether a string is a known usage window
+   */
+  static isWindow(value: string): value is UsageWindow {
+    return Object.prototype.hasOwnProperty.call(USAGE_WINDOWS, value);
+  }
+
+  // Start of the hour a time falls in, ISO 8601
+  private static hourOf(time: number): string {
+    return new Date(Math.floor(time / HOUR_MS) * HOUR_MS).toISOString();
+  }
+
+  // One bucket per endpoint and hour of the hits
+  private static rollUp(hits: EndpointHit[]): EndpointUsageBucket[] {
+    const buckets = new Map<string, EndpointUsageBucket>();
+    for (const hit of hits) {
+      const hour = this.hourOf(Date.parse(hit.timestamp));
+      const id = `${hit.endpointId}@${hour}`;
+      let bucket = buckets.get(id);
+      if (!bucket) {
+        bucket = {
+          id,
+          endpointId: hit.endpointId,
+          hour,
+          requests: 0,
+          errors: 0,
+          latencies: {},
+          statuses: {},
+          resources: {},
+          keys: {},
+          lastHitAt: hit.timestamp
+        };
+        buckets.set(id, bucket);
+      }
+      const latencyBound = USAGE_LATENCY_BOUNDS.find(bound => hit.latencyMs <= bound) ?? USAGE_LATENCY_BOUNDS[USAGE_LATENCY_BOUNDS.length - 1];
+      bucket.requests++;
+      bucket.errors += hit.status >= 400 ? 1 : 0;
+      this.count(bucket.latencies, String(latencyBound), 1);
+      this.count(bucket.statuses, String(hit.status), 1);
+      this.countResource(bucket.resources, hit.resource, 1);
+      if (hit.keyId) {
+        this.count(bucket.keys, hit.keyId, 1);
+      }
+      if (hit.timestamp > bucket.lastHitAt) {
+        bucket.lastHitAt = hit.timestamp;
+      }
+    }
+    return [...buckets.values()];
+  }
+
+  // The counts of both buckets; a copy, the buckets aren't changed
+  private static merge(stored: EndpointUsageBucket, added: EndpointUsageBucket): EndpointUsageBucket {
+    const merged = structuredClone(stored);
+    merged.requests += added.requests;
+    merged.errors += added.errors;
+    for (const [name, counts] of [['latencies', added.latencies], ['statuses', added.statuses], ['keys', added.keys]] as const) {
+      for (const [value, requests] of Object.entries(counts)) {
+        this.count(merged[name], value, requests);
+      }
+    }
+    for (const [resource, requests] of Object.entries(added.resources)) {
+      this.countResource(merged.resources, resource, requests);
+    }
+    if (added.lastHitAt > merged.lastHitAt) {
+      merged.lastHitAt = added.lastHitAt;
+    }
+    return merged;
+  }
+
+  private static count(counts: Record<string, number>, value: string, requests: number): void {
+    counts[value] = (counts[value] || 0) + requests;
+  }
+
+  private static countResource(resources: Record<string, number>, resource: string, requests: number): void {
+    const counted = resource in resources || Object.keys(resources).length < USAGE_MAX_RESOURCES;
+    this.count(resources, counted ? resource : OTHER_RESOURCES, requests);
+  }
+
+  private static summarise(total: EndpointUsageBucket): EndpointUsageStats {
+    return {
+      endpointId: total.endpointId,
+      requests: total.requests,
+      errors: total.errors,
+      errorRate: total.requests > 0 ? total.errors / total.requests : 0,
+      latencyMs: {
+        p50: this.percentile(total.latencies, total.requests, 50),
+        p95: this.percentile(total.latencies, total.requests, 95),
+        p99: this.percentile(total.latencies, total.requests, 99)
+      },
+      statuses: total.statuses,
+      resources: this.top(total.resources).map(([resource, requests]) => ({ resource, requests })),
+      keys: this.top(total.keys).map(([keyId, requests]) => ({ keyId, requests })),
+      lastHitAt: total.lastHitAt
+    };
+  }
+
+  // Nearest-rank percentile, as the bound of the latency range it falls in
+  private static percentile(latencies: Record<string, number>, requests: number, p: number): number {
+    const rank = Math.max(1, Math.ceil((p / 100) * requests));
+    let seen = 0;
+    for (const bound of USAGE_LATENCY_BOUNDS) {
+      seen += latencies[bound] || 0;
+      if (seen >= rank) {
+        return bound;
+      }
+    }
+    return 0;
+  }
+
+  // The most common values first, at most TOP_LIMIT
+  private static top(counts: Record<string, number>): [string, number][] {
+    return Object.entries(counts).sort((a, b) => b[1] - a[1]).slice(0, TOP_LIMIT);
+  }
+}
@@ -0,0 +1,73 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync, mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ApiAuth } from '../lib/auth';
+import { ApiEndpointConfig } from '../lib/api';
+import { getApiKeyRepository } from '../lib/storage';
+import { POST as createKey } from '../app/api/keys/route';
+
+// The repositories read from the working directory, so each run gets its own
+const originalCwd = process.cwd();
+let workDir: string;
+
+// The keys file is only read without keys when the API may run open
+before(() => {
+  workDir = mkdtempSync(join(tmpdir(), 'dungeon-auth-'));
+  mkdirSync(join(workDir, 'data'));
+  writeFileSync(join(workDir, 'data', 'api-keys.json'), '{ "keys": [ { "id": "key-1", ');
+  process.chdir(workDir);
+  process.env.DUNGEON_OPEN_ACCESS = 'true';
+});
+
+after(() => {
+  delete process.env.DUNGEON_OPEN_ACCESS;
+  process.chdir(originalCwd);
+  rmSync(workDir, { recursive: true, force: true });
+});
+
+test('a corrupt keys file is an error, not an empty key list', async () => {
+  await assert.rejects(getApiKeyRepository().list());
+  await assert.rejects(ApiAuth.isEnforced());
+});
+
+test('a corrupt keys file refuses scoped requests instead of opening the API', async () => {
+  const denied = await ApiAuth.requireScope(new Request('http://localhost/api/dungeon'), 'dungeons:read');
+  assert.equal(denied?.status, 503);
+});
+
+test('a corrupt keys file refuses key-only endpoints even with a key', async () => {
+  const request = new Request('http://localhost/api/custom/secret', { headers: { 'X-API-Key': 'dk_anything' } });
+  const endpoint: ApiEndpointConfig = {
+    id: 'endpoint-1',
+    name: 'Secret',
+    path: '/api/custom/secret',
+    dungeonId: 'dungeon-001',
+    enabled: true,
+    visibility: 'key'
+  };
+  const { denied, key } = await ApiAuth.checkEndpointAccess(request, endpoint);
+  assert.equal(denied?.status, 503);
+  assert.equal(key, undefined);
+});
+
+test('a fresh deployment refuses to create a key without the admin key', async () => {
+  delete process.env.DUNGEON_OPEN_ACCESS;
+  const freshDir = mkdtempSync(join(tmpdir(), 'dungeon-auth-fresh-'));
+  mkdirSync(join(freshDir, 'data'));
+  process.chdir(freshDir);
+  try {
+    const response = await createKey(new Request('http://localhost/api/keys', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: 'Mine now', scopes: ['keys:manage'] })
+    }));
+    assert.equal(response.status, 401);
+    assert.equal(existsSync(join(freshDir, 'data', 'api-keys.json')), false);
+  } finally {
+    process.chdir(workDir);
+    process.env.DUNGEON_OPEN_ACCESS = 'true';
+    rmSync(freshDir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,98 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { copyFileSync, mkdtempSync, mkdirSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { GET, PUT } from '../app/api/dungeon/route';
+import { ApiResponse, Dungeon } from '../lib/api';
+import { ConditionalRequest } from '../lib/conditional';
+
+// The repositories read from the working directory, so each run gets its own copy of the seed data
+const originalCwd = process.cwd();
+let workDir: string;
+
+before(() => {
+  workDir = mkdtempSync(join(tmpdir(), 'dungeon-conditional-'));
+  mkdirSync(join(workDir, 'data'));
+  for (const file of ['dungeon-data.json', 'validation-rules.json']) {
+    copyFileSync(join(__dirname, '..', 'data', file), join(workDir, 'data', file));
+  }
+  process.chdir(workDir);
+  process.env.DUNGEON_OPEN_ACCESS = 'true';
+});
+
+after(() => {
+  delete process.env.DUNGEON_OPEN_ACCESS;
+  process.chdir(originalCwd);
+  rmSync(workDir, { recursive: true, force: true });
+});
+
+const body: ApiResponse<{ name: string }> = { success: true, data: { name: 'Crypt' } };
+const updatedAt = '2026-10-19T12:00:00.500Z';
+
+function requestWith(headers: Record<string, string>, method = 'GET'): Request {
+  return new Request('http://localhost/api/dungeon?id=dungeon-001', { method, headers });
+}
+
+test('If-None-Match with the current ETag gives 304 with the validators', () => {
+  const etag = ConditionalRequest.etag(body.data);
+  const response = ConditionalRequest.json(requestWith({ 'If-None-Match': etag }), body, updatedAt);
+  assert.equal(response.status, 304);
+  assert.equal(response.headers.get('ETag'), etag);
+  assert.equal(response.headers.get('Last-Modified'), 'Mon, 19 Oct 2026 12:00:00 GMT');
+});
+
+test('If-None-Match matches *, weak ETags and any tag in a list', () => {
+  const etag = ConditionalRequest.etag(body.data);
+  for (const ifNoneMatch of ['*', `W/${etag}`, `"stale", ${etag}`]) {
+    assert.equal(ConditionalRequest.json(requestWith({ 'If-None-Match': ifNoneMatch }), body).status, 304, ifNoneMatch);
+  }
+  assert.equal(ConditionalRequest.json(requestWith({ 'If-None-Match': '"stale"' }), body).status, 200);
+});
+
+test('If-None-Match takes precedence over If-Modified-Since', () => {
+  const current = requestWith({ 'If-Modified-Since': 'Mon, 19 Oct 2026 12:00:00 GMT' });
+  assert.equal(ConditionalRequest.json(current, body, updatedAt).status, 304);
+  const stale = requestWith({ 'If-None-Match': '"stale"', 'If-Modified-Since': 'Mon, 19 Oct 2026 12:00:00 GMT' });
+  assert.equal(ConditionalRequest.json(stale, body, updatedAt).status, 200);
+});
+
+test('If-Match uses strong comparison', () => {
+  const dungeon = { id: 'dungeon-test' } as Dungeon;
+  const etag = ConditionalRequest.etag(dungeon);
+  assert.equal(ConditionalRequest.matchesIfMatch(requestWith({ 'If-Match': etag }, 'PUT'), dungeon), true);
+  assert.equal(ConditionalRequest.matchesIfMatch(requestWith({ 'If-Match': '*' }, 'PUT'), dungeon), true);
+  assert.equal(ConditionalRequest.matchesIfMatch(requestWith({ 'If-Match': `W/${etag}` }, 'PUT'), dungeon), false);
+  assert.equal(ConditionalRequest.checkIfMatch(requestWith({ 'If-Match': '"stale"' }, 'PUT'), dungeon)?.status, 412);
+});
+
+test('PUT with a stale If-Match gives 412 and saves nothing; without If-Match it is saved', async () => {
+  const loaded = await GET(requestWith({}));
+  const etag = loaded.headers.get('ETag')!;
+  const dungeon: Dungeon = (await loaded.json()).data;
+
+  const put = (headers: Record<string, string>, name: string) => PUT(new Request('http://localhost/api/dungeon?id=dungeon-001', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify({ ...dungeon, name })
+  }));
+
+  const saved = await put({ 'If-Match': etag }, 'Renamed once');
+  assert.equal(saved.status, 200);
+  assert.notEqual(saved.headers.get('ETag'), etag);
+
+  const stale = await put({ 'If-Match': etag }, 'Renamed from a stale copy');
+  const staleBody: ApiResponse<Dungeon> = await stale.json();
+  assert.equal(stale.status, 412);
+  assert.equal(staleBody.data?.name, 'Renamed once');
+  assert.equal(stale.headers.get('ETag'), saved.headers.get('ETag'));
+
+  // Without If-Match the save goes through, unless the version sent is no longer the stored one
+  assert.equal((await put({}, 'Renamed without If-Match')).status, 200);
+  const staleVersion = await PUT(new Request('http://localhost/api/dungeon?id=dungeon-001', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...dungeon, version: dungeon.version ?? 0, name: 'Renamed from an old version' })
+  }));
+  assert.equal(staleVersion.status, 409);
+});
@@ -0,0 +1,47 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { DifficultyLevel, DungeonValidator, ValidationRuleSet } from '../lib/api';
+import { DungeonGenerationOptions, DungeonGenerator } from '../lib/generator';
+
+// The rule profiles the app ships with
+const rules: Partial<ValidationRuleSet> = Object.fromEntries(
+  JSON.parse(readFileSync(join(__dirname, '..', 'data', 'validation-rules.json'), 'utf-8'))
+    .profiles.map(({ id, ...profile }: { id: string }) => [id, profile])
+);
+
+function options(fields: Partial<DungeonGenerationOptions> = {}): DungeonGenerationOptions {
+  return { name: 'Generated', difficulty: 'Medium', level: 5, size: { width: 6, height: 5 }, floors: 2, seed: 'test-seed', ...fields };
+}
+
+test('the same seed and options generate the same dungeon', () => {
+  assert.deepEqual(DungeonGenerator.generate(options(), rules), DungeonGenerator.generate(options(), rules));
+  assert.deepEqual(DungeonGenerator.generate(options({ seed: 42 })), DungeonGenerator.generate(options({ seed: 42 })));
+});
+
+test('different seeds generate different dungeons', () => {
+  const first = DungeonGenerator.generate(options({ seed: 'first' }), rules);
+  const second = DungeonGenerator.generate(options({ seed: 'second' }), rules);
+  assert.notEqual(first.id, second.id);
+  assert.notDeepEqual(
+    first.floors!.map(floor => floor.rooms.map(room => [room.type, room.coordinates])),
+    second.floors!.map(floor => floor.rooms.map(room => [room.type, room.coordinates]))
+  );
+});
+
+test('generated dungeons pass validation', () => {
+  const difficulties: DifficultyLevel[] = ['Easy', 'Medium', 'Hard', 'Expert'];
+  for (const difficulty of difficulties) {
+    for (const seed of [1, 2, 3, 'abc']) {
+      for (const [size, floors] of [[{ width: 4, height: 4 }, 1], [{ width: 8, height: 6 }, 3]] as const) {
+        const dungeon = DungeonGenerator.generate(options({ difficulty, seed, size, floors }), rules);
+        assert.deepEqual(
+          DungeonValidator.validateDungeon(dungeon, rules).errors,
+          [],
+          `${difficulty} dungeon with seed ${seed} on ${size.width}x${size.height}x${floors}`
+        );
+      }
+    }
+  }
+});
@@ -0,0 +1,86 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { copyFileSync, mkdtempSync, mkdirSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DELETE, GET, POST } from '../app/api/dungeon/route';
+import { GET as getHistory, POST as restore } from '../app/api/dungeon/history/route';
+import { ApiResponse, Dungeon, DungeonRevisionSummary } from '../lib/api';
+
+// The repositories read from the working directory, so each run gets its own copy of the seed data
+const originalCwd = process.cwd();
+const seedDir = join(__dirname, '..', 'data');
+let workDir: string;
+
+before(() => {
+  workDir = mkdtempSync(join(tmpdir(), 'dungeon-history-'));
+  mkdirSync(join(workDir, 'data'));
+  for (const file of ['dungeon-data.json', 'validation-rules.json']) {
+    copyFileSync(join(seedDir, file), join(workDir, 'data', file));
+  }
+  process.chdir(workDir);
+  process.env.DUNGEON_OPEN_ACCESS = 'true';
+});
+
+after(() => {
+  delete process.env.DUNGEON_OPEN_ACCESS;
+  process.chdir(originalCwd);
+  rmSync(workDir, { recursive: true, force: true });
+});
+
+const url = (path: string) => `http://localhost${path}`;
+
+async function history(id: string): Promise<DungeonRevisionSummary[]> {
+  const body: ApiResponse<DungeonRevisionSummary[]> = await (await getHistory(new Request(url(`/api/dungeon/history?id=${id}`)))).json();
+  return body.data!;
+}
+
+function create(dungeon: Dungeon): Promise<Response> {
+  return POST(new Request(url('/api/dungeon'), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(dungeon)
+  }));
+}
+
+test('deleting records a revision, and versions keep counting when the ID is used again', async () => {
+  const seed: Dungeon = JSON.parse(readFileSync(join(seedDir, 'dungeon-data.json'), 'utf-8')).dungeons[0];
+  const { version: _version, createdAt: _createdAt, updatedAt: _updatedAt, ...template } = seed;
+  const id = 'dungeon-recreated';
+
+  const created: ApiResponse<Dungeon> = await (await create({ ...template, id, name: 'First' })).json();
+  assert.equal(created.data?.version, 1);
+
+  const deleted = await DELETE(new Request(url(`/api/dungeon?id=${id}`), { method: 'DELETE', headers: { 'X-Author': 'mallory' } }));
+  assert.equal(deleted.status, 200);
+  assert.equal((await GET(new Request(url(`/api/dungeon?id=${id}`)))).status, 404);
+
+  const [tombstone] = await history(id);
+  assert.equal(tombstone.action, 'delete');
+  assert.equal(tombstone.version, 2);
+  assert.equal(tombstone.author, 'mallory');
+
+  const recreated: ApiResponse<Dungeon> = await (await create({ ...template, id, name: 'Second' })).json();
+  assert.equal(recreated.data?.version, 3);
+
+  const versions = (await history(id)).map(r => r.version);
+  assert.deepEqual(versions, [3, 2, 1]);
+  assert.equal(new Set(versions).size, versions.length);
+});
+
+test('a deleted dungeon can be restored from its history', async () => {
+  const id = 'dungeon-001';
+  const original: Dungeon = (await (await GET(new Request(url(`/api/dungeon?id=${id}`)))).json()).data;
+  assert.equal((await DELETE(new Request(url(`/api/dungeon?id=${id}`), { method: 'DELETE' }))).status, 200);
+
+  // The dungeon had no history, so a baseline comes before the delete
+  const revisions = await history(id);
+  assert.deepEqual(revisions.map(r => r.action), ['delete', 'baseline']);
+
+  const restored = await restore(new Request(url(`/api/dungeon/history?id=${id}&version=${revisions[1].version}`), { method: 'POST' }));
+  const body: ApiResponse<Dungeon> = await restored.json();
+  assert.equal(restored.status, 200);
+  assert.equal(body.data?.name, original.name);
+  assert.equal(body.data?.version, revisions[0].version + 1);
+  assert.deepEqual((await history(id)).map(r => r.action), ['restore', 'delete', 'baseline']);
+});
@@ -0,0 +1,60 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { copyFileSync, mkdtempSync, mkdirSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { POST } from '../app/api/dungeon/import/route';
+import { ApiResponse, Dungeon, DungeonImportReport } from '../lib/api';
+import { getDungeonRepository } from '../lib/storage';
+
+// The repositories read from the working directory, so each run gets its own copy of the seed data
+const originalCwd = process.cwd();
+const seedDir = join(__dirname, '..', 'data');
+let workDir: string;
+
+before(() => {
+  workDir = mkdtempSync(join(tmpdir(), 'dungeon-import-'));
+  mkdirSync(join(workDir, 'data'));
+  for (const file of ['dungeon-data.json', 'validation-rules.json']) {
+    copyFileSync(join(seedDir, file), join(workDir, 'data', file));
+  }
+  process.chdir(workDir);
+  process.env.DUNGEON_OPEN_ACCESS = 'true';
+});
+
+after(() => {
+  delete process.env.DUNGEON_OPEN_ACCESS;
+  process.chdir(originalCwd);
+  rmSync(workDir, { recursive: true, force: true });
+});
+
+function importRequest(body: unknown): Request {
+  return new Request('http://localhost/api/dungeon/import', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+}
+
+test('an import does not overwrite a dungeon saved after it was read', async () => {
+  const seed: Dungeon = JSON.parse(readFileSync(join(seedDir, 'dungeon-data.json'), 'utf-8')).dungeons[0];
+  const repository = getDungeonRepository();
+
+  // Another request saves the dungeon between the import's read and its write
+  const saveIf = repository.saveIf.bind(repository);
+  repository.saveIf = async (record, check) => {
+    repository.saveIf = saveIf;
+    const stored = (await repository.get(record.id))!;
+    await repository.save({ ...stored, name: 'Saved meanwhile', version: (stored.version ?? 0) + 1 });
+    return saveIf(record, check);
+  };
+
+  const response = await POST(importRequest({ data: { dungeons: [{ ...seed, name: 'Imported' }] }, conflictMode: 'overwrite' }));
+  const body: ApiResponse<DungeonImportReport> = await response.json();
+
+  assert.equal(response.status, 409);
+  assert.deepEqual(body.data?.conflicts, [seed.id]);
+  assert.equal(body.data?.results[0].status, 'conflict');
+  assert.equal(body.data?.imported, 0);
+  assert.equal((await repository.get(seed.id))?.name, 'Saved meanwhile');
+});
@@ -0,0 +1,47 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { DungeonHelpers, DungeonValidator } from '../lib/api';
+import { loadValidationRules } from '../lib/storage';
+
+// Every client-format file in fixtures/legacy must round-trip without loss and import as valid dungeons
+const FIXTURE_DIR = join(__dirname, '..', 'fixtures', 'legacy');
+
+// Validate against the shipped rule profiles in data/
+process.chdir(join(__dirname, '..'));
+
+for (const file of readdirSync(FIXTURE_DIR).filter(name => name.endsWith('.json'))) {
+  const fixture = JSON.parse(readFileSync(join(FIXTURE_DIR, file), 'utf-8'));
+
+  test(`${file} round-trips without loss`, () => {
+    assert.deepEqual(DungeonHelpers.findRoundTripLosses(fixture), []);
+  });
+
+  test(`${file} converts to the same IDs every time`, () => {
+    const withoutTimestamps = (value: unknown) => JSON.stringify(value, (key, field) => key === 'createdAt' || key === 'updatedAt' ? undefined : field);
+    assert.equal(withoutTimestamps(DungeonHelpers.convertLegacyFormat(fixture)), withoutTimestamps(DungeonHelpers.convertLegacyFormat(fixture)));
+    assert.equal(
+      withoutTimestamps(DungeonHelpers.convertLegacyFormat(fixture, { mergeLevels: true })),
+      withoutTimestamps(DungeonHelpers.convertLegacyFormat(fixture, { mergeLevels: true }))
+    );
+  });
+
+  test(`${file} converts to valid dungeons`, async () => {
+    const rules = await loadValidationRules();
+    const dungeons = DungeonHelpers.convertLegacyFormat(fixture);
+    assert.ok(dungeons.length > 0);
+    for (const dungeon of dungeons) {
+      const { errors } = DungeonValidator.validateDungeon(dungeon, rules);
+      assert.deepEqual(errors.map(e => e.message), [], dungeon.name);
+    }
+  });
+}
+
+test('floors with gaps in z are numbered 1, 2, 3... and keep their z for the export', () => {
+  const fixture = JSON.parse(readFileSync(join(FIXTURE_DIR, 'floor-gaps.json'), 'utf-8'));
+  const [dungeon] = DungeonHelpers.convertLegacyFormat(fixture);
+  assert.equal(dungeon.size.depth, 2);
+  assert.deepEqual(dungeon.floors!.map(floor => [floor.floorNumber, floor.clientFloorNumber]), [[1, 0], [2, 3]]);
+  assert.deepEqual(DungeonHelpers.toApiDungeon(dungeon).rooms.map(room => room.z), [0, 0, 3, 3]);
+});
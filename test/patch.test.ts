@@ -0,0 +1,78 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { JsonPatch, JsonPatchTestError } from '../lib/patch';
+
+function document() {
+  return {
+    name: 'Crypt',
+    tags: ['undead', 'dark'],
+    room: { type: 'boss', monsters: [{ name: 'Lich', health: 90 }] }
+  };
+}
+
+test('add inserts into arrays and sets object fields', () => {
+  const patched = JsonPatch.apply(document(), [
+    { op: 'add', path: '/tags/1', value: 'cold' },
+    { op: 'add', path: '/tags/-', value: 'deep' },
+    { op: 'add', path: '/room/locked', value: true }
+  ]);
+  assert.deepEqual(patched.tags, ['undead', 'cold', 'dark', 'deep']);
+  assert.equal((patched.room as { locked?: boolean }).locked, true);
+});
+
+test('remove, replace, move and copy change the values they point at', () => {
+  const patched = JsonPatch.apply(document(), [
+    { op: 'remove', path: '/tags/0' },
+    { op: 'replace', path: '/room/monsters/0/health', value: 120 },
+    { op: 'copy', from: '/room/monsters/0', path: '/room/monsters/-' },
+    { op: 'move', from: '/name', path: '/room/name' }
+  ]) as Record<string, unknown>;
+  assert.deepEqual(patched, {
+    tags: ['dark'],
+    room: {
+      type: 'boss',
+      monsters: [{ name: 'Lich', health: 120 }, { name: 'Lich', health: 120 }],
+      name: 'Crypt'
+    }
+  });
+});
+
+test('a passing test op lets the patch apply', () => {
+  const patched = JsonPatch.apply(document(), [
+    { op: 'test', path: '/room/monsters/0', value: { name: 'Lich', health: 90 } },
+    { op: 'replace', path: '/name', value: 'Tomb' }
+  ]);
+  assert.equal(patched.name, 'Tomb');
+});
+
+test('a failing test op throws a JsonPatchTestError and applies nothing', () => {
+  const original = document();
+  assert.throws(
+    () => JsonPatch.apply(original, [
+      { op: 'replace', path: '/name', value: 'Tomb' },
+      { op: 'test', path: '/room/monsters/0/health', value: 50 }
+    ]),
+    (error: Error) => error instanceof JsonPatchTestError && /Operation 1 \(test \/room\/monsters\/0\/health\)/.test(error.message)
+  );
+  assert.deepEqual(original, document());
+});
+
+test('a path into a missing parent is an error, not a test failure', () => {
+  for (const operation of [
+    { op: 'add', path: '/room/traps/0', value: 'spikes' },
+    { op: 'replace', path: '/missing/field', value: 1 },
+    { op: 'remove', path: '/room/monsters/3' }
+  ] as const) {
+    assert.throws(
+      () => JsonPatch.apply(document(), [operation]),
+      (error: Error) => !(error instanceof JsonPatchTestError) && /Operation 0/.test(error.message)
+    );
+  }
+});
+
+test('merge patch null deletes a key and objects merge recursively', () => {
+  const patched = JsonPatch.applyMerge(document(), { name: null, room: { type: 'treasure', monsters: [] } }) as Record<string, unknown>;
+  assert.equal('name' in patched, false);
+  assert.deepEqual(patched.room, { type: 'treasure', monsters: [] });
+  assert.deepEqual(patched.tags, ['undead', 'dark']);
+});
@@ -0,0 +1,46 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { APIRoomData, Dungeon, Room } from '../lib/api';
+import { DungeonProjection, SelectionNotFoundError } from '../lib/projection';
+
+// Two rooms on floor 1; the second was imported with client ID 7
+function twoRoomDungeon(): Dungeon {
+  const room = (id: string, x: number, clientId?: number): Room => ({
+    id,
+    type: 'empty',
+    description: id,
+    coordinates: { x, y: 0 },
+    connections: [],
+    ...(clientId !== undefined && { clientId })
+  });
+  return {
+    id: 'dungeon-test',
+    name: 'Test',
+    description: 'Test dungeon',
+    difficulty: 'Medium',
+    level: 1,
+    size: { width: 2, height: 1 },
+    rooms: [room('room-a', 0), room('room-b', 1, 7)]
+  };
+}
+
+test('client format looks rooms up by the IDs /rooms lists', () => {
+  const dungeon = twoRoomDungeon();
+  const listed = DungeonProjection.select(dungeon, { view: 'rooms' }, true) as APIRoomData[];
+  assert.deepEqual(listed.map(room => room.id), [1, 7]);
+
+  for (const { id, description } of listed) {
+    const room = DungeonProjection.select(dungeon, { roomId: String(id) }, true) as APIRoomData;
+    assert.equal(room.id, id);
+    assert.equal(room.description, description);
+  }
+});
+
+test('client format still accepts internal room IDs', () => {
+  const room = DungeonProjection.select(twoRoomDungeon(), { roomId: 'room-b' }, true) as APIRoomData;
+  assert.equal(room.id, 7);
+});
+
+test('internal format does not match client IDs', () => {
+  assert.throws(() => DungeonProjection.select(twoRoomDungeon(), { roomId: '7' }, false), SelectionNotFoundError);
+});
@@ -0,0 +1,122 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { copyFileSync, mkdtempSync, mkdirSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { GET } from '../app/api/dungeon/route';
+import { ApiResponse, DifficultyLevel, Dungeon, Room, RoomType } from '../lib/api';
+import { DungeonQuery } from '../lib/query';
+
+// The repositories read from the working directory, so each run gets its own copy of the seed data
+const originalCwd = process.cwd();
+let workDir: string;
+
+before(() => {
+  workDir = mkdtempSync(join(tmpdir(), 'dungeon-query-'));
+  mkdirSync(join(workDir, 'data'));
+  for (const file of ['dungeon-data.json', 'validation-rules.json']) {
+    copyFileSync(join(__dirname, '..', 'data', file), join(workDir, 'data', file));
+  }
+  process.chdir(workDir);
+  process.env.DUNGEON_OPEN_ACCESS = 'true';
+});
+
+after(() => {
+  delete process.env.DUNGEON_OPEN_ACCESS;
+  process.chdir(originalCwd);
+  rmSync(workDir, { recursive: true, force: true });
+});
+
+function dungeon(id: string, name: string, difficulty: DifficultyLevel, level: number, rooms: [RoomType, string?][] = []): Dungeon {
+  return {
+    id,
+    name,
+    description: name,
+    difficulty,
+    level,
+    size: { width: rooms.length || 1, height: 1 },
+    rooms: rooms.map(([type, monster], x): Room => ({
+      id: `${id}-room-${x}`,
+      type,
+      description: type,
+      coordinates: { x, y: 0 },
+      connections: [],
+      ...(monster && { monsters: [{ id: `${id}-monster-${x}`, name: monster, type: 'undead', level, stats: { health: 10, attack: 1, defense: 1, speed: 1 } }] })
+    }))
+  };
+}
+
+// Levels repeat, so sorting by level has ties that the ID has to order
+const dungeons: Dungeon[] = Array.from({ length: 11 }, (_, i) =>
+  dungeon(`dungeon-${String(i).padStart(2, '0')}`, `Dungeon ${i}`, i % 2 ? 'Hard' : 'Easy', i % 4)
+);
+
+function query(params: Record<string, string>) {
+  return DungeonQuery.parse(new URLSearchParams(params));
+}
+
+// Follows nextCursor from the first page to the last
+function allPages(params: Record<string, string>): Dungeon[][] {
+  const pages: Dungeon[][] = [];
+  let cursor: string | undefined;
+  do {
+    const { items, page } = DungeonQuery.run(dungeons, query({ ...params, ...(cursor && { cursor }) }));
+    pages.push(items);
+    cursor = page.nextCursor;
+  } while (cursor);
+  return pages;
+}
+
+test('following the cursors returns every dungeon once, in order', () => {
+  const queries: Record<string, string>[] = [{ limit: '3' }, { limit: '4', sort: 'level' }, { limit: '2', sort: 'name', order: 'desc' }];
+  for (const params of queries) {
+    const pages = allPages(params);
+    const { limit: _limit, ...sortOnly } = params;
+    const expected = DungeonQuery.run(dungeons, query(sortOnly)).items.map(d => d.id);
+    assert.deepEqual(pages.flat().map(d => d.id), expected, JSON.stringify(params));
+    assert.equal(new Set(expected).size, dungeons.length);
+    assert.ok(pages.slice(0, -1).every(page => page.length === Number(params.limit)));
+  }
+});
+
+test('the last page has no cursor and the total counts every match', () => {
+  const { items, page } = DungeonQuery.run(dungeons, query({ limit: '20' }));
+  assert.equal(items.length, dungeons.length);
+  assert.equal(page.total, dungeons.length);
+  assert.equal(page.nextCursor, undefined);
+});
+
+test('a cursor only works with the sort it was made for', () => {
+  const { page } = DungeonQuery.run(dungeons, query({ limit: '2', sort: 'level' }));
+  assert.throws(() => query({ limit: '2', sort: 'name', cursor: page.nextCursor! }), /different sort/);
+});
+
+test('an invalid cursor returns 400', async () => {
+  for (const cursor of ['not-a-cursor', Buffer.from('{"id":1}').toString('base64url')]) {
+    const response = await GET(new Request(`http://localhost/api/dungeon?limit=1&cursor=${cursor}`));
+    const body: ApiResponse<null> = await response.json();
+    assert.equal(response.status, 400, cursor);
+    assert.match(body.error!, /cursor/);
+  }
+});
+
+test('filters combine with AND', () => {
+  const candidates = [
+    dungeon('match', 'Crypt of Bones', 'Hard', 6, [['entrance'], ['boss', 'Bone Lich'], ['treasure']]),
+    dungeon('wrong-difficulty', 'Crypt of Ash', 'Easy', 6, [['entrance'], ['boss', 'Bone Lich'], ['treasure']]),
+    dungeon('too-low', 'Crypt of Dust', 'Hard', 2, [['entrance'], ['boss', 'Bone Lich'], ['treasure']]),
+    dungeon('wrong-name', 'Tomb of Bones', 'Hard', 6, [['entrance'], ['boss', 'Bone Lich'], ['treasure']]),
+    dungeon('no-treasure', 'Crypt of Rust', 'Hard', 6, [['entrance'], ['boss', 'Bone Lich']]),
+    dungeon('other-monster', 'Crypt of Mist', 'Hard', 6, [['entrance'], ['boss', 'Goblin'], ['treasure']])
+  ];
+  const { items, page } = DungeonQuery.run(candidates, query({
+    difficulty: 'Hard,Expert',
+    minLevel: '5',
+    maxLevel: '8',
+    q: 'crypt',
+    roomType: 'boss,treasure',
+    monster: 'lich'
+  }));
+  assert.deepEqual(items.map(d => d.id), ['match']);
+  assert.equal(page.total, 1);
+});
@@ -0,0 +1,69 @@
+import { test, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { RateLimiter } from '../lib/ratelimit';
+import { ApiEndpointConfig } from '../lib/api';
+
+// One request per caller per minute; each test uses its own endpoint ID, so buckets don't carry over
+function limitedEndpoint(id: string): ApiEndpointConfig {
+  return {
+    id,
+    name: id,
+    path: `/api/custom/${id}`,
+    enabled: true,
+    rateLimit: { perKey: { requests: 1, windowSeconds: 60 } }
+  };
+}
+
+function requestFrom(forwardedFor: string): Request {
+  return new Request('http://localhost/api/custom/limited', { headers: { 'X-Forwarded-For': forwardedFor } });
+}
+
+// The setting is read once, so each test that changes it configures the limiter again
+function trustProxies(value: string): void {
+  process.env.DUNGEON_TRUSTED_PROXIES = value;
+  RateLimiter.configure();
+}
+
+afterEach(() => {
+  delete process.env.DUNGEON_TRUSTED_PROXIES;
+  RateLimiter.configure();
+});
+
+test('X-Forwarded-For is ignored without trusted proxies', () => {
+  const endpoint = limitedEndpoint('untrusted');
+  assert.equal(RateLimiter.take(requestFrom('10.0.0.1'), endpoint)?.allowed, true);
+  assert.equal(RateLimiter.take(requestFrom('10.0.0.2'), endpoint)?.allowed, false);
+});
+
+test('behind trusted proxies callers are told apart by the address the proxy added', () => {
+  trustProxies('1');
+  const endpoint = limitedEndpoint('trusted');
+  assert.equal(RateLimiter.take(requestFrom('10.0.0.1'), endpoint)?.allowed, true);
+  assert.equal(RateLimiter.take(requestFrom('10.0.0.2'), endpoint)?.allowed, true);
+  // A made-up address to the left of the proxy's entry doesn't give a fresh bucket
+  assert.equal(RateLimiter.take(requestFrom('192.168.1.1, 10.0.0.1'), endpoint)?.allowed, false);
+});
+
+test('an invalid proxy count is reported once and the header is ignored', t => {
+  const logged = t.mock.method(console, 'error', () => {});
+  trustProxies('two');
+  assert.equal(logged.mock.callCount(), 1);
+  assert.match(String(logged.mock.calls[0].arguments[0]), /DUNGEON_TRUSTED_PROXIES/);
+
+  const endpoint = limitedEndpoint('misconfigured');
+  assert.equal(RateLimiter.take(requestFrom('10.0.0.1'), endpoint)?.allowed, true);
+  assert.equal(RateLimiter.take(requestFrom('10.0.0.2'), endpoint)?.allowed, false);
+  assert.equal(logged.mock.callCount(), 1);
+});
+
+test('a flood of new callers evicts the least recently used buckets', () => {
+  trustProxies('1');
+  const endpoint = limitedEndpoint('flood');
+  assert.equal(RateLimiter.take(requestFrom('10.0.0.1'), endpoint)?.allowed, true);
+  for (let i = 0; i < 10000; i++) {
+    RateLimiter.take(requestFrom(`172.16.${i >> 8}.${i & 255}`), endpoint);
+  }
+  // The first caller's bucket was dropped and starts full; the latest caller's was kept
+  assert.equal(RateLimiter.take(requestFrom('10.0.0.1'), endpoint)?.allowed, true);
+  assert.equal(RateLimiter.take(requestFrom('172.16.39.15'), endpoint)?.allowed, false);
+});
@@ -0,0 +1,64 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, mkdirSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { EndpointHit, EndpointUsageBucket } from '../lib/api';
+import { EndpointUsage, USAGE_MAX_RESOURCES } from '../lib/usage';
+
+// The repositories read from the working directory, so each run gets its own
+const originalCwd = process.cwd();
+let workDir: string;
+
+before(() => {
+  workDir = mkdtempSync(join(tmpdir(), 'dungeon-usage-'));
+  mkdirSync(join(workDir, 'data'));
+  process.chdir(workDir);
+});
+
+after(() => {
+  process.chdir(originalCwd);
+  rmSync(workDir, { recursive: true, force: true });
+});
+
+function hit(endpointId: string, fields: Partial<EndpointHit> = {}): EndpointHit {
+  return { endpointId, timestamp: new Date().toISOString(), status: 200, latencyMs: 3, resource: '/', ...fields };
+}
+
+function storedBuckets(): EndpointUsageBucket[] {
+  return JSON.parse(readFileSync(join(workDir, 'data', 'endpoint-usage.json'), 'utf-8')).usage;
+}
+
+test('hits are stored as one bucket per endpoint and hour', async () => {
+  for (let i = 0; i < 250; i++) {
+    EndpointUsage.record(hit('endpoint-a', { status: i % 10 === 0 ? 404 : 200, keyId: 'key-1' }));
+  }
+  EndpointUsage.record(hit('endpoint-b', { latencyMs: 40 }));
+  await EndpointUsage.flush();
+
+  const buckets = storedBuckets();
+  assert.ok(buckets.length <= 4); // Two endpoints, unless the hour turned during the test
+  assert.equal(buckets.filter(b => b.endpointId === 'endpoint-a').reduce((sum, b) => sum + b.requests, 0), 250);
+
+  const [stats] = await EndpointUsage.getStats('1h', 'endpoint-a');
+  assert.equal(stats.requests, 250);
+  assert.equal(stats.errors, 25);
+  assert.equal(stats.errorRate, 0.1);
+  assert.deepEqual(stats.statuses, { 200: 225, 404: 25 });
+  assert.deepEqual(stats.keys, [{ keyId: 'key-1', requests: 250 }]);
+  assert.deepEqual(stats.latencyMs, { p50: 5, p95: 5, p99: 5 });
+
+  assert.deepEqual((await EndpointUsage.getStats('24h')).map(s => s.endpointId).sort(), ['endpoint-a', 'endpoint-b']);
+});
+
+test('requests to more paths than a bucket counts are counted together', async () => {
+  for (let i = 0; i < USAGE_MAX_RESOURCES + 20; i++) {
+    EndpointUsage.record(hit('endpoint-paths', { resource: `/made-up-${i}`, status: 404 }));
+  }
+  await EndpointUsage.flush();
+
+  const resources = storedBuckets().filter(b => b.endpointId === 'endpoint-paths').map(b => b.resources);
+  assert.ok(resources.every(counts => Object.keys(counts).length <= USAGE_MAX_RESOURCES + 1));
+  const [stats] = await EndpointUsage.getStats('1h', 'endpoint-paths');
+  assert.equal(stats.requests, USAGE_MAX_RESOURCES + 20);
+});
@@ -0,0 +1,63 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Dungeon, DungeonValidator, ValidationRuleProfile } from '../lib/api';
+
+// Two connected rooms on a 2x1 grid: the smallest valid dungeon
+function twoRoomDungeon(): Dungeon {
+  return {
+    id: 'dungeon-test',
+    name: 'Test',
+    description: 'Test dungeon',
+    difficulty: 'Medium',
+    level: 1,
+    size: { width: 2, height: 1 },
+    rooms: [
+      {
+        id: 'room-entrance',
+        type: 'entrance',
+        description: 'Entrance',
+        coordinates: { x: 0, y: 0 },
+        connections: [{ direction: 'east', targetRoomId: 'room-boss' }]
+      },
+      {
+        id: 'room-boss',
+        type: 'boss',
+        description: 'Boss',
+        coordinates: { x: 1, y: 0 },
+        connections: [{ direction: 'west', targetRoomId: 'room-entrance' }]
+      }
+    ]
+  };
+}
+
+test('the two-room dungeon is valid', () => {
+  assert.deepEqual(DungeonValidator.validateDungeon(twoRoomDungeon()).errors, []);
+});
+
+test('a dungeon without size gets a size error instead of throwing', () => {
+  const dungeon = twoRoomDungeon() as Partial<Dungeon>;
+  delete dungeon.size;
+  const result = DungeonValidator.validateDungeon(dungeon as Dungeon);
+  assert.equal(result.valid, false);
+  assert.ok(result.errors.some(e => e.field === 'size' && e.code === 'required_field'));
+});
+
+test('a room without connections is treated as having none', () => {
+  const dungeon = twoRoomDungeon();
+  delete (dungeon.rooms![1] as Partial<typeof dungeon.rooms[number]>).connections;
+  const result = DungeonValidator.validateDungeon(dungeon);
+  assert.ok(result.errors.some(e => e.code === 'missing_reciprocal'));
+});
+
+test('a normalised rule profile keeps only the profile fields', () => {
+  const sent = {
+    monsterLevelWindow: { below: 1, above: 3, extra: true },
+    minRoomsByType: { boss: 1 },
+    notes: 'not part of a profile'
+  } as unknown as ValidationRuleProfile;
+  assert.deepEqual(DungeonValidator.validateRuleProfile(sent).errors, []);
+  assert.deepEqual(DungeonValidator.normalizeRuleProfile(sent), {
+    monsterLevelWindow: { below: 1, above: 3 },
+    minRoomsByType: { boss: 1 }
+  });
+});